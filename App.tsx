@@ -1,15 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { formatDate } from './utils/dateUtils';
+import { formatItemsLabel, getItemsTotalCent } from './utils/orderItems';
+import { getMealLabel, getMealTabs, isMealTabEnabled } from './utils/mealTabs';
 import { useTranslation } from 'react-i18next';
-import { UserPreferences, DailyStatus, OrderStatus } from './types';
-import { getPreferences, savePreferences } from './services/db';
-import { useCalendarStatus, useLogout } from './hooks/useMeican';
-import { getSettings } from './services/meicanService';
+import { UserPreferences, DailyStatus, MealTab, MealTime, OrderStatus } from './types';
+import { getEncryptionStatus, getPreferences, removeAccount, savePreferences, startNewAccount, switchAccount } from './services/db';
+import { useQueryClient } from '@tanstack/react-query';
+import { meicanKeys, useAuthStatus, useCalendarStatus, useLogout } from './hooks/useMeican';
+import { useDeadlineReminders } from './hooks/useDeadlineReminders';
+import { getSettings, logout } from './services/meicanService';
 import SettingsPanel from './components/SettingsPanel';
 import Planner from './components/Planner';
 import AnalysisPanel from './components/AnalysisPanel';
 import OrderEditModal from './components/OrderEditModal';
 import LandingPage from './components/LandingPage';
+import UnlockBanner from './components/UnlockBanner';
+import SessionExpiredBanner from './components/SessionExpiredBanner';
+import AccountSwitcher from './components/AccountSwitcher';
 import { motion, AnimatePresence } from 'framer-motion';
 
 const DEFAULT_PREFS: UserPreferences = {
@@ -17,7 +24,6 @@ const DEFAULT_PREFS: UserPreferences = {
   password: '',
   sessionId: '',
   proxyUrl: '',
-  useMockData: false,
   excludedKeywords: [],
   vendorWeights: {},
   planningMode: 'balanced',
@@ -28,6 +34,20 @@ const DEFAULT_PREFS: UserPreferences = {
   customAiModel: ''
 };
 
+// Calendar colors per meal kind
+const MEAL_STYLES: Record<MealTime, { color: string; text: string }> = {
+  [MealTime.BREAKFAST]: { color: 'bg-orange-500', text: 'text-orange-400' },
+  [MealTime.LUNCH]: { color: 'bg-[#6FB92D]', text: 'text-[#6FB92D]' },
+  [MealTime.DINNER]: { color: 'bg-indigo-500', text: 'text-indigo-400' },
+  [MealTime.OTHER]: { color: 'bg-pink-500', text: 'text-pink-400' },
+};
+
+// Rows shown until the calendar has loaded and its meal tabs are known
+const PLACEHOLDER_TABS: MealTab[] = [
+  { id: 'LUNCH', name: '', mealTime: MealTime.LUNCH },
+  { id: 'DINNER', name: '', mealTime: MealTime.DINNER },
+];
+
 // Skeleton component for loading state
 const MealSkeleton: React.FC<{ color: string }> = ({ color }) => (
   <div className="w-full animate-pulse">
@@ -44,7 +64,9 @@ const App: React.FC = () => {
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [editingSlot, setEditingSlot] = useState<DailyStatus | null>(null);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [encryptionLocked, setEncryptionLocked] = useState(false);
   const logoutMutation = useLogout();
+  const queryClient = useQueryClient();
   const [currentWeekStart, setCurrentWeekStart] = useState(() => {
     const d = new Date();
     const day = d.getDay();
@@ -72,26 +94,38 @@ const App: React.FC = () => {
   const { start: weekStart, end: weekEnd } = getWeekRange(currentWeekStart);
   
   const { data: weekStatus = [], isLoading, isFetching, refetch: refetchCalendar } = useCalendarStatus(weekStart, weekEnd, prefs);
+  const mealTabs = getMealTabs(weekStatus);
+  const { data: authStatus } = useAuthStatus(prefs);
+
+  // Browser reminders before order deadlines
+  useDeadlineReminders(weekStatus, prefs);
+
+  // Stored preferences of an account, updated with its settings from the backend
+  const loadAccountPrefs = async (stored: UserPreferences | null): Promise<UserPreferences> => {
+    let loaded = stored || DEFAULT_PREFS;
+    
+    // If logged in, fetch latest settings from backend
+    if (loaded.sessionId) {
+      try {
+        const backendSettings = await getSettings(loaded.sessionId);
+        if (backendSettings) {
+          loaded = { ...loaded, ...backendSettings };
+          // Update local storage with latest backend settings
+          await savePreferences(loaded);
+        }
+      } catch (e) {
+        console.error('Failed to sync settings:', e);
+      }
+    }
+    return loaded;
+  };
 
   useEffect(() => {
+    getEncryptionStatus().then(status => setEncryptionLocked(status.locked));
+
     // Initial Load
     getPreferences().then(async (stored) => {
-      let initial = stored || DEFAULT_PREFS;
-      
-      // If logged in, fetch latest settings from backend
-      if (initial.sessionId && initial.username) {
-        try {
-          const backendSettings = await getSettings(initial.username, initial.sessionId);
-          if (backendSettings) {
-            initial = { ...initial, ...backendSettings };
-            // Update local storage with latest backend settings
-            await savePreferences(initial);
-          }
-        } catch (e) {
-          console.error('Failed to sync settings:', e);
-        }
-      }
-      
+      const initial = await loadAccountPrefs(stored);
       setPrefs(initial);
 
       // Auto-switch to next week if weekends are disabled and today is Saturday/Sunday
@@ -107,6 +141,20 @@ const App: React.FC = () => {
     });
   }, []);
 
+  const handleUnlocked = async () => {
+    const stored = await getPreferences();
+    if (stored) {
+      // Fill in the credentials that could not be decrypted while locked
+      setPrefs(prev => prev && {
+        ...prev,
+        password: prev.password || stored.password,
+        geminiApiKey: prev.geminiApiKey || stored.geminiApiKey,
+        customAiApiKey: prev.customAiApiKey || stored.customAiApiKey,
+      });
+    }
+    setEncryptionLocked(false);
+  };
+
   const handleWeekChange = (direction: 'prev' | 'next') => {
     const newDate = new Date(currentWeekStart);
     newDate.setDate(newDate.getDate() + (direction === 'next' ? 7 : -7));
@@ -127,6 +175,36 @@ const App: React.FC = () => {
     }
   };
 
+  // Each account keeps its own backend session, so switching needs no new login
+  const handleSwitchAccount = async (username: string) => {
+    setShowUserMenu(false);
+    const next = await loadAccountPrefs(await switchAccount(username));
+    queryClient.clear(); // Cached data belongs to the previous account
+    setPrefs(next);
+  };
+
+  const handleAddAccount = async () => {
+    setShowUserMenu(false);
+    await startNewAccount();
+    queryClient.clear();
+    setPrefs({ ...DEFAULT_PREFS });
+  };
+
+  const handleRemoveAccount = async (username: string) => {
+    const accountPrefs = await getPreferences(username);
+    if (accountPrefs?.sessionId) {
+      await logout(accountPrefs);
+    }
+    await removeAccount(username);
+  };
+
+  const handleRelogin = async (newPrefs: UserPreferences) => {
+    await savePreferences(newPrefs);
+    setPrefs(newPrefs);
+    // Refetch everything that failed with the expired session
+    queryClient.invalidateQueries({ queryKey: meicanKeys.all });
+  };
+
   const [loadingSlotId, setLoadingSlotId] = useState<string | null>(null);
 
   // Check if a slot can still be edited (modification deadline not passed)
@@ -150,7 +228,7 @@ const App: React.FC = () => {
   if (!prefs) return <div className="flex h-screen items-center justify-center bg-[#181818] text-[#6FB92D]">{t('app.loading')}</div>;
 
   // Determine if we should show the Landing Page
-  const showLanding = !prefs.sessionId && !prefs.useMockData;
+  const showLanding = !prefs.sessionId;
 
   return (
     <div className="min-h-screen text-gray-200 font-sans selection:bg-[#6FB92D] selection:text-white bg-[#181818]">
@@ -164,6 +242,7 @@ const App: React.FC = () => {
              <LandingPage 
                initialPrefs={prefs}
                onLoginSuccess={(newPrefs) => setPrefs(newPrefs)}
+               onSwitchAccount={handleSwitchAccount}
              />
            </motion.div>
         ) : (
@@ -225,12 +304,17 @@ const App: React.FC = () => {
                             animate={{ opacity: 1, y: 0, scale: 1 }}
                             exit={{ opacity: 0, y: 10, scale: 0.95 }}
                             transition={{ duration: 0.1 }}
-                            className="absolute top-full right-0 mt-2 w-48 bg-[#252525] rounded-xl shadow-xl border border-white/10 overflow-hidden z-50 flex flex-col"
+                            className="absolute top-full right-0 mt-2 w-56 bg-[#252525] rounded-xl shadow-xl border border-white/10 overflow-hidden z-50 flex flex-col"
                           >
                             <div className="px-4 py-3 border-b border-white/5">
                               <p className="text-xs text-gray-500">{t('app.signedInAs')}</p>
                               <p className="text-sm font-medium text-white truncate text-ellipsis overflow-hidden">{prefs.username}</p>
                             </div>
+                            <AccountSwitcher
+                              onSwitch={handleSwitchAccount}
+                              onAdd={handleAddAccount}
+                              onRemove={handleRemoveAccount}
+                            />
                             <button 
                               onClick={handleLogout}
                               className="w-full text-left px-4 py-3 text-sm text-red-400 hover:bg-red-400/10 transition-colors flex items-center gap-2"
@@ -249,7 +333,9 @@ const App: React.FC = () => {
 
             {/* Main Content */}
             <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-24 pb-10 md:py-28">
-              
+              {encryptionLocked && <UnlockBanner onUnlocked={handleUnlocked} />}
+              {authStatus?.expired && <SessionExpiredBanner prefs={prefs} onRelogin={handleRelogin} onLogout={handleLogout} />}
+
               {/* Controls */}
               <div className="flex flex-col sm:flex-row justify-between items-center mb-6 md:mb-10 gap-4 md:gap-6">
                 <motion.div 
@@ -310,11 +396,10 @@ const App: React.FC = () => {
                    const dayItems = weekStatus.filter(w => w.date === dateStr);
                    const isToday = formatDate(new Date()) === dateStr;
                    
-                   // Define meals based on preferences
-                   const mealsToShow = [];
-                   if (prefs.enableBreakfast) mealsToShow.push({ id: 'BREAKFAST', label: t('meals.breakfast'), color: 'bg-orange-500', text: 'text-orange-400' });
-                   mealsToShow.push({ id: 'LUNCH', label: t('meals.lunch'), color: 'bg-[#6FB92D]', text: 'text-[#6FB92D]' });
-                   mealsToShow.push({ id: 'DINNER', label: t('meals.dinner'), color: 'bg-indigo-500', text: 'text-indigo-400' });
+                   // One row per meal tab that is switched on in the settings
+                   const mealsToShow = (mealTabs.length > 0 ? mealTabs : PLACEHOLDER_TABS)
+                     .filter(tab => isMealTabEnabled(prefs, { tabUniqueId: tab.id, mealTime: tab.mealTime }))
+                     .map(tab => ({ id: tab.id, label: tab.name || getMealLabel(tab), ...MEAL_STYLES[tab.mealTime] }));
 
                    return (
                      <motion.div 
@@ -323,7 +408,7 @@ const App: React.FC = () => {
                          hidden: { opacity: 0, y: 20 },
                          visible: { opacity: 1, y: 0, transition: { type: "spring", stiffness: 300, damping: 30 } }
                        }}
-                       className={`glass-panel rounded-3xl overflow-hidden flex flex-col h-[${prefs.enableBreakfast ? '32rem' : '26rem'}] transition-all duration-300 hover:shadow-xl hover:shadow-[#6FB92D]/10 hover:border-[#6FB92D]/30 ${isToday ? 'ring-2 ring-[#6FB92D] ring-offset-2 ring-offset-[#181818]' : ''}`}
+                       className={`glass-panel rounded-3xl overflow-hidden flex flex-col h-[${14 + mealsToShow.length * 6}rem] transition-all duration-300 hover:shadow-xl hover:shadow-[#6FB92D]/10 hover:border-[#6FB92D]/30 ${isToday ? 'ring-2 ring-[#6FB92D] ring-offset-2 ring-offset-[#181818]' : ''}`}
                      >
                        <div className="bg-[#2A2A2A]/50 px-5 py-4 border-b border-white/5 flex justify-between items-baseline">
                          <h3 className={`font-bold text-lg ${isToday ? 'text-[#6FB92D]' : 'text-gray-300'}`}>{dayName}</h3>
@@ -331,9 +416,9 @@ const App: React.FC = () => {
                        
                        <div className="flex-1 p-4 space-y-4 flex flex-col">
                           {mealsToShow.map(meal => {
-                            const mealItem = dayItems.find(i => i.mealTime === meal.id);
+                            const mealItem = dayItems.find(i => i.tabUniqueId === meal.id);
                             const isOrdered = mealItem?.status === OrderStatus.ORDERED;
-                            const slotKey = mealItem ? `${mealItem.date}-${mealItem.mealTime}` : '';
+                            const slotKey = mealItem ? `${mealItem.date}-${mealItem.tabUniqueId}` : '';
                             const isSlotLoading = isLoading || (isFetching && loadingSlotId === slotKey);
 
                             return (
@@ -360,8 +445,15 @@ const App: React.FC = () => {
                                   <MealSkeleton color={`${meal.color}/30`} />
                                 ) : isOrdered ? (
                                   <div className="w-full">
-                                    <div className={`text-sm font-bold ${meal.text} line-clamp-2 mb-1`}>{mealItem.currentOrder?.name || t('app.ordered')}</div>
-                                    <div className="text-xs text-gray-400 group-hover:text-gray-200 transition-colors">{mealItem.currentOrder?.restaurantName}</div>
+                                    <div className={`text-sm font-bold ${meal.text} line-clamp-2 mb-1`}>
+                                      {mealItem.orderItems ? formatItemsLabel(mealItem.orderItems) : t('app.ordered')}
+                                    </div>
+                                    <div className="text-xs text-gray-400 group-hover:text-gray-200 transition-colors flex justify-between gap-2">
+                                      <span className="truncate">{mealItem.currentOrder?.restaurantName}</span>
+                                      {mealItem.orderItems && (
+                                        <span className="font-mono">¥{(getItemsTotalCent(mealItem.orderItems) / 100).toFixed(2)}</span>
+                                      )}
+                                    </div>
                                   </div>
                                 ) : !canEditSlot(mealItem) ? (
                                   <span className="text-sm text-gray-600">{t('app.orderClosed')}</span>
@@ -421,7 +513,7 @@ const App: React.FC = () => {
                   prefs={prefs}
                   onClose={() => setEditingSlot(null)}
                   onOrderUpdated={() => {
-                    setLoadingSlotId(`${editingSlot.date}-${editingSlot.mealTime}`);
+                    setLoadingSlotId(`${editingSlot.date}-${editingSlot.tabUniqueId}`);
                     setEditingSlot(null);
                     refetchCalendar().then(() => setLoadingSlotId(null));
                   }}
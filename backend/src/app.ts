@@ -0,0 +1,92 @@
+/**
+ * The API app: middleware and routes, without starting a server or background jobs
+ */
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { logger } from 'hono/logger';
+import { authMiddleware } from './middleware/auth';
+import auth from './routes/auth';
+import calendar from './routes/calendar';
+import history from './routes/history';
+import menu from './routes/menu';
+import order from './routes/order';
+import ai from './routes/ai';
+import settings from './routes/settings';
+import scheduler from './routes/scheduler';
+import plans from './routes/plans';
+import notifications from './routes/notifications';
+import { MeicanCache } from './services/meicanCache';
+import { MeicanHttp } from './services/meicanHttp';
+
+const app = new Hono();
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+// Logger
+app.use('*', logger());
+
+// CORS - Allow frontend requests
+app.use('*', cors());
+
+// Auth middleware for API routes (except auth routes)
+app.use('/api/*', authMiddleware);
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+// Health check
+app.get('/health', (c) => {
+  return c.json({ 
+    status: 'ok', 
+    timestamp: new Date().toISOString(),
+    version: '1.0.0',
+    cache: MeicanCache.getStats(),
+    meican: MeicanHttp.getStats(),
+  });
+});
+
+// Root route
+app.get('/', (c) => {
+  return c.json({
+    name: 'Meican API Proxy',
+    version: '1.0.0',
+    endpoints: {
+      health: '/health',
+      login: '/api/auth/login',
+      logout: '/api/auth/logout',
+      authStatus: '/api/auth/status',
+      calendarList: '/api/calendarItems/list',
+      addresses: '/api/corpaddresses/getmulticorpaddress',
+      restaurants: '/api/restaurants/list',
+      restaurantMenu: '/api/restaurants/show',
+      dishes: '/api/recommendations/dishes',
+      weekMenus: '/api/menus/week',
+      addOrder: '/api/orders/add',
+      replaceOrder: '/api/orders/replace',
+      deleteOrder: '/api/orders/delete',
+      historyOrders: '/api/history/orders',
+      aiChat: '/api/ai/chat',
+      schedulerStatus: '/api/scheduler/status',
+      schedulerRun: '/api/scheduler/run',
+      plans: '/api/plans',
+      notificationTest: '/api/notifications/test',
+    }
+  });
+});
+
+// Mount route modules
+app.route('/api/auth', auth);
+app.route('/api/calendarItems', calendar);
+app.route('/api/history', history);
+app.route('/api', menu);
+app.route('/api/orders', order);
+app.route('/api/ai', ai);
+app.route('/api/settings', settings);
+app.route('/api/scheduler', scheduler);
+app.route('/api/plans', plans);
+app.route('/api/notifications', notifications);
+
+export default app;
@@ -0,0 +1,19 @@
+import * as path from 'path';
+import { FileStore } from './store';
+import { createMigrations, sealStoredSecrets } from './migrations';
+
+export { TABLES } from './migrations';
+export type { Transaction } from './store';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+
+/**
+ * Shared embedded store (data/meican-db.json + data/meican-db.journal)
+ * Opened and migrated when first imported.
+ */
+export const db = new FileStore(DATA_DIR, 'meican-db').open(createMigrations(DATA_DIR));
+
+// Re-encrypt secrets still sealed with a retired key after SECRET_KEYS was rotated
+db.transaction(sealStoredSecrets).catch(error => {
+  console.error('[DB] Failed to re-encrypt stored secrets:', error);
+});
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Migration, Transaction } from './store';
+import { SECRET_SETTING_FIELDS, SecretBox } from '../services/secretBox';
+
+export const TABLES = {
+  sessions: 'sessions', // sessionId -> { cookies, createdAt, username }
+  settings: 'settings', // username -> user settings
+  plans: 'plans', // planId -> plan draft with its username
+  historySnapshots: 'history_snapshots', // username -> last fetched order history
+  jobState: 'job_state', // 'scheduler' | 'reminders' -> background job state
+  orderRequests: 'order_requests', // scope|idempotencyKey -> result of a placed order
+} as const;
+
+const readLegacyJson = (dataDir: string, file: string): Record<string, any> | null => {
+  const filePath = path.join(dataDir, file);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    console.warn(`[DB] Skipping unreadable legacy file ${file}:`, error);
+    return null;
+  }
+};
+
+/**
+ * One-time import of the JSON files used before the store existed
+ * The files are left in place and can be deleted once the import is confirmed.
+ */
+const importLegacyJson = (tx: Transaction, dataDir: string) => {
+  const imported: string[] = [];
+
+  const sessions = readLegacyJson(dataDir, '.sessions.json');
+  if (sessions) {
+    for (const [sessionId, session] of Object.entries(sessions)) {
+      tx.put(TABLES.sessions, sessionId, {
+        cookies: session.cookies,
+        createdAt: session.createdAt,
+        username: session.username,
+      });
+    }
+    imported.push(`${Object.keys(sessions).length} sessions`);
+  }
+
+  const settings = readLegacyJson(dataDir, 'user_settings.json');
+  if (settings) {
+    for (const [username, userSettings] of Object.entries(settings)) {
+      tx.put(TABLES.settings, username, userSettings);
+    }
+    imported.push(`settings of ${Object.keys(settings).length} users`);
+  }
+
+  const plans = readLegacyJson(dataDir, 'plans.json');
+  if (plans) {
+    let count = 0;
+    for (const [username, drafts] of Object.entries(plans)) {
+      for (const draft of drafts as { id: string }[]) {
+        tx.put(TABLES.plans, draft.id, { ...draft, username });
+        count++;
+      }
+    }
+    imported.push(`${count} plan drafts`);
+  }
+
+  const schedulerState = readLegacyJson(dataDir, 'scheduler_state.json');
+  if (schedulerState) {
+    tx.put(TABLES.jobState, 'scheduler', schedulerState);
+    imported.push('scheduler state');
+  }
+
+  const reminderState = readLegacyJson(dataDir, 'reminder_state.json');
+  if (reminderState) {
+    tx.put(TABLES.jobState, 'reminders', reminderState);
+    imported.push('reminder state');
+  }
+
+  if (imported.length > 0) {
+    console.log(`[DB] Imported legacy JSON files: ${imported.join(', ')}`);
+  }
+};
+
+/**
+ * Encrypt plaintext session cookies and credential settings, and re-encrypt
+ * values sealed with a key that is no longer the active one
+ */
+export const sealStoredSecrets = (tx: Transaction) => {
+  let count = 0;
+
+  for (const [sessionId, session] of Object.entries(tx.all<{ cookies: string; credential?: string }>(TABLES.sessions))) {
+    const credentialNeedsReseal = SecretBox.needsReseal(session.credential);
+    if (SecretBox.needsReseal(session.cookies) || credentialNeedsReseal) {
+      tx.put(TABLES.sessions, sessionId, {
+        ...session,
+        cookies: SecretBox.needsReseal(session.cookies) ? SecretBox.reseal(session.cookies) : session.cookies,
+        credential: credentialNeedsReseal ? SecretBox.reseal(session.credential!) : session.credential,
+      });
+      count++;
+    }
+  }
+
+  for (const [username, settings] of Object.entries(tx.all<Record<string, unknown>>(TABLES.settings))) {
+    const fields = SECRET_SETTING_FIELDS.filter(field => SecretBox.needsReseal(settings[field]));
+    if (fields.length === 0) continue;
+    const sealed = { ...settings };
+    fields.forEach(field => { sealed[field] = SecretBox.reseal(settings[field] as string); });
+    tx.put(TABLES.settings, username, sealed);
+    count++;
+  }
+
+  if (count > 0) {
+    console.log(`[DB] Sealed secrets in ${count} rows`);
+  }
+};
+
+/**
+ * Schema migrations, applied in order and recorded by version
+ * Never edit a released migration; add a new one instead.
+ */
+export const createMigrations = (dataDir: string): Migration[] => [
+  {
+    version: 1,
+    name: 'create-tables',
+    // The tables as released; later tables are created by their own migrations
+    up: (tx) => [TABLES.sessions, TABLES.settings, TABLES.plans, TABLES.historySnapshots, TABLES.jobState]
+      .forEach(table => tx.createTable(table)),
+  },
+  {
+    version: 2,
+    name: 'import-legacy-json',
+    up: (tx) => importLegacyJson(tx, dataDir),
+  },
+  {
+    version: 3,
+    name: 'encrypt-secrets',
+    up: (tx) => sealStoredSecrets(tx),
+  },
+  {
+    version: 4,
+    name: 'create-order-requests',
+    up: (tx) => tx.createTable(TABLES.orderRequests),
+  },
+];
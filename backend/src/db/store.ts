@@ -0,0 +1,326 @@
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+
+type TableData = Record<string, unknown>;
+
+type Operation =
+  | { op: 'createTable'; table: string }
+  | { op: 'put'; table: string; key: string; value: unknown }
+  | { op: 'delete'; table: string; key: string };
+
+interface JournalEntry {
+  seq: number;
+  ops: Operation[];
+}
+
+interface Snapshot {
+  seq: number;
+  tables: Record<string, TableData>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (tx: Transaction) => void;
+}
+
+const META_TABLE = '_meta';
+
+// The journal is folded into the snapshot once it grows past this many entries
+const COMPACT_AFTER_ENTRIES = 500;
+
+// Writes are flushed to disk before they count as committed, so a power loss cannot drop them
+const writeDurable = async (file: string, data: string, flags: 'a' | 'w') => {
+  const handle = await fsp.open(file, flags);
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+};
+
+const writeDurableSync = (file: string, data: string, flags: 'a' | 'w') => {
+  const fd = fs.openSync(file, flags);
+  try {
+    fs.writeFileSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+// Persist a rename; not every platform can open a directory for syncing
+const syncDirSync = (dir: string) => {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(dir, 'r');
+    fs.fsyncSync(fd);
+  } catch {
+    // Best effort
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+};
+
+// Rows are stored as plain JSON, cloning keeps callers from mutating committed state
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Transaction
+ * Buffers writes on top of the committed state; reads see the transaction's own writes.
+ * Nothing is visible to other readers until the store commits it.
+ */
+export class Transaction {
+  private readonly ops: Operation[] = [];
+  private readonly overlay = new Map<string, Map<string, { value?: unknown; deleted?: boolean }>>();
+  private readonly createdTables = new Set<string>();
+
+  constructor(private readonly store: FileStore) {}
+
+  get operations(): Operation[] {
+    return this.ops;
+  }
+
+  createTable(table: string): void {
+    if (this.store.hasTable(table) || this.createdTables.has(table)) return;
+    this.createdTables.add(table);
+    this.ops.push({ op: 'createTable', table });
+  }
+
+  get<T>(table: string, key: string): T | undefined {
+    this.assertTable(table);
+    const entry = this.overlay.get(table)?.get(key);
+    if (entry) {
+      return entry.deleted ? undefined : clone(entry.value as T);
+    }
+    return this.store.hasTable(table) ? this.store.get<T>(table, key) : undefined;
+  }
+
+  all<T>(table: string): Record<string, T> {
+    this.assertTable(table);
+    const rows = this.store.hasTable(table) ? this.store.all<T>(table) : {};
+    for (const [key, entry] of this.overlay.get(table)?.entries() || []) {
+      if (entry.deleted) {
+        delete rows[key];
+      } else {
+        rows[key] = clone(entry.value as T);
+      }
+    }
+    return rows;
+  }
+
+  put<T>(table: string, key: string, value: T): void {
+    this.assertTable(table);
+    const stored = clone(value);
+    this.getOverlay(table).set(key, { value: stored });
+    this.ops.push({ op: 'put', table, key, value: stored });
+  }
+
+  delete(table: string, key: string): void {
+    this.assertTable(table);
+    this.getOverlay(table).set(key, { deleted: true });
+    this.ops.push({ op: 'delete', table, key });
+  }
+
+  private getOverlay(table: string) {
+    let rows = this.overlay.get(table);
+    if (!rows) {
+      rows = new Map();
+      this.overlay.set(table, rows);
+    }
+    return rows;
+  }
+
+  private assertTable(table: string) {
+    if (!this.store.hasTable(table) && !this.createdTables.has(table)) {
+      throw new Error(`Unknown table: ${table}`);
+    }
+  }
+}
+
+/**
+ * File Store
+ * Embedded key-value store with named tables, kept in memory and persisted as a
+ * snapshot plus an append-only journal (one JSON line per committed transaction).
+ * A commit returns once its journal line is synced to disk. A torn trailing line
+ * from a crash is discarded on load, and one from a failed write is cut off right
+ * away, so every transaction is either fully applied or not at all. Transactions
+ * run one at a time.
+ */
+export class FileStore {
+  private tables: Record<string, TableData> = {};
+  private seq = 0;
+  private journalEntries = 0;
+  private journalBytes = 0; // Length of the journal up to its last committed entry
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly snapshotFile: string;
+  private readonly journalFile: string;
+
+  constructor(private readonly dir: string, name: string) {
+    this.snapshotFile = path.join(dir, `${name}.json`);
+    this.journalFile = path.join(dir, `${name}.journal`);
+  }
+
+  /**
+   * Load the snapshot, replay the journal and apply pending migrations
+   * Synchronous so the store is usable as soon as the module that opens it is imported.
+   */
+  open(migrations: Migration[]): this {
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    if (fs.existsSync(this.snapshotFile)) {
+      const snapshot: Snapshot = JSON.parse(fs.readFileSync(this.snapshotFile, 'utf-8'));
+      this.tables = snapshot.tables;
+      this.seq = snapshot.seq;
+    }
+    this.tables[META_TABLE] ??= {};
+
+    const journal = fs.existsSync(this.journalFile) ? fs.readFileSync(this.journalFile, 'utf-8') : '';
+    for (const line of journal.split('\n')) {
+      if (!line.trim()) continue;
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        console.warn('[DB] Discarding incomplete journal entry');
+        break;
+      }
+      // Entries up to the snapshot's seq were already folded into it
+      if (entry.seq <= this.seq) continue;
+      this.apply(entry.ops);
+      this.seq = entry.seq;
+    }
+
+    const currentVersion = this.getSchemaVersion();
+    for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+      if (migration.version <= currentVersion) continue;
+      const tx = new Transaction(this);
+      migration.up(tx);
+      tx.put(META_TABLE, 'schemaVersion', migration.version);
+      this.commitSync(tx.operations);
+      console.log(`[DB] Applied migration ${migration.version} (${migration.name})`);
+    }
+
+    // Start every run from a clean snapshot, which also drops any torn journal tail
+    if (journal.trim() || this.journalEntries > 0) {
+      this.compactSync();
+    }
+
+    return this;
+  }
+
+  getSchemaVersion(): number {
+    return (this.tables[META_TABLE]?.schemaVersion as number | undefined) ?? 0;
+  }
+
+  hasTable(table: string): boolean {
+    return table in this.tables;
+  }
+
+  get<T>(table: string, key: string): T | undefined {
+    return clone(this.getTable(table)[key] as T | undefined);
+  }
+
+  all<T>(table: string): Record<string, T> {
+    return clone(this.getTable(table) as Record<string, T>);
+  }
+
+  /**
+   * Run fn in a transaction and commit its writes atomically
+   * Transactions are serialized; do not start one from inside another.
+   * If fn throws, none of its writes are applied.
+   */
+  transaction<T>(fn: (tx: Transaction) => T | Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      const tx = new Transaction(this);
+      const result = await fn(tx);
+      if (tx.operations.length > 0) {
+        await this.commit(tx.operations);
+      }
+      return result;
+    });
+    // A failed transaction must not block the ones queued behind it
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private getTable(table: string): TableData {
+    const rows = this.tables[table];
+    if (!rows) {
+      throw new Error(`Unknown table: ${table}`);
+    }
+    return rows;
+  }
+
+  private apply(ops: Operation[]) {
+    for (const op of ops) {
+      switch (op.op) {
+        case 'createTable':
+          this.tables[op.table] ??= {};
+          break;
+        case 'put':
+          this.tables[op.table][op.key] = op.value;
+          break;
+        case 'delete':
+          delete this.tables[op.table][op.key];
+          break;
+      }
+    }
+  }
+
+  private async commit(ops: Operation[]) {
+    const entry: JournalEntry = { seq: this.seq + 1, ops };
+    const line = `${JSON.stringify(entry)}\n`;
+    try {
+      await writeDurable(this.journalFile, line, 'a');
+    } catch (error) {
+      // A partly written line would end the replay there and drop every commit after it
+      await fsp.truncate(this.journalFile, this.journalBytes).catch(truncateError => {
+        console.error('[DB] Failed to cut off a partly written journal entry:', truncateError);
+      });
+      throw error;
+    }
+    this.apply(ops);
+    this.seq = entry.seq;
+    this.journalEntries++;
+    this.journalBytes += Buffer.byteLength(line);
+
+    if (this.journalEntries >= COMPACT_AFTER_ENTRIES) {
+      await this.compact();
+    }
+  }
+
+  private commitSync(ops: Operation[]) {
+    const entry: JournalEntry = { seq: this.seq + 1, ops };
+    const line = `${JSON.stringify(entry)}\n`;
+    writeDurableSync(this.journalFile, line, 'a');
+    this.apply(ops);
+    this.seq = entry.seq;
+    this.journalEntries++;
+    this.journalBytes += Buffer.byteLength(line);
+  }
+
+  // Write the snapshot to a temp file and rename it into place, then reset the journal.
+  // The journal is only emptied once the renamed snapshot is on disk.
+  private async compact() {
+    const tmpFile = `${this.snapshotFile}.tmp`;
+    await writeDurable(tmpFile, JSON.stringify({ seq: this.seq, tables: this.tables } satisfies Snapshot), 'w');
+    await fsp.rename(tmpFile, this.snapshotFile);
+    syncDirSync(this.dir);
+    await writeDurable(this.journalFile, '', 'w');
+    this.journalEntries = 0;
+    this.journalBytes = 0;
+  }
+
+  private compactSync() {
+    const tmpFile = `${this.snapshotFile}.tmp`;
+    writeDurableSync(tmpFile, JSON.stringify({ seq: this.seq, tables: this.tables } satisfies Snapshot), 'w');
+    fs.renameSync(tmpFile, this.snapshotFile);
+    syncDirSync(this.dir);
+    writeDurableSync(this.journalFile, '', 'w');
+    this.journalEntries = 0;
+    this.journalBytes = 0;
+  }
+}
@@ -0,0 +1,437 @@
+/**
+ * Local fake Meican server
+ * Stateful stand-in for the parts of Meican the backend uses (login, calendar,
+ * menus, restaurants, addresses, placing and cancelling orders), with seeded
+ * data so runs are repeatable. Orders placed through it show up in its
+ * calendar and history like they would on Meican.
+ *
+ * Usage: bun run fake-meican, then start the backend with
+ * MEICAN_BASE_URL=http://localhost:8191/preorder/api/v2.1 and log in with any
+ * username and the password "meican". Set FAKE_MEICAN_PORT, FAKE_MEICAN_SEED
+ * or FAKE_MEICAN_PASSWORD to change the defaults.
+ *
+ * Test hooks:
+ * - POST /__fake/reset: drop all sessions and orders
+ * - POST /__fake/expire-sessions: make Meican reject every current session cookie
+ * - POST /__fake/fail?count=1&status=503&path=/restaurants/show: answer the next API requests (to the path, if given) with an error
+ * - POST /__fake/slow?path=/orders/add&ms=1000: answer the next request to the path late, after handling it
+ * - GET /__fake/state: sessions and orders per user
+ *
+ * Like on Meican, breakfast has no recommended dishes: its menu is only
+ * reachable per restaurant through /restaurants/show.
+ */
+import { serve } from '@hono/node-server';
+import { Hono, type Context } from 'hono';
+import { addDays, formatDate, getDayOfWeek } from '../utils/calendar';
+import { parseMeicanDateTime } from '../shared/calendar';
+
+const API_PREFIX = '/preorder/api/v2.1';
+
+interface FakeDish {
+  id: number;
+  name: string;
+  priceInCent: number;
+}
+
+interface FakeRestaurant {
+  uniqueId: string;
+  name: string;
+  dishes: FakeDish[];
+}
+
+interface FakeMeal {
+  title: string;
+  tabUniqueId: string;
+  namespace: string;
+  targetTime: string; // HH:mm, time Meican expects in targetTime
+  closeTime: string; // HH:mm on the same day, in Meican's time zone like the target time
+  restaurants: FakeRestaurant[];
+  recommends: boolean; // Whether /recommendations/dishes lists the slot's dishes
+}
+
+interface FakeOrder {
+  uniqueId: string;
+  date: string;
+  tabUniqueId: string;
+  lines: { dishId: string; count: number }[];
+  addressId: string;
+}
+
+interface FakeUser {
+  orders: Map<string, FakeOrder>;
+}
+
+export interface FakeMeicanOptions {
+  seed?: number;
+  password?: string;
+  now?: () => Date; // Clock that decides which slots are still open
+}
+
+const restaurant = (uniqueId: string, name: string, firstDishId: number, dishes: [string, number][]): FakeRestaurant => ({
+  uniqueId,
+  name,
+  dishes: dishes.map(([dishName, priceInCent], i) => ({ id: firstDishId + i, name: dishName, priceInCent })),
+});
+
+const BREAKFAST_RESTAURANTS = [
+  restaurant('fake-rest-b1', '庆丰包子铺', 1001, [['猪肉大葱包子', 600], ['豆浆', 300]]),
+  restaurant('fake-rest-b2', '永和大王', 1011, [['油条豆浆套餐', 900], ['皮蛋瘦肉粥', 800]]),
+  restaurant('fake-rest-b3', 'Morning Bagels', 1021, [['Egg & Cheese Bagel', 1500], ['Oat Latte', 1800]]),
+];
+
+const MAIN_RESTAURANTS = [
+  restaurant('fake-rest-1', '湘菜小馆', 2001, [['辣椒炒肉饭', 3200], ['剁椒鱼头套餐', 3800], ['农家小炒肉', 3000]]),
+  restaurant('fake-rest-2', '老北京炸酱面', 2011, [['炸酱面', 2400], ['卤肉饭', 2600], ['凉拌黄瓜', 800]]),
+  restaurant('fake-rest-3', 'Salad Green', 2021, [['Chicken Caesar Salad', 3900], ['Quinoa Veggie Bowl', 3500], ['Beef Salad with Avocado', 4500]]),
+  restaurant('fake-rest-4', '川味小厨', 2031, [['麻婆豆腐饭', 2800], ['宫保鸡丁饭', 3000], ['水煮牛肉', 4200]]),
+  restaurant('fake-rest-5', 'Sushi Express', 2041, [['Salmon Sashimi Set', 6000], ['Chicken Teriyaki Don', 3600]]),
+  restaurant('fake-rest-6', '粤式烧腊', 2051, [['叉烧饭', 3200], ['烧鹅饭', 3800], ['白切鸡饭', 3400]]),
+];
+
+const MEALS: FakeMeal[] = [
+  { title: '早餐', tabUniqueId: 'fake-tab-breakfast', namespace: 'fake-corp-breakfast', targetTime: '07:00', closeTime: '06:30', restaurants: BREAKFAST_RESTAURANTS, recommends: false },
+  { title: '午餐', tabUniqueId: 'fake-tab-lunch', namespace: 'fake-corp-lunch', targetTime: '09:00', closeTime: '10:30', restaurants: MAIN_RESTAURANTS, recommends: true },
+  { title: '晚餐', tabUniqueId: 'fake-tab-dinner', namespace: 'fake-corp-dinner', targetTime: '12:00', closeTime: '16:00', restaurants: MAIN_RESTAURANTS, recommends: true },
+  // A corp-specific tab that is none of the usual three meals
+  { title: '加班餐', tabUniqueId: 'fake-tab-overtime', namespace: 'fake-corp-overtime', targetTime: '17:00', closeTime: '18:30', restaurants: MAIN_RESTAURANTS, recommends: true },
+];
+
+const ADDRESSES = [
+  { uniqueId: 'fake-addr-1', name: 'Tower A 1F', pickUpLocation: 'Tower A lobby' },
+  { uniqueId: 'fake-addr-2', name: 'Tower B 12F', pickUpLocation: 'Tower B pantry' },
+];
+
+// How far back orders are generated for a user's first login, so history has data
+const SEEDED_HISTORY_DAYS = 30;
+
+/**
+ * FNV-1a hash, to derive a stable random stream from the seed and a key
+ */
+const hash = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * mulberry32: small deterministic PRNG returning floats in [0, 1)
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const isWeekend = (date: string) => {
+  const day = getDayOfWeek(date);
+  return day === 0 || day === 6;
+};
+
+const findMeal = (tabUniqueId: string) => MEALS.find(meal => meal.tabUniqueId === tabUniqueId);
+
+export const createFakeMeican = (options: FakeMeicanOptions = {}) => {
+  const seed = options.seed ?? 1;
+  const password = options.password ?? 'meican';
+  const now = options.now ?? (() => new Date());
+
+  const sessions = new Map<string, string>(); // PLAY_SESSION token -> username
+  const users = new Map<string, FakeUser>();
+  const failures: { count: number; status: number; path?: string } = { count: 0, status: 503 };
+  const slowPaths = new Map<string, number>();
+  let orderSeq = 0;
+
+  /**
+   * Restaurants serving the slot; the selection changes per day
+   */
+  const getSlotRestaurants = (meal: FakeMeal, date: string): FakeRestaurant[] => {
+    if (isWeekend(date)) return [];
+    const random = createRandom(hash(`${seed}|${meal.tabUniqueId}|${date}`));
+    const shuffled = [...meal.restaurants];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled.slice(0, meal === MEALS[0] ? 2 : 4);
+  };
+
+  const isOpen = (meal: FakeMeal, date: string) => now().getTime() < parseMeicanDateTime(`${date} ${meal.closeTime}`);
+
+  const createOrder = (user: FakeUser, order: Omit<FakeOrder, 'uniqueId'>): FakeOrder => {
+    const created = { ...order, uniqueId: `fake-order-${++orderSeq}` };
+    user.orders.set(created.uniqueId, created);
+    return created;
+  };
+
+  /**
+   * Users start with past lunch orders, so history and analysis have something to show
+   */
+  const getUser = (username: string): FakeUser => {
+    let user = users.get(username);
+    if (user) return user;
+
+    user = { orders: new Map() };
+    users.set(username, user);
+    const random = createRandom(hash(`${seed}|${username}`));
+    const lunch = MEALS[1];
+    for (let daysAgo = SEEDED_HISTORY_DAYS; daysAgo >= 1; daysAgo--) {
+      const date = formatDate(addDays(now(), -daysAgo));
+      const restaurants = getSlotRestaurants(lunch, date);
+      if (restaurants.length === 0 || random() < 0.3) continue;
+      const pick = restaurants[Math.floor(random() * restaurants.length)];
+      const dish = pick.dishes[Math.floor(random() * pick.dishes.length)];
+      createOrder(user, {
+        date,
+        tabUniqueId: lunch.tabUniqueId,
+        lines: [{ dishId: String(dish.id), count: 1 }],
+        addressId: ADDRESSES[0].uniqueId,
+      });
+    }
+    return user;
+  };
+
+  const findSlotOrder = (user: FakeUser, tabUniqueId: string, date: string) =>
+    [...user.orders.values()].find(order => order.tabUniqueId === tabUniqueId && order.date === date);
+
+  /**
+   * corpOrderUser of a calendar item, shaped like Meican's withOrderDetail response
+   */
+  const toCorpOrderUser = (order: FakeOrder, meal: FakeMeal) => {
+    const byRestaurant = new Map<FakeRestaurant, { dish: FakeDish & { priceString: string }; count: number }[]>();
+    for (const line of order.lines) {
+      for (const rest of meal.restaurants) {
+        const dish = rest.dishes.find(d => String(d.id) === line.dishId);
+        if (!dish) continue;
+        const items = byRestaurant.get(rest) || [];
+        items.push({ dish: { ...dish, priceString: (dish.priceInCent / 100).toFixed(2) }, count: line.count });
+        byRestaurant.set(rest, items);
+      }
+    }
+    return {
+      uniqueId: order.uniqueId,
+      corpOrderStatus: 'ORDER',
+      userAddressUniqueId: order.addressId,
+      corp: { namespace: meal.namespace },
+      restaurantItemList: [...byRestaurant.entries()].map(([rest, dishItemList]) => ({
+        uniqueId: rest.uniqueId,
+        restaurant: { name: rest.name },
+        dishItemList,
+      })),
+    };
+  };
+
+  const app = new Hono<{ Variables: { username: string } }>();
+
+  app.post('/account/directlogin', async (c) => {
+    const form = await c.req.parseBody();
+    const username = String(form.username || '');
+    if (!username || form.password !== password) {
+      return c.text('用户名或密码错误');
+    }
+    const token = `fake_${hash(`${username}|${Date.now()}|${Math.random()}`).toString(36)}${sessions.size}`;
+    sessions.set(token, username);
+    getUser(username);
+    c.header('Set-Cookie', `PLAY_SESSION=${token}; Path=/; HttpOnly`);
+    return c.json({ success: true });
+  });
+
+  app.post('/__fake/reset', (c) => {
+    sessions.clear();
+    users.clear();
+    failures.count = 0;
+    slowPaths.clear();
+    return c.json({ ok: true });
+  });
+
+  app.post('/__fake/expire-sessions', (c) => {
+    const expired = sessions.size;
+    sessions.clear();
+    return c.json({ ok: true, expired });
+  });
+
+  app.post('/__fake/fail', (c) => {
+    failures.count = parseInt(c.req.query('count') || '1', 10);
+    failures.status = parseInt(c.req.query('status') || '503', 10);
+    failures.path = c.req.query('path') ? `${API_PREFIX}${c.req.query('path')}` : undefined;
+    return c.json({ ok: true, ...failures });
+  });
+
+  app.post('/__fake/slow', (c) => {
+    slowPaths.set(`${API_PREFIX}${c.req.query('path') || ''}`, parseInt(c.req.query('ms') || '1000', 10));
+    return c.json({ ok: true });
+  });
+
+  app.get('/__fake/state', (c) => c.json({
+    sessions: [...sessions.values()],
+    users: Object.fromEntries([...users.entries()].map(([username, user]) => [username, [...user.orders.values()]])),
+  }));
+
+  // Injected failures, then the session cookie, like Meican's own checks
+  app.use(`${API_PREFIX}/*`, async (c, next) => {
+    if (failures.count > 0 && (!failures.path || failures.path === c.req.path)) {
+      failures.count--;
+      return c.text('Service Unavailable', failures.status as 500);
+    }
+    const token = c.req.header('Cookie')?.match(/PLAY_SESSION=([^;]+)/)?.[1];
+    const username = token && sessions.get(token);
+    if (!username) {
+      return c.json({ error: 'unauthorized' }, 401);
+    }
+    c.set('username', username);
+    await next();
+
+    // Like a response lost on the way back: the request took effect, the answer comes too late
+    const delayMs = slowPaths.get(c.req.path);
+    if (delayMs !== undefined) {
+      slowPaths.delete(c.req.path);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  });
+
+  app.get(`${API_PREFIX}/calendarItems/list`, (c) => {
+    const user = getUser(c.get('username'));
+    const beginDate = c.req.query('beginDate');
+    const endDate = c.req.query('endDate');
+    if (!beginDate || !endDate) {
+      return c.json({ error: 'beginDate and endDate are required' }, 400);
+    }
+
+    const dateList = [];
+    for (let d = new Date(parseMeicanDateTime(`${beginDate} 00:00`)); formatDate(d) <= endDate; d = addDays(d, 1)) {
+      const date = formatDate(d);
+      if (isWeekend(date)) {
+        dateList.push({ date, calendarItemList: [] });
+        continue;
+      }
+      dateList.push({
+        date,
+        calendarItemList: MEALS.map(meal => {
+          const order = findSlotOrder(user, meal.tabUniqueId, date);
+          return {
+            title: meal.title,
+            targetTime: new Date(`${date}T${meal.targetTime}+08:00`).getTime(),
+            status: order ? 'ORDER' : isOpen(meal, date) ? 'AVAILABLE' : 'CLOSED',
+            userTab: { uniqueId: meal.tabUniqueId, name: meal.title },
+            openingTime: { name: meal.title, openTime: '00:00', closeTime: `${date} ${meal.closeTime}` },
+            corp: { namespace: meal.namespace },
+            corpOrderUser: order ? toCorpOrderUser(order, meal) : null,
+          };
+        }),
+      });
+    }
+    return c.json({ startDate: beginDate, endDate, dateList });
+  });
+
+  const readSlot = (c: Context) => {
+    const meal = findMeal(c.req.query('tabUniqueId') || '');
+    const date = (c.req.query('targetTime') || '').slice(0, 10);
+    return meal && date ? { meal, date } : null;
+  };
+
+  app.get(`${API_PREFIX}/recommendations/dishes`, (c) => {
+    const slot = readSlot(c);
+    if (!slot) return c.json({ error: 'Unknown tabUniqueId or targetTime' }, 400);
+    if (!slot.meal.recommends) return c.json({ othersRegularDishList: [] });
+    const othersRegularDishList = getSlotRestaurants(slot.meal, slot.date).flatMap(rest =>
+      rest.dishes.map(dish => ({ ...dish, restaurant: { uniqueId: rest.uniqueId, name: rest.name } }))
+    );
+    return c.json({ othersRegularDishList });
+  });
+
+  app.get(`${API_PREFIX}/restaurants/list`, (c) => {
+    const slot = readSlot(c);
+    if (!slot) return c.json({ error: 'Unknown tabUniqueId or targetTime' }, 400);
+    return c.json({
+      restaurantList: getSlotRestaurants(slot.meal, slot.date).map(rest => ({ uniqueId: rest.uniqueId, name: rest.name })),
+    });
+  });
+
+  app.get(`${API_PREFIX}/restaurants/show`, (c) => {
+    const slot = readSlot(c);
+    if (!slot) return c.json({ error: 'Unknown tabUniqueId or targetTime' }, 400);
+    const rest = getSlotRestaurants(slot.meal, slot.date).find(r => r.uniqueId === c.req.query('restaurantUniqueId'));
+    if (!rest) return c.json({ error: 'Restaurant is not open for this slot' }, 400);
+    return c.json({
+      uniqueId: rest.uniqueId,
+      name: rest.name,
+      dishList: rest.dishes.map(dish => ({ ...dish, priceString: (dish.priceInCent / 100).toFixed(2), isSection: false })),
+    });
+  });
+
+  app.get(`${API_PREFIX}/corpaddresses/getmulticorpaddress`, (c) => c.json({
+    data: {
+      addressList: ADDRESSES.map(a => ({ name: a.name, finalValue: { uniqueId: a.uniqueId, pickUpLocation: a.pickUpLocation } })),
+      recentList: ADDRESSES.slice(0, 1).map(a => ({ uniqueId: a.uniqueId, pickUpLocation: a.pickUpLocation, address: a.name })),
+    },
+  }));
+
+  app.post(`${API_PREFIX}/orders/add`, async (c) => {
+    const user = getUser(c.get('username'));
+    const form = await c.req.parseBody();
+    const meal = findMeal(String(form.tabUniqueId || ''));
+    const date = String(form.targetTime || '').slice(0, 10);
+    const addressId = String(form.userAddressUniqueId || form.corpAddressUniqueId || '');
+
+    if (!meal || !date) {
+      return c.json({ status: 'FAILED', message: '参数错误' });
+    }
+    if (!isOpen(meal, date) || getSlotRestaurants(meal, date).length === 0) {
+      return c.json({ status: 'FAILED', message: '已超过订餐截止时间' });
+    }
+    if (findSlotOrder(user, meal.tabUniqueId, date)) {
+      return c.json({ status: 'FAILED', message: '该餐已下单' });
+    }
+    if (!ADDRESSES.some(a => a.uniqueId === addressId)) {
+      return c.json({ status: 'FAILED', message: '无效的送餐地址' });
+    }
+
+    let lines: { dishId: string; count: number }[];
+    try {
+      lines = (JSON.parse(String(form.order)) as { dishId: string | number; count: number }[])
+        .map(line => ({ dishId: String(line.dishId), count: line.count }));
+    } catch {
+      return c.json({ status: 'FAILED', message: '参数错误' });
+    }
+
+    const available = new Set(getSlotRestaurants(meal, date).flatMap(rest => rest.dishes.map(d => String(d.id))));
+    const unavailable = lines.find(line => !available.has(line.dishId));
+    if (lines.length === 0 || unavailable) {
+      return c.json({ status: 'FAILED', message: '菜品已售罄' });
+    }
+
+    const order = createOrder(user, { date, tabUniqueId: meal.tabUniqueId, lines, addressId });
+    return c.json({ status: 'SUCCESSFUL', order: { uniqueId: order.uniqueId } });
+  });
+
+  app.post(`${API_PREFIX}/orders/delete`, async (c) => {
+    const user = getUser(c.get('username'));
+    const form = await c.req.parseBody();
+    const order = user.orders.get(String(form.uniqueId || ''));
+    if (!order) {
+      return c.json({ status: 'FAILED', message: '订单不存在' });
+    }
+    if (!isOpen(findMeal(order.tabUniqueId)!, order.date)) {
+      return c.json({ status: 'FAILED', message: '已超过订餐截止时间' });
+    }
+    user.orders.delete(order.uniqueId);
+    return c.json({ status: 'SUCCESSFUL' });
+  });
+
+  return app;
+};
+
+if (process.argv[1]?.endsWith('fakeMeican.ts')) {
+  const port = parseInt(process.env.FAKE_MEICAN_PORT || '8191');
+  const app = createFakeMeican({
+    seed: process.env.FAKE_MEICAN_SEED ? parseInt(process.env.FAKE_MEICAN_SEED, 10) : undefined,
+    password: process.env.FAKE_MEICAN_PASSWORD,
+  });
+
+  serve({ fetch: app.fetch, port }, (info) => {
+    console.log(`[FakeMeican] Listening on http://localhost:${info.port}`);
+    console.log(`[FakeMeican] Start the backend with MEICAN_BASE_URL=http://localhost:${info.port}${API_PREFIX}`);
+  });
+}
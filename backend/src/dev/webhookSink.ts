@@ -0,0 +1,23 @@
+/**
+ * Local webhook sink
+ * Prints every request it receives so reminder delivery can be checked
+ * without a real Slack/Feishu/DingTalk bot.
+ *
+ * Usage: bun run webhook-sink, then use http://localhost:8190/hook as the webhook URL
+ */
+import { serve } from '@hono/node-server';
+import { Hono } from 'hono';
+
+const app = new Hono();
+const port = parseInt(process.env.WEBHOOK_SINK_PORT || '8190');
+
+app.all('*', async (c) => {
+  const body = await c.req.text();
+  console.log(`[WebhookSink] ${new Date().toISOString()} ${c.req.method} ${c.req.path}`);
+  console.log(body);
+  return c.json({ ok: true });
+});
+
+serve({ fetch: app.fetch, port }, (info) => {
+  console.log(`[WebhookSink] Listening on http://localhost:${info.port}`);
+});
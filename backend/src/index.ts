@@ -3,76 +3,9 @@ config({ path: '.env.local' });
 config(); // Load .env as fallback
 
 import { serve } from '@hono/node-server';
-import { Hono } from 'hono';
-import { cors } from 'hono/cors';
-import { logger } from 'hono/logger';
-import { authMiddleware } from './middleware/auth';
-import auth from './routes/auth';
-import calendar from './routes/calendar';
-import history from './routes/history';
-import menu from './routes/menu';
-import order from './routes/order';
-import ai from './routes/ai';
-import settings from './routes/settings';
-
-const app = new Hono();
-
-// ============================================================================
-// Middleware
-// ============================================================================
-
-// Logger
-app.use('*', logger());
-
-// CORS - Allow frontend requests
-app.use('*', cors());
-
-// Auth middleware for API routes (except auth routes)
-app.use('/api/*', authMiddleware);
-
-// ============================================================================
-// Routes
-// ============================================================================
-
-// Health check
-app.get('/health', (c) => {
-  return c.json({ 
-    status: 'ok', 
-    timestamp: new Date().toISOString(),
-    version: '1.0.0'
-  });
-});
-
-// Root route
-app.get('/', (c) => {
-  return c.json({
-    name: 'Meican API Proxy',
-    version: '1.0.0',
-    endpoints: {
-      health: '/health',
-      login: '/api/auth/login',
-      logout: '/api/auth/logout',
-      authStatus: '/api/auth/status',
-      calendarList: '/api/calendarItems/list',
-      addresses: '/api/corpaddresses/getmulticorpaddress',
-      restaurants: '/api/restaurants/list',
-      dishes: '/api/recommendations/dishes',
-      addOrder: '/api/orders/add',
-      deleteOrder: '/api/orders/delete',
-      historyOrders: '/api/history/orders',
-      aiChat: '/api/ai/chat',
-    }
-  });
-});
-
-// Mount route modules
-app.route('/api/auth', auth);
-app.route('/api/calendarItems', calendar);
-app.route('/api/history', history);
-app.route('/api', menu);
-app.route('/api/orders', order);
-app.route('/api/ai', ai);
-app.route('/api/settings', settings);
+import app from './app';
+import { AutoOrderScheduler } from './services/scheduler';
+import { DeadlineReminders } from './services/reminders';
 
 // ============================================================================
 // Server
@@ -98,4 +31,9 @@ if (!process.versions['bun']) {
   });
 }
 
+// Start the auto-order daemon (disable with SCHEDULER_ENABLED=false)
+AutoOrderScheduler.start();
+// Start the deadline reminders (disable with REMINDERS_ENABLED=false)
+DeadlineReminders.start();
+
 export default app;
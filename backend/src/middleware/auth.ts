@@ -1,5 +1,5 @@
 import { Context, Next } from 'hono';
-import { getSessionCookies } from '../routes/auth';
+import { getSessionCookies, getSessionUsername } from '../routes/auth';
 
 // Environment variables for default credentials
 const DEFAULT_CLIENT_ID = process.env.MEICAN_CLIENT_ID || 'meican_client';
@@ -11,6 +11,7 @@ export interface AuthContext {
   clientId: string;
   clientSecret: string;
   sessionId?: string;
+  username?: string; // Meican account the session was created for; the only trusted identity for per-user data
 }
 
 declare module 'hono' {
@@ -19,6 +20,18 @@ declare module 'hono' {
   }
 }
 
+/**
+ * Build an auth context for server-initiated requests (e.g. background jobs)
+ * that act on behalf of a stored session rather than an incoming request
+ */
+export const createAuthContext = (cookie: string, sessionId?: string): AuthContext => ({
+  cookie,
+  clientId: DEFAULT_CLIENT_ID,
+  clientSecret: DEFAULT_CLIENT_SECRET,
+  sessionId,
+  username: sessionId ? getSessionUsername(sessionId) || undefined : undefined,
+});
+
 /**
  * Authentication middleware
  * Extracts authentication credentials from request headers
@@ -28,6 +41,7 @@ export const authMiddleware = async (c: Context, next: Next) => {
   // Check for session-based auth first
   const sessionId = c.req.header('X-Session-Id');
   let cookie = '';
+  let username: string | undefined;
 
   if (sessionId) {
     // Get cookies from session storage
@@ -35,6 +49,7 @@ export const authMiddleware = async (c: Context, next: Next) => {
     if (sessionCookies) {
       cookie = sessionCookies;
     }
+    username = getSessionUsername(sessionId) || undefined;
   }
 
   // Fall back to direct cookie header
@@ -52,7 +67,44 @@ export const authMiddleware = async (c: Context, next: Next) => {
     clientId,
     clientSecret,
     sessionId,
+    username,
   });
 
   await next();
 };
+
+/**
+ * Guard for per-user routes
+ * Requires a session bound to a username (401). A username sent in the query
+ * or JSON body is only accepted when it names that same user (403).
+ */
+export const requireUser = async (c: Context, next: Next) => {
+  const { username } = c.get('auth');
+  if (!username) {
+    return c.json({ error: 'Valid session required' }, 401);
+  }
+
+  let claimed = c.req.query('username');
+  if (!claimed && c.req.header('Content-Type')?.includes('application/json')) {
+    const body = await c.req.json().catch(() => null);
+    claimed = typeof body?.username === 'string' ? body.username : undefined;
+  }
+  if (claimed && claimed !== username) {
+    console.warn(`[Auth] Session for ${username} tried to access data of ${claimed}`);
+    return c.json({ error: 'Access to another user\'s data is not allowed' }, 403);
+  }
+
+  await next();
+};
+
+/**
+ * Username of the request's session, for handlers behind requireUser
+ * Throws on a route without the guard instead of handing out undefined.
+ */
+export const getUsername = (c: Context): string => {
+  const { username } = c.get('auth');
+  if (!username) {
+    throw new Error('getUsername called on a route without requireUser');
+  }
+  return username;
+};
@@ -1,63 +1,28 @@
 import { Hono } from 'hono';
-import * as fs from 'fs';
-import * as path from 'path';
+import { db, TABLES } from '../db';
+import { SecretBox } from '../services/secretBox';
 
 const auth = new Hono();
 
-const MEICAN_BASE_URL = 'https://meican.com';
-
-// File-based session storage for persistence across restarts
-const SESSIONS_FILE = path.join(process.cwd(), 'data', '.sessions.json');
+// Login lives on the same host as the preorder API, so MEICAN_BASE_URL also redirects it
+const getMeicanOrigin = (): string => new URL(process.env.MEICAN_BASE_URL || 'https://meican.com').origin;
 
+// Sessions are persisted in the embedded store so they survive restarts,
+// with the Meican cookies encrypted at rest
 interface SessionData {
   cookies: string;
-  createdAt: string;
-}
-
-interface SessionsStore {
-  [sessionId: string]: SessionData;
-}
-
-// Load sessions from file on startup
-function loadSessions(): Map<string, { cookies: string; createdAt: Date }> {
-  const map = new Map<string, { cookies: string; createdAt: Date }>();
-  try {
-    if (fs.existsSync(SESSIONS_FILE)) {
-      const data = fs.readFileSync(SESSIONS_FILE, 'utf-8');
-      const stored: SessionsStore = JSON.parse(data);
-      for (const [sessionId, session] of Object.entries(stored)) {
-        map.set(sessionId, {
-          cookies: session.cookies,
-          createdAt: new Date(session.createdAt),
-        });
-      }
-      console.log(`[Auth] Loaded ${map.size} sessions from file`);
-    }
-  } catch (error) {
-    console.warn('[Auth] Failed to load sessions file:', error);
-  }
-  return map;
+  createdAt: string; // ISO timestamp
+  username?: string;
+  credential?: string; // Encrypted password, only kept when the user opts in to automatic re-login
+  staleAt?: string; // ISO timestamp of when Meican stopped accepting the cookies
 }
 
-// Save sessions to file
-function saveSessions(sessions: Map<string, { cookies: string; createdAt: Date }>): void {
-  try {
-    const stored: SessionsStore = {};
-    for (const [sessionId, session] of sessions.entries()) {
-      stored[sessionId] = {
-        cookies: session.cookies,
-        createdAt: session.createdAt.toISOString(),
-      };
-    }
-    fs.writeFileSync(SESSIONS_FILE, JSON.stringify(stored, null, 2));
-    console.log(`[Auth] Saved ${sessions.size} sessions to file`);
-  } catch (error) {
-    console.error('[Auth] Failed to save sessions file:', error);
-  }
-}
+const openSession = (session: SessionData): SessionData => ({ ...session, cookies: SecretBox.open(session.cookies) });
 
-// Initialize sessions from persistent storage
-const sessions = loadSessions();
+const getSession = (sessionId: string): SessionData | undefined => {
+  const session = db.get<SessionData>(TABLES.sessions, sessionId);
+  return session && openSession(session);
+};
 
 /**
  * Generate a session ID
@@ -78,6 +43,75 @@ function extractCookies(response: Response): string {
   return cookies.join('; ');
 }
 
+type LoginResult = { cookies: string } | { error: string };
+
+/**
+ * Log in to Meican with username and password and return the session cookies
+ */
+async function loginToMeican(username: string, password: string): Promise<LoginResult> {
+  // Prepare form data for login
+  const formData = new URLSearchParams();
+  formData.append('username', username);
+  formData.append('password', password);
+  formData.append('loginType', 'username');
+  formData.append('remember', 'true');
+
+  // Make login request to Meican
+  const loginUrl = `${getMeicanOrigin()}/account/directlogin`;
+  const response = await fetch(loginUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Accept': 'application/json, text/plain, */*',
+      'Origin': 'https://meican.com',
+      'Referer': 'https://meican.com/',
+    },
+    body: formData.toString(),
+    redirect: 'manual', // Don't follow redirects to capture cookies
+  });
+
+  console.log(`[Auth] Login response status: ${response.status}`);
+
+  // Check if login was successful
+  // Meican returns 200 on success, may also return redirect
+  const responseText = await response.text();
+  
+  if (responseText.includes('用户名或密码错误') || responseText.includes('login fail')) {
+    console.log('[Auth] Login failed: invalid credentials');
+    return { error: 'Invalid username or password' };
+  }
+
+  // Extract cookies from response
+  const cookies = extractCookies(response);
+  
+  if (!cookies) {
+    console.log('[Auth] Login failed: no cookies received');
+    return { error: 'Login failed - no session received' };
+  }
+
+  // Validate cookies contain a valid session
+  const hasPlaySession = cookies.includes('PLAY_SESSION=') && !cookies.includes('PLAY_SESSION=;');
+
+  // Check for encoded error in PLAY_FLASH
+  // Example: PLAY_FLASH="...&error=%E7%94%A8%E6%88%B7..."
+  const flashMatch = cookies.match(/PLAY_FLASH="([^"]*)"/);
+  if (flashMatch) {
+    const flashContent = decodeURIComponent(flashMatch[1]);
+    if (flashContent.includes('error=')) {
+      console.log('[Auth] Login failed: error in flash cookie');
+      return { error: 'Invalid username or password (Flash)' };
+    }
+  }
+
+  if (!hasPlaySession) {
+    console.log('[Auth] Login failed: no valid PLAY_SESSION cookie');
+    return { error: 'Login failed - invalid session' };
+  }
+
+  return { cookies };
+}
+
 /**
  * POST /api/auth/login
  * Login with username and password
@@ -85,11 +119,13 @@ function extractCookies(response: Response): string {
  * Body (JSON):
  * - username: string
  * - password: string
+ * - rememberCredentials: boolean (optional) - keep the password, encrypted,
+ *   so the session can log in again by itself once Meican expires it
  */
 auth.post('/login', async (c) => {
   try {
     const body = await c.req.json();
-    const { username, password } = body;
+    const { username, password, rememberCredentials } = body;
 
     if (!username || !password) {
       return c.json({ error: 'Username and password are required' }, 400);
@@ -97,88 +133,22 @@ auth.post('/login', async (c) => {
 
     console.log(`[Auth] Attempting login for user: ${username}`);
 
-    // Prepare form data for login
-    const formData = new URLSearchParams();
-    formData.append('username', username);
-    formData.append('password', password);
-    formData.append('loginType', 'username');
-    formData.append('remember', 'true');
-
-    // Make login request to Meican
-    const loginUrl = `${MEICAN_BASE_URL}/account/directlogin`;
-    const response = await fetch(loginUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'application/json, text/plain, */*',
-        'Origin': 'https://meican.com',
-        'Referer': 'https://meican.com/',
-      },
-      body: formData.toString(),
-      redirect: 'manual', // Don't follow redirects to capture cookies
-    });
-
-    console.log(`[Auth] Login response status: ${response.status}`);
-
-    // Check if login was successful
-    // Meican returns 200 on success, may also return redirect
-    const responseText = await response.text();
-    
-    if (responseText.includes('用户名或密码错误') || responseText.includes('login fail')) {
-      console.log('[Auth] Login failed: invalid credentials');
-      return c.json({ 
-        success: false, 
-        error: 'Invalid username or password' 
-      }, 401);
-    }
-
-    // Extract cookies from response
-    const cookies = extractCookies(response);
-    
-    if (!cookies) {
-      console.log('[Auth] Login failed: no cookies received');
-      return c.json({ 
-        success: false, 
-        error: 'Login failed - no session received' 
-      }, 401);
-    }
-
-    // Validate cookies contain a valid session
-    const hasPlaySession = cookies.includes('PLAY_SESSION=') && !cookies.includes('PLAY_SESSION=;');
-    const hasError = cookies.includes('error=') || cookies.includes('PLAY_ERRORS=') && !cookies.includes('PLAY_ERRORS=;');
-
-    // Check for encoded error in PLAY_FLASH
-    // Example: PLAY_FLASH="...&error=%E7%94%A8%E6%88%B7..."
-    const flashMatch = cookies.match(/PLAY_FLASH="([^"]*)"/);
-    if (flashMatch) {
-      const flashContent = decodeURIComponent(flashMatch[1]);
-      if (flashContent.includes('error=')) {
-        console.log('[Auth] Login failed: error in flash cookie');
-        return c.json({ 
-          success: false, 
-          error: 'Invalid username or password (Flash)' 
-        }, 401);
-      }
-    }
-
-    if (!hasPlaySession) {
-      console.log('[Auth] Login failed: no valid PLAY_SESSION cookie');
+    const result = await loginToMeican(username, password);
+    if ('error' in result) {
       return c.json({ 
         success: false, 
-        error: 'Login failed - invalid session' 
+        error: result.error 
       }, 401);
     }
 
     // Generate session ID and store cookies
     const sessionId = generateSessionId();
-    sessions.set(sessionId, {
-      cookies,
-      createdAt: new Date(),
-    });
-    
-    // Persist sessions to file
-    saveSessions(sessions);
+    await db.transaction(tx => tx.put<SessionData>(TABLES.sessions, sessionId, {
+      cookies: SecretBox.seal(result.cookies),
+      createdAt: new Date().toISOString(),
+      username,
+      credential: rememberCredentials === true ? SecretBox.seal(password) : undefined,
+    }));
 
     console.log(`[Auth] Login successful, session created: ${sessionId}`);
 
@@ -203,9 +173,8 @@ auth.post('/login', async (c) => {
 auth.post('/logout', async (c) => {
   const sessionId = c.req.header('X-Session-Id');
   
-  if (sessionId && sessions.has(sessionId)) {
-    sessions.delete(sessionId);
-    saveSessions(sessions);
+  if (sessionId && getSession(sessionId)) {
+    await db.transaction(tx => tx.delete(TABLES.sessions, sessionId));
     console.log(`[Auth] Session logged out: ${sessionId}`);
   }
 
@@ -219,16 +188,18 @@ auth.post('/logout', async (c) => {
 auth.get('/status', async (c) => {
   const sessionId = c.req.header('X-Session-Id');
   
-  if (!sessionId || !sessions.has(sessionId)) {
+  const session = sessionId ? getSession(sessionId) : undefined;
+  if (!session) {
     return c.json({ authenticated: false });
   }
 
-  const session = sessions.get(sessionId)!;
-  const ageMinutes = (Date.now() - session.createdAt.getTime()) / 1000 / 60;
+  const ageMinutes = (Date.now() - new Date(session.createdAt).getTime()) / 1000 / 60;
 
   return c.json({ 
     authenticated: true,
     sessionAge: Math.round(ageMinutes),
+    expired: !!session.staleAt,
+    autoRelogin: !!session.credential,
   });
 });
 
@@ -236,8 +207,88 @@ auth.get('/status', async (c) => {
  * Get session cookies for a session ID
  */
 export function getSessionCookies(sessionId: string): string | null {
-  const session = sessions.get(sessionId);
+  const session = getSession(sessionId);
   return session?.cookies || null;
 }
 
+/**
+ * Get the username recorded for a session ID at login
+ */
+export function getSessionUsername(sessionId: string): string | null {
+  const session = getSession(sessionId);
+  return session?.username || null;
+}
+
+/**
+ * Get the most recent session for each known username.
+ * Used by background jobs that act on behalf of a user.
+ */
+export function getLatestUserSessions(): Map<string, { sessionId: string; cookies: string }> {
+  const latest = new Map<string, { sessionId: string; cookies: string; createdAt: Date }>();
+  for (const [sessionId, session] of Object.entries(db.all<SessionData>(TABLES.sessions))) {
+    // Stale sessions already failed to log in again, so jobs would only fail with them
+    if (!session.username || session.staleAt) continue;
+    const createdAt = new Date(session.createdAt);
+    const existing = latest.get(session.username);
+    if (!existing || existing.createdAt < createdAt) {
+      latest.set(session.username, { sessionId, cookies: openSession(session).cookies, createdAt });
+    }
+  }
+
+  const result = new Map<string, { sessionId: string; cookies: string }>();
+  for (const [username, { sessionId, cookies }] of latest.entries()) {
+    result.set(username, { sessionId, cookies });
+  }
+  return result;
+}
+
+// Re-logins in flight per session, so concurrent requests that hit an expired cookie share one login
+const pendingRelogins = new Map<string, Promise<string | null>>();
+
+/**
+ * Log a session in again with its stored credential after Meican expired the cookies.
+ * Returns the new cookies, or null when the session has no credential or the login fails.
+ */
+export function reloginSession(sessionId: string): Promise<string | null> {
+  const pending = pendingRelogins.get(sessionId);
+  if (pending) return pending;
+
+  const relogin = (async () => {
+    const session = db.get<SessionData>(TABLES.sessions, sessionId);
+    if (!session?.username || !session.credential) return null;
+
+    console.log(`[Auth] Session expired, logging in again: ${sessionId}`);
+    const result = await loginToMeican(session.username, SecretBox.open(session.credential));
+    if ('error' in result) {
+      console.warn(`[Auth] Re-login failed for ${sessionId}: ${result.error}`);
+      return null;
+    }
+
+    await db.transaction(tx => {
+      const current = tx.get<SessionData>(TABLES.sessions, sessionId);
+      if (!current) return;
+      tx.put<SessionData>(TABLES.sessions, sessionId, { ...current, cookies: SecretBox.seal(result.cookies), staleAt: undefined });
+    });
+    return result.cookies;
+  })().catch(error => {
+    console.error(`[Auth] Re-login error for ${sessionId}:`, error);
+    return null;
+  }).finally(() => pendingRelogins.delete(sessionId));
+
+  pendingRelogins.set(sessionId, relogin);
+  return relogin;
+}
+
+/**
+ * Mark a session whose cookies Meican no longer accepts, so the frontend can ask for a new login
+ */
+export async function markSessionStale(sessionId: string): Promise<void> {
+  await db.transaction(tx => {
+    const session = tx.get<SessionData>(TABLES.sessions, sessionId);
+    if (session && !session.staleAt) {
+      tx.put<SessionData>(TABLES.sessions, sessionId, { ...session, staleAt: new Date().toISOString() });
+    }
+  });
+}
+
 export default auth;
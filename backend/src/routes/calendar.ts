@@ -1,5 +1,6 @@
 import { Hono } from 'hono';
 import { MeicanService } from '../services/meican';
+import { respondWithError } from '../utils/routeErrors';
 
 const calendar = new Hono();
 
@@ -32,10 +33,7 @@ calendar.get('/list', async (c) => {
     return c.json(data);
   } catch (error) {
     console.error('[Calendar] Error:', error);
-    return c.json({ 
-      error: 'Failed to fetch calendar items',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    return respondWithError(c, error, 'Failed to fetch calendar items');
   }
 });
 
@@ -1,5 +1,8 @@
 import { Hono } from 'hono';
 import { MeicanService } from '../services/meican';
+import { db, TABLES } from '../db';
+import { getMealName, getMealTime, type MealTime } from '../utils/calendar';
+import { getMeicanErrorResponse } from '../utils/routeErrors';
 
 const history = new Hono();
 
@@ -44,10 +47,22 @@ interface CalendarResponse {
 
 interface HistoricalOrder {
   date: string;
-  mealTime: 'BREAKFAST' | 'LUNCH' | 'DINNER';
+  mealTime: MealTime;
+  mealName: string; // Display name of the meal tab
+  tabUniqueId: string;
+  orderUniqueId: string; // Meican's order of the slot, shared by all its dishes
   dishName: string;
   restaurantName: string;
   priceInCent: number;
+  count: number;
+}
+
+// Last successful fetch per user, served when Meican is unreachable
+interface HistorySnapshot {
+  beginDate: string;
+  endDate: string;
+  fetchedAt: string;
+  orders: HistoricalOrder[];
 }
 
 /**
@@ -57,9 +72,13 @@ interface HistoricalOrder {
  * Query params:
  * - beginDate: YYYY-MM-DD (optional, defaults to 90 days ago)
  * - endDate: YYYY-MM-DD (optional, defaults to today)
+ *
+ * If the fetch fails and a snapshot of an earlier fetch exists, its orders within
+ * the requested range are returned with `snapshotAt` set.
  */
 history.get('/orders', async (c) => {
   const auth = c.get('auth');
+  const username = auth.username;
   
   // Default to last 30 days, fetch in 15-day chunks to avoid API limits
   const today = new Date();
@@ -79,7 +98,7 @@ history.get('/orders', async (c) => {
     
     let currentStart = new Date(startDate);
     
-    while (currentStart < endDate) {
+    while (currentStart <= endDate) {
       const currentEnd = new Date(currentStart);
       currentEnd.setDate(currentEnd.getDate() + chunkDays - 1);
       
@@ -109,17 +128,8 @@ history.get('/orders', async (c) => {
           }
 
           // Determine meal time
-          const titleLower = (calItem.title || '').toLowerCase();
-          const openingName = (calItem.openingTime?.name || '').toLowerCase();
-          
-          let mealTime: 'BREAKFAST' | 'LUNCH' | 'DINNER';
-          if (titleLower.includes('早餐') || openingName.includes('早餐') || titleLower.includes('breakfast')) {
-            mealTime = 'BREAKFAST';
-          } else if (titleLower.includes('午餐') || openingName.includes('午餐') || titleLower.includes('lunch')) {
-            mealTime = 'LUNCH';
-          } else {
-            mealTime = 'DINNER';
-          }
+          const mealTime = getMealTime(calItem);
+          const mealName = getMealName(calItem);
 
           // Extract dishes from the order
           for (const restaurantItem of calItem.corpOrderUser.restaurantItemList || []) {
@@ -129,9 +139,13 @@ history.get('/orders', async (c) => {
               allOrders.push({
                 date: dateItem.date,
                 mealTime,
+                mealName,
+                tabUniqueId: calItem.userTab?.uniqueId,
+                orderUniqueId: calItem.corpOrderUser.uniqueId,
                 dishName: dishItem.dish.name,
                 restaurantName,
                 priceInCent: dishItem.dish.priceInCent,
+                count: dishItem.count || 1,
               });
             }
           }
@@ -143,9 +157,31 @@ history.get('/orders', async (c) => {
     }
 
     console.log(`[History] Total orders fetched: ${allOrders.length}`);
+
+    if (username) {
+      await db.transaction(tx => tx.put<HistorySnapshot>(TABLES.historySnapshots, username, {
+        beginDate: requestedBeginDate,
+        endDate: requestedEndDate,
+        fetchedAt: new Date().toISOString(),
+        orders: allOrders,
+      }));
+    }
+
     return c.json({ orders: allOrders });
   } catch (error) {
     console.error('[History] Error:', error);
+    const meicanError = getMeicanErrorResponse(c, error);
+    if (meicanError) return meicanError;
+
+    const snapshot = username ? db.get<HistorySnapshot>(TABLES.historySnapshots, username) : undefined;
+    if (snapshot) {
+      console.warn(`[History] Serving snapshot from ${snapshot.fetchedAt}`);
+      return c.json({
+        orders: snapshot.orders.filter(o => o.date >= requestedBeginDate && o.date <= requestedEndDate),
+        snapshotAt: snapshot.fetchedAt,
+      });
+    }
+
     return c.json({ 
       error: 'Failed to fetch order history',
       message: error instanceof Error ? error.message : 'Unknown error'
@@ -1,8 +1,34 @@
 import { Hono } from 'hono';
+import { stream } from 'hono/streaming';
 import { MeicanService } from '../services/meican';
+import { getMeicanErrorCode, respondWithError } from '../utils/routeErrors';
 
 const menu = new Hono();
 
+// Upstream calls in flight at once for a batch, and the largest batch accepted
+const WEEK_MENU_CONCURRENCY = 4;
+const MAX_WEEK_MENU_SLOTS = 50;
+
+interface MenuSlot {
+  tabUniqueId: string;
+  targetTime: string;
+  byRestaurant?: boolean; // Collect the dishes from each restaurant's menu (breakfast)
+}
+
+/**
+ * Run task for every item with at most `limit` running at a time
+ */
+const runPool = async <T>(items: T[], limit: number, task: (item: T, index: number) => Promise<void>): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
 /**
  * GET /api/corpaddresses/getmulticorpaddress
  * Get user's available delivery addresses
@@ -19,10 +45,7 @@ menu.get('/corpaddresses/getmulticorpaddress', async (c) => {
     return c.json(data);
   } catch (error) {
     console.error('[Menu] Error fetching addresses:', error);
-    return c.json({ 
-      error: 'Failed to fetch addresses',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    return respondWithError(c, error, 'Failed to fetch addresses');
   }
 });
 
@@ -48,10 +71,35 @@ menu.get('/restaurants/list', async (c) => {
     return c.json(data);
   } catch (error) {
     console.error('[Menu] Error fetching restaurants:', error);
-    return c.json({ 
-      error: 'Failed to fetch restaurants',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    return respondWithError(c, error, 'Failed to fetch restaurants');
+  }
+});
+
+/**
+ * GET /api/restaurants/show
+ * Get the menu of one restaurant for a meal slot
+ * 
+ * Query params:
+ * - tabUniqueId: string (required)
+ * - targetTime: YYYY-MM-DD HH:mm (required)
+ * - restaurantUniqueId: string (required)
+ */
+menu.get('/restaurants/show', async (c) => {
+  const auth = c.get('auth');
+  const tabUniqueId = c.req.query('tabUniqueId');
+  const targetTime = c.req.query('targetTime');
+  const restaurantUniqueId = c.req.query('restaurantUniqueId');
+
+  if (!tabUniqueId || !targetTime || !restaurantUniqueId) {
+    return c.json({ error: 'tabUniqueId, targetTime and restaurantUniqueId are required' }, 400);
+  }
+
+  try {
+    const data = await MeicanService.getRestaurantDetail(tabUniqueId, targetTime, restaurantUniqueId, auth);
+    return c.json(data);
+  } catch (error) {
+    console.error('[Menu] Error fetching restaurant menu:', error);
+    return respondWithError(c, error, 'Failed to fetch restaurant menu');
   }
 });
 
@@ -77,11 +125,71 @@ menu.get('/recommendations/dishes', async (c) => {
     return c.json(data);
   } catch (error) {
     console.error('[Menu] Error fetching dishes:', error);
-    return c.json({ 
-      error: 'Failed to fetch dishes',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    return respondWithError(c, error, 'Failed to fetch dishes');
+  }
+});
+
+/**
+ * POST /api/menus/week
+ * Fetch the dishes of many meal slots at once
+ * 
+ * Body (JSON):
+ * - slots: { tabUniqueId: string, targetTime: YYYY-MM-DD HH:mm, byRestaurant?: boolean }[]
+ *   byRestaurant slots (breakfast) gather the dishes from every restaurant's menu
+ * 
+ * Responds with NDJSON, one line per slot as soon as it is fetched (in any order):
+ * - { type: 'slot', index, tabUniqueId, targetTime, ok: true, data } with the /recommendations/dishes response
+ * - { type: 'slot', index, tabUniqueId, targetTime, ok: false, error, code? }
+ *   code is SESSION_EXPIRED, MEICAN_UNAVAILABLE or MEICAN_TIMEOUT when Meican itself failed
+ * followed by { type: 'done', total, failed }
+ */
+menu.post('/menus/week', async (c) => {
+  const auth = c.get('auth');
+  const body = await c.req.json().catch(() => null);
+  const slots: unknown = body?.slots;
+
+  if (
+    !Array.isArray(slots) ||
+    slots.length === 0 ||
+    !slots.every(slot => typeof slot?.tabUniqueId === 'string' && typeof slot?.targetTime === 'string')
+  ) {
+    return c.json({ error: 'slots must be a non-empty array of { tabUniqueId, targetTime }' }, 400);
+  }
+  if (slots.length > MAX_WEEK_MENU_SLOTS) {
+    return c.json({ error: `At most ${MAX_WEEK_MENU_SLOTS} slots per request` }, 400);
   }
+
+  c.header('Content-Type', 'application/x-ndjson; charset=utf-8');
+  c.header('Cache-Control', 'no-cache');
+
+  return stream(c, async (out) => {
+    let failed = 0;
+
+    await runPool(slots as MenuSlot[], WEEK_MENU_CONCURRENCY, async ({ tabUniqueId, targetTime, byRestaurant }, index) => {
+      let line: Record<string, unknown>;
+      try {
+        const data = byRestaurant
+          ? await MeicanService.getRestaurantDishes(tabUniqueId, targetTime, auth)
+          : await MeicanService.getDishes(tabUniqueId, targetTime, auth);
+        line = { type: 'slot', index, tabUniqueId, targetTime, ok: true, data };
+      } catch (error) {
+        console.error(`[Menu] Error fetching dishes for ${tabUniqueId} ${targetTime}:`, error);
+        failed++;
+        line = {
+          type: 'slot',
+          index,
+          tabUniqueId,
+          targetTime,
+          ok: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          code: getMeicanErrorCode(error),
+        };
+      }
+      await out.write(`${JSON.stringify(line)}\n`);
+    });
+
+    await out.write(`${JSON.stringify({ type: 'done', total: slots.length, failed })}\n`);
+  });
 });
 
 export default menu;
@@ -0,0 +1,47 @@
+import { Hono } from 'hono';
+import { Notifier, validateWebhookUrl, WebhookChannel, WebhookFormat } from '../services/notifier';
+import { getUsername, requireUser } from '../middleware/auth';
+import { db, TABLES } from '../db';
+
+const notifications = new Hono();
+
+notifications.use('*', requireUser);
+
+/**
+ * POST /api/notifications/test
+ * Send a test message to the webhook saved in the user's settings
+ *
+ * Only the stored webhook is tested, never a URL from the request, and it is
+ * checked against validateWebhookUrl again in case the rules changed since it
+ * was saved.
+ */
+notifications.post('/test', async (c) => {
+  const username = getUsername(c);
+
+  const settings = db.get<{ reminderWebhookUrl?: string; reminderWebhookFormat?: WebhookFormat }>(TABLES.settings, username) || {};
+  const { reminderWebhookUrl: url, reminderWebhookFormat: format = 'slack' } = settings;
+
+  if (!url) {
+    return c.json({ error: 'No webhook URL saved in settings' }, 400);
+  }
+  const urlError = validateWebhookUrl(url, format);
+  if (urlError) {
+    return c.json({ error: urlError }, 400);
+  }
+
+  const [result] = await Notifier.notify([new WebhookChannel(url, format)], {
+    title: '🔔 Meican reminder test',
+    text: `Webhook notifications are set up for ${username}.`,
+  });
+
+  if (!result.success) {
+    return c.json({
+      error: 'Failed to deliver test notification',
+      message: result.error
+    }, 502);
+  }
+
+  return c.json({ success: true });
+});
+
+export default notifications;
@@ -1,72 +1,164 @@
-import { Hono } from 'hono';
-import { MeicanService } from '../services/meican';
+import { Hono, type Context } from 'hono';
+import { MeicanService, validateOrderField } from '../services/meican';
+import { IdempotencyConflictError, OrderConflictError, OrderService } from '../services/orders';
+import { respondWithError } from '../utils/routeErrors';
+import type { OrderLine } from '../types';
 
 const order = new Hono();
 
+const REQUIRED_ORDER_FIELDS = ['tabUniqueId', 'order', 'targetTime', 'userAddressUniqueId', 'corpAddressUniqueId'];
+
+/**
+ * Body of /orders/add and /orders/replace; in a JSON body order and remarks may be arrays
+ */
+interface OrderRequestBody {
+  tabUniqueId?: string;
+  order?: string | OrderLine[];
+  remarks?: string | { dishId: string; remark: string }[];
+  targetTime?: string;
+  userAddressUniqueId?: string;
+  corpAddressUniqueId?: string;
+  corpAddressRemark?: string;
+  idempotencyKey?: string;
+  oldOrderUniqueId?: string; // /orders/replace only
+}
+
+/**
+ * Read the order fields of /orders/add from a JSON or form body
+ * Returns the Meican form fields and the body for route-specific fields
+ */
+const readOrderBody = async (c: Context): Promise<{ orderData: Record<string, string>; body: OrderRequestBody }> => {
+  const contentType = c.req.header('Content-Type');
+  let body: OrderRequestBody;
+
+  if (contentType?.includes('application/json')) {
+    body = await c.req.json<OrderRequestBody>();
+  } else {
+    // Uploaded files are no order field
+    const form = await c.req.parseBody();
+    body = Object.fromEntries(Object.entries(form).filter(([, value]) => typeof value === 'string'));
+  }
+
+  const orderData: Record<string, string> = {
+    tabUniqueId: body.tabUniqueId ?? '',
+    order: typeof body.order === 'string' ? body.order : body.order ? JSON.stringify(body.order) : '',
+    remarks: typeof body.remarks === 'string' ? body.remarks : JSON.stringify(body.remarks || []),
+    targetTime: body.targetTime ?? '',
+    userAddressUniqueId: body.userAddressUniqueId ?? '',
+    corpAddressUniqueId: body.corpAddressUniqueId ?? '',
+  };
+  if (body.corpAddressRemark) {
+    orderData.corpAddressRemark = body.corpAddressRemark;
+  }
+
+  return { orderData, body };
+};
+
+/**
+ * Returns an error message for missing or malformed order fields, or null when valid
+ */
+const validateOrderData = (orderData: Record<string, string>): string | null => {
+  for (const field of REQUIRED_ORDER_FIELDS) {
+    if (!orderData[field]) {
+      return `Missing required field: ${field}`;
+    }
+  }
+  return validateOrderField(orderData.order);
+};
+
 /**
  * POST /api/orders/add
- * Place a new order
+ * Place a new order, unless the slot already has one
+ * 
+ * The live calendar is checked first; when the slot is already ordered (from
+ * another tab or device) that order is returned with existing: true.
+ * A request sent again with the same idempotency key (Idempotency-Key header
+ * or idempotencyKey field) returns the stored result while its order is still
+ * the slot's; once that order was cancelled the request is handled anew.
  * 
  * Body (form-urlencoded):
  * - tabUniqueId: string
- * - order: JSON string [{"count":1, "dishId": 123}]
+ * - order: JSON string [{"count":1, "dishId": 123}], one entry per dish in the basket
  * - remarks: JSON string [{"dishId":"123", "remark":""}]
  * - targetTime: YYYY-MM-DD HH:mm
  * - userAddressUniqueId: string
  * - corpAddressUniqueId: string
  * - corpAddressRemark: string (optional)
+ * - idempotencyKey: string (optional)
  */
 order.post('/add', async (c) => {
   const auth = c.get('auth');
   
   try {
-    const contentType = c.req.header('Content-Type');
-    let orderData: Record<string, string>;
+    const { orderData, body } = await readOrderBody(c);
+    const idempotencyKey = c.req.header('Idempotency-Key') || body.idempotencyKey;
 
-    if (contentType?.includes('application/json')) {
-      const body = await c.req.json();
-      orderData = {
-        tabUniqueId: body.tabUniqueId,
-        order: typeof body.order === 'string' ? body.order : JSON.stringify(body.order),
-        remarks: typeof body.remarks === 'string' ? body.remarks : JSON.stringify(body.remarks || []),
-        targetTime: body.targetTime,
-        userAddressUniqueId: body.userAddressUniqueId,
-        corpAddressUniqueId: body.corpAddressUniqueId,
-      };
-      if (body.corpAddressRemark) {
-        orderData.corpAddressRemark = body.corpAddressRemark;
-      }
-    } else {
-      const formData = await c.req.parseBody();
-      orderData = {
-        tabUniqueId: formData.tabUniqueId as string,
-        order: formData.order as string,
-        remarks: formData.remarks as string,
-        targetTime: formData.targetTime as string,
-        userAddressUniqueId: formData.userAddressUniqueId as string,
-        corpAddressUniqueId: formData.corpAddressUniqueId as string,
-      };
-      if (formData.corpAddressRemark) {
-        orderData.corpAddressRemark = formData.corpAddressRemark as string;
-      }
+    const orderError = validateOrderData(orderData);
+    if (orderError) {
+      return c.json({ error: orderError }, 400);
     }
 
-    // Validate required fields
-    const requiredFields = ['tabUniqueId', 'order', 'targetTime', 'userAddressUniqueId', 'corpAddressUniqueId'];
-    for (const field of requiredFields) {
-      if (!orderData[field]) {
-        return c.json({ error: `Missing required field: ${field}` }, 400);
-      }
+    const { response, replayed } = await OrderService.placeOrder(orderData, auth, idempotencyKey);
+    if (replayed) {
+      c.header('Idempotent-Replayed', 'true');
     }
-
-    const data = await MeicanService.addOrder(orderData, auth);
-    return c.json(data);
+    return c.json(response);
   } catch (error) {
     console.error('[Order] Error adding order:', error);
-    return c.json({ 
-      error: 'Failed to add order',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    if (error instanceof IdempotencyConflictError) {
+      return c.json({ error: error.message, code: error.code }, 422);
+    }
+    return respondWithError(c, error, 'Failed to add order');
+  }
+});
+
+/**
+ * POST /api/orders/replace
+ * Swap the slot's current order for a new one
+ * 
+ * The current order is cancelled, then the new one placed; if that fails the
+ * original dishes are ordered again. Answers 409 when oldOrderUniqueId is no
+ * longer the slot's order.
+ * 
+ * Body: the fields of /orders/add, plus
+ * - oldOrderUniqueId: string (required)
+ *
+ * With an idempotency key, a request sent again after the replace went through
+ * returns the stored result instead of a 409.
+ * 
+ * Response: the new order, with replacedOrderId; or status FAILED with
+ * rollback RESTORED (order holds the re-placed original) or FAILED (the slot has no order)
+ */
+order.post('/replace', async (c) => {
+  const auth = c.get('auth');
+
+  try {
+    const { orderData, body } = await readOrderBody(c);
+    const { oldOrderUniqueId } = body;
+    const idempotencyKey = c.req.header('Idempotency-Key') || body.idempotencyKey;
+
+    if (!oldOrderUniqueId) {
+      return c.json({ error: 'oldOrderUniqueId is required' }, 400);
+    }
+    const orderError = validateOrderData(orderData);
+    if (orderError) {
+      return c.json({ error: orderError }, 400);
+    }
+
+    const { response, replayed } = await OrderService.replaceOrder(oldOrderUniqueId, orderData, auth, idempotencyKey);
+    if (replayed) {
+      c.header('Idempotent-Replayed', 'true');
+    }
+    return c.json(response);
+  } catch (error) {
+    console.error('[Order] Error replacing order:', error);
+    if (error instanceof OrderConflictError) {
+      return c.json({ error: error.message, code: error.code }, 409);
+    }
+    if (error instanceof IdempotencyConflictError) {
+      return c.json({ error: error.message, code: error.code }, 422);
+    }
+    return respondWithError(c, error, 'Failed to replace order');
   }
 });
 
@@ -108,10 +200,7 @@ order.post('/delete', async (c) => {
     return c.json(data);
   } catch (error) {
     console.error('[Order] Error deleting order:', error);
-    return c.json({ 
-      error: 'Failed to delete order',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    return respondWithError(c, error, 'Failed to delete order');
   }
 });
 
@@ -0,0 +1,201 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { db, TABLES } from '../db';
+import { getUsername, requireUser } from '../middleware/auth';
+
+const plans = new Hono();
+
+// Drafts belong to the username bound to the session, see requireUser
+plans.use('*', requireUser);
+
+// Oldest versions are dropped beyond this limit
+const MAX_VERSIONS = 20;
+
+interface PlanVersion {
+  version: number;
+  savedAt: string;
+  items: unknown[]; // PlannedOrder[] as produced by the frontend planner
+}
+
+interface PlanDraft {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  versions: PlanVersion[];
+}
+
+// Stored row, keyed by plan id
+interface PlanRow extends PlanDraft {
+  username: string;
+}
+
+const toDraft = ({ username: _username, ...draft }: PlanRow): PlanDraft => draft;
+
+// 404 for unknown drafts, 403 for drafts of another user, null when the user may access it
+const planAccessError = (c: Context, row: PlanRow | undefined, username: string) => {
+  if (!row) {
+    return c.json({ error: 'Plan not found' }, 404);
+  }
+  if (row.username !== username) {
+    return c.json({ error: 'Plan belongs to another user' }, 403);
+  }
+  return null;
+};
+
+const generatePlanId = (): string => {
+  return `plan_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+};
+
+const toSummary = (draft: PlanDraft) => {
+  const latest = draft.versions[draft.versions.length - 1];
+  return {
+    id: draft.id,
+    name: draft.name,
+    createdAt: draft.createdAt,
+    updatedAt: draft.updatedAt,
+    latestVersion: latest?.version ?? 0,
+    itemCount: latest?.items.length ?? 0,
+  };
+};
+
+/**
+ * GET /api/plans
+ * List saved plan drafts (summaries, newest first)
+ */
+plans.get('/', async (c) => {
+  const username = getUsername(c);
+
+  const drafts = Object.values(db.all<PlanRow>(TABLES.plans))
+    .filter(row => row.username === username)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toSummary);
+
+  return c.json({ plans: drafts });
+});
+
+/**
+ * GET /api/plans/:id
+ * Get a plan draft with its full version history
+ */
+plans.get('/:id', async (c) => {
+  const username = getUsername(c);
+  const row = db.get<PlanRow>(TABLES.plans, c.req.param('id'));
+  const accessError = planAccessError(c, row, username);
+  if (accessError) {
+    return accessError;
+  }
+
+  return c.json(toDraft(row!));
+});
+
+/**
+ * POST /api/plans
+ * Create a new plan draft
+ *
+ * Body (JSON):
+ * - name: string
+ * - items: PlannedOrder[]
+ */
+plans.post('/', async (c) => {
+  const username = getUsername(c);
+  const body = await c.req.json();
+  const { name, items } = body;
+
+  if (!name || !Array.isArray(items)) {
+    return c.json({ error: 'Name and items required' }, 400);
+  }
+
+  const now = new Date().toISOString();
+  const draft: PlanDraft = {
+    id: generatePlanId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    versions: [{ version: 1, savedAt: now, items }],
+  };
+
+  await db.transaction(tx => tx.put<PlanRow>(TABLES.plans, draft.id, { ...draft, username }));
+
+  return c.json(draft);
+});
+
+/**
+ * PUT /api/plans/:id
+ * Save an edit as a new version (unchanged items do not create a version)
+ *
+ * Body (JSON):
+ * - items: PlannedOrder[]
+ * - name: string (optional, renames the draft)
+ */
+plans.put('/:id', async (c) => {
+  const username = getUsername(c);
+  const body = await c.req.json();
+  const { name, items } = body;
+
+  if (!Array.isArray(items)) {
+    return c.json({ error: 'Items required' }, 400);
+  }
+
+  const id = c.req.param('id');
+  const accessError = planAccessError(c, db.get<PlanRow>(TABLES.plans, id), username);
+  if (accessError) {
+    return accessError;
+  }
+
+  const updated = await db.transaction(tx => {
+    const draft = tx.get<PlanRow>(TABLES.plans, id);
+    if (!draft || draft.username !== username) return null;
+
+    const now = new Date().toISOString();
+    const latest = draft.versions[draft.versions.length - 1];
+
+    if (!latest || JSON.stringify(latest.items) !== JSON.stringify(items)) {
+      draft.versions.push({
+        version: (latest?.version ?? 0) + 1,
+        savedAt: now,
+        items,
+      });
+      draft.versions = draft.versions.slice(-MAX_VERSIONS);
+    }
+    if (name) {
+      draft.name = name;
+    }
+    draft.updatedAt = now;
+
+    tx.put(TABLES.plans, id, draft);
+    return draft;
+  });
+
+  if (!updated) {
+    return c.json({ error: 'Plan not found' }, 404);
+  }
+  return c.json(toDraft(updated));
+});
+
+/**
+ * DELETE /api/plans/:id
+ * Delete a plan draft and all of its versions
+ */
+plans.delete('/:id', async (c) => {
+  const username = getUsername(c);
+  const id = c.req.param('id');
+  const accessError = planAccessError(c, db.get<PlanRow>(TABLES.plans, id), username);
+  if (accessError) {
+    return accessError;
+  }
+
+  const deleted = await db.transaction(tx => {
+    const draft = tx.get<PlanRow>(TABLES.plans, id);
+    if (!draft || draft.username !== username) return false;
+    tx.delete(TABLES.plans, id);
+    return true;
+  });
+
+  if (!deleted) {
+    return c.json({ error: 'Plan not found' }, 404);
+  }
+  return c.json({ success: true });
+});
+
+export default plans;
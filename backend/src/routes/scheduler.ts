@@ -0,0 +1,59 @@
+import { Hono } from 'hono';
+import { AutoOrderScheduler } from '../services/scheduler';
+import { getUsername, requireUser } from '../middleware/auth';
+import { readSettings } from './settings';
+
+const scheduler = new Hono();
+
+scheduler.use('*', requireUser);
+
+const getStatus = async (username: string) => {
+  const allSettings = await readSettings();
+  const userState = await AutoOrderScheduler.getUserState(username);
+
+  return {
+    daemonEnabled: AutoOrderScheduler.isEnabled(),
+    intervalMinutes: AutoOrderScheduler.getIntervalMinutes(),
+    autoOrderEnabled: !!allSettings[username]?.autoOrderEnabled,
+    ...userState,
+  };
+};
+
+/**
+ * GET /api/scheduler/status
+ * Get what the auto-order daemon did for the current user
+ */
+scheduler.get('/status', async (c) => {
+  const username = getUsername(c);
+
+  try {
+    return c.json(await getStatus(username));
+  } catch (error) {
+    console.error('[Scheduler] Error reading status:', error);
+    return c.json({
+      error: 'Failed to read scheduler status',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/scheduler/run
+ * Trigger an immediate pass for the current user
+ */
+scheduler.post('/run', async (c) => {
+  const username = getUsername(c);
+
+  try {
+    await AutoOrderScheduler.runOnce(username);
+    return c.json(await getStatus(username));
+  } catch (error) {
+    console.error('[Scheduler] Error running scheduler:', error);
+    return c.json({
+      error: 'Failed to run scheduler',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+export default scheduler;
@@ -1,87 +1,98 @@
 import { Hono } from 'hono';
 import { getCookie } from 'hono/cookie';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { db, TABLES } from '../db';
+import { getUsername, requireUser } from '../middleware/auth';
+import { SECRET_SETTING_FIELDS, SecretBox } from '../services/secretBox';
+import { validateWebhookUrl } from '../services/notifier';
 
 const settings = new Hono();
-const DATA_DIR = path.join(process.cwd(), 'data');
-const SETTINGS_FILE = path.join(DATA_DIR, 'user_settings.json');
 
-// Ensure data directory exists
-const ensureDataDir = async () => {
-  try {
-    await fs.access(DATA_DIR);
-  } catch {
-    await fs.mkdir(DATA_DIR, { recursive: true });
+// Credential fields are stored encrypted
+const sealSettings = (data: Record<string, any>): Record<string, any> => {
+  const sealed = { ...data };
+  for (const field of SECRET_SETTING_FIELDS) {
+    if (typeof sealed[field] === 'string' && sealed[field] && !SecretBox.isSealed(sealed[field])) {
+      sealed[field] = SecretBox.seal(sealed[field]);
+    }
   }
+  return sealed;
 };
 
-// Read all settings
-const readSettings = async (): Promise<Record<string, any>> => {
-  await ensureDataDir();
-  try {
-    const data = await fs.readFile(SETTINGS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    return {};
+const openSettings = (data: Record<string, any>): Record<string, any> => {
+  const opened = { ...data };
+  for (const field of SECRET_SETTING_FIELDS) {
+    if (typeof opened[field] === 'string') {
+      opened[field] = SecretBox.open(opened[field]);
+    }
   }
+  return opened;
 };
 
-// Save all settings
-const writeSettings = async (data: Record<string, any>) => {
-  await ensureDataDir();
-  await fs.writeFile(SETTINGS_FILE, JSON.stringify(data, null, 2));
+// Read all settings, keyed by username
+export const readSettings = async (): Promise<Record<string, any>> => {
+  const allSettings = db.all<Record<string, any>>(TABLES.settings);
+  for (const username of Object.keys(allSettings)) {
+    allSettings[username] = openSettings(allSettings[username]);
+  }
+  return allSettings;
 };
 
-// Middleware to extract username (email) from session or request
-// For simplicity, we'll assume the client sends the username in the header or body for now, 
-// or we extract it from the session if available. 
-// However, the requirement says "linked to user email", so we need to know the email.
-// In the current auth flow, the session ID is returned on login. 
-// We might need to store the email-session mapping or trust the client to send the email.
-// Given the current simple architecture, let's look at how auth is handled.
-// The user said "backend records user settings based on user email".
-// We'll expect the client to provide the email (username) when saving/fetching settings, 
-// or we derive it from the session if we have that mapping.
-// Let's check `auth.ts` to see if we have session-to-username mapping.
-
-// ... Wait, I should check `auth.ts` first to see if I can get the username from the session.
-// If not, I might need to trust the client sending the username, or update auth to store it.
-// Let's assume for this step that I'll check `auth.ts` in a moment. 
-// For now, I'll write the code to accept `username` in the query/body.
+// Settings are keyed by the username bound to the session at login, never by a
+// username the client sends, so one user cannot read or overwrite another's settings
+settings.use('*', requireUser);
 
 settings.get('/', async (c) => {
-  const username = c.req.query('username');
-  if (!username) {
-    return c.json({ error: 'Username required' }, 400);
-  }
+  const username = getUsername(c);
 
-  const allSettings = await readSettings();
-  const userSettings = allSettings[username] || {};
+  const userSettings = db.get<Record<string, any>>(TABLES.settings, username) || {};
   
   // Exclude sessionId from response to prevent overwriting frontend session with stale data
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const { sessionId, ...safeSettings } = userSettings;
+
+  // Credentials never leave the server; the client only learns which ones are stored
+  const savedSecrets: Record<string, boolean> = {};
+  for (const field of SECRET_SETTING_FIELDS) {
+    savedSecrets[field] = typeof safeSettings[field] === 'string' && safeSettings[field] !== '';
+    delete safeSettings[field];
+  }
   
-  return c.json(safeSettings);
+  return c.json({ ...safeSettings, savedSecrets });
 });
 
 settings.post('/', async (c) => {
+  const username = getUsername(c);
   const body = await c.req.json();
-  const { username, settings: newSettings } = body;
+  const { settings: newSettings } = body;
 
-  if (!username || !newSettings) {
-    return c.json({ error: 'Username and settings required' }, 400);
+  if (!newSettings) {
+    return c.json({ error: 'Settings required' }, 400);
   }
 
-  // Exclude sessionId from being saved
+  // Exclude sessionId and the read-only secret flags from being saved
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { sessionId, ...settingsToSave } = newSettings;
+  const { sessionId, savedSecrets, ...settingsToSave } = newSettings;
 
-  const allSettings = await readSettings();
-  allSettings[username] = { ...(allSettings[username] || {}), ...settingsToSave };
-  
-  await writeSettings(allSettings);
+  // Reminders are posted to this URL by the server, so it has to pass the same check as the test route
+  if (settingsToSave.reminderWebhookUrl) {
+    const current = db.get<Record<string, any>>(TABLES.settings, username) || {};
+    const format = settingsToSave.reminderWebhookFormat || current.reminderWebhookFormat || 'slack';
+    const urlError = validateWebhookUrl(settingsToSave.reminderWebhookUrl, format);
+    if (urlError) {
+      return c.json({ error: urlError }, 400);
+    }
+  }
+
+  // Merge inside the transaction so concurrent saves don't drop each other's fields
+  await db.transaction(tx => {
+    const current = tx.get<Record<string, any>>(TABLES.settings, username) || {};
+    const merged: Record<string, any> = { ...current, ...settingsToSave };
+    // An empty credential removes the stored one
+    for (const field of SECRET_SETTING_FIELDS) {
+      if (merged[field] === '') delete merged[field];
+    }
+    tx.put(TABLES.settings, username, sealSettings(merged));
+  });
   return c.json({ success: true });
 });
 
@@ -1,7 +1,74 @@
 import type { AuthContext } from '../middleware/auth';
+import type { DishesResponse, OrderLine, RestaurantDetailResponse, RestaurantsResponse } from '../types';
+import { markSessionStale, reloginSession } from '../routes/auth';
+import { getCacheScope, MeicanCache } from './meicanCache';
+import { MeicanHttp } from './meicanHttp';
 
 // Base URL for Meican preorder API (works with cookies-only auth)
-const MEICAN_BASE_URL = 'https://meican.com/preorder/api/v2.1';
+// Can be overridden with MEICAN_BASE_URL, e.g. to point at a local fake server
+const DEFAULT_MEICAN_BASE_URL = 'https://meican.com/preorder/api/v2.1';
+
+const getBaseUrl = (): string => process.env.MEICAN_BASE_URL || DEFAULT_MEICAN_BASE_URL;
+
+/**
+ * Serialize a basket into the order/remarks form fields of /orders/add
+ */
+export const serializeOrderLines = (lines: OrderLine[]): { order: string; remarks: string } => ({
+  order: JSON.stringify(lines.map(line => ({ count: line.count, dishId: line.dishId }))),
+  remarks: JSON.stringify(lines.map(line => ({ dishId: String(line.dishId), remark: line.remark || '' }))),
+});
+
+/**
+ * Check the order field of /orders/add: a non-empty array of { count, dishId }
+ * Returns an error message, or null when valid
+ */
+export const validateOrderField = (order: string): string | null => {
+  let lines: unknown;
+  try {
+    lines = JSON.parse(order);
+  } catch {
+    return 'order must be a JSON array';
+  }
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return 'order must contain at least one dish';
+  }
+  for (const line of lines) {
+    if (typeof line !== 'object' || line === null) {
+      return 'Each order entry must be an object';
+    }
+    const { count, dishId } = line as Record<string, unknown>;
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) {
+      return 'Each order entry needs a positive integer count';
+    }
+    if (typeof dishId !== 'string' && typeof dishId !== 'number') {
+      return 'Each order entry needs a dishId';
+    }
+  }
+  return null;
+};
+
+/**
+ * Thrown when Meican no longer accepts the session cookies and no re-login was possible.
+ * Routes answer it with 401 and its code, so the frontend can ask the user to log in again.
+ */
+export class MeicanSessionExpiredError extends Error {
+  readonly code = 'SESSION_EXPIRED';
+
+  constructor(message: string = 'Meican session expired') {
+    super(message);
+    this.name = 'MeicanSessionExpiredError';
+  }
+}
+
+/**
+ * Meican answers requests with an expired cookie either with 401/403 or by
+ * redirecting to its login page, which arrives as HTML instead of JSON
+ */
+const isSessionExpiredResponse = (response: Response, text: string): boolean => {
+  if (response.status === 401 || response.status === 403) return true;
+  if (response.redirected && /\/(account\/)?login/i.test(response.url)) return true;
+  return /<html/i.test(text) && /login|登录/i.test(text);
+};
 
 interface ProxyOptions {
   method?: 'GET' | 'POST';
@@ -9,6 +76,7 @@ interface ProxyOptions {
   query?: Record<string, string>;
   body?: Record<string, string> | string;
   auth: AuthContext;
+  idempotent?: boolean; // Safe to retry after a failure; defaults to true for GET only
 }
 
 /**
@@ -20,11 +88,11 @@ export class MeicanService {
   /**
    * Make a proxied request to Meican API
    */
-  static async proxyRequest<T>(options: ProxyOptions): Promise<T> {
-    const { method = 'GET', path, query, body, auth } = options;
+  static async proxyRequest<T>(options: ProxyOptions, isRetry: boolean = false): Promise<T> {
+    const { method = 'GET', path, query, body, auth, idempotent = method === 'GET' } = options;
 
     // Build URL with query parameters
-    const url = new URL(`${MEICAN_BASE_URL}${path}`);
+    const url = new URL(`${getBaseUrl()}${path}`);
     
     // Add anti-cache timestamp
     url.searchParams.set('noHttpGetCache', Date.now().toString());
@@ -67,19 +135,23 @@ export class MeicanService {
     console.log(`[MeicanService] Cookies: ${auth.cookie ? 'present' : 'missing'}`);
 
     try {
-      const response = await fetch(url.toString(), {
+      const response = await MeicanHttp.fetch(url.toString(), {
         method,
         headers,
         body: requestBody,
-      });
+      }, { idempotent, limitKey: getCacheScope(auth) });
+
+      const text = await response.text();
+
+      if (isSessionExpiredResponse(response, text)) {
+        return await this.handleExpiredSession<T>(options, isRetry);
+      }
 
       if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[MeicanService] Error ${response.status}: ${errorText.substring(0, 200)}`);
+        console.error(`[MeicanService] Error ${response.status}: ${text.substring(0, 200)}`);
         throw new Error(`Meican API error: ${response.status} ${response.statusText}`);
       }
 
-      const text = await response.text();
       try {
         const data = JSON.parse(text);
         return data as T;
@@ -96,6 +168,28 @@ export class MeicanService {
     }
   }
 
+  /**
+   * Log the session in again and retry the request once; mark the session stale when that is not possible
+   */
+  private static async handleExpiredSession<T>(options: ProxyOptions, isRetry: boolean): Promise<T> {
+    const { auth } = options;
+    console.warn(`[MeicanService] Session expired${auth.sessionId ? ` for ${auth.sessionId}` : ''}`);
+
+    if (!auth.sessionId) {
+      throw new MeicanSessionExpiredError();
+    }
+
+    const cookie = isRetry ? null : await reloginSession(auth.sessionId);
+    if (!cookie) {
+      await markSessionStale(auth.sessionId);
+      throw new MeicanSessionExpiredError();
+    }
+
+    // Update the shared context so later requests in the same handler use the new cookies
+    auth.cookie = cookie;
+    return this.proxyRequest<T>(options, true);
+  }
+
   /**
    * Get calendar items for date range
    */
@@ -118,26 +212,26 @@ export class MeicanService {
   }
 
   /**
-   * Get user addresses
+   * Get user addresses (cached)
    */
   static async getAddresses(namespace: string, auth: AuthContext) {
-    return this.proxyRequest({
+    return MeicanCache.getOrLoad('addresses', getCacheScope(auth), [namespace], () => this.proxyRequest({
       method: 'GET',
       path: '/corpaddresses/getmulticorpaddress',
       query: { namespace },
       auth,
-    });
+    }));
   }
 
   /**
-   * Get restaurant list
+   * Get restaurant list (cached)
    */
   static async getRestaurants(
     tabUniqueId: string,
     targetTime: string,
     auth: AuthContext
   ) {
-    return this.proxyRequest({
+    return MeicanCache.getOrLoad('restaurants', getCacheScope(auth), [tabUniqueId, targetTime], () => this.proxyRequest({
       method: 'GET',
       path: '/restaurants/list',
       query: {
@@ -145,18 +239,18 @@ export class MeicanService {
         targetTime,
       },
       auth,
-    });
+    }));
   }
 
   /**
-   * Get available dishes
+   * Get available dishes (cached)
    */
   static async getDishes(
     tabUniqueId: string,
     targetTime: string,
     auth: AuthContext
   ) {
-    return this.proxyRequest({
+    return MeicanCache.getOrLoad('dishes', getCacheScope(auth), [tabUniqueId, targetTime], () => this.proxyRequest({
       method: 'GET',
       path: '/recommendations/dishes',
       query: {
@@ -164,26 +258,93 @@ export class MeicanService {
         targetTime,
       },
       auth,
-    });
+    }));
+  }
+
+  /**
+   * Get the menu of one restaurant (cached)
+   */
+  static async getRestaurantDetail(
+    tabUniqueId: string,
+    targetTime: string,
+    restaurantUniqueId: string,
+    auth: AuthContext
+  ) {
+    return MeicanCache.getOrLoad('dishes', getCacheScope(auth), [tabUniqueId, targetTime, restaurantUniqueId], () => this.proxyRequest({
+      method: 'GET',
+      path: '/restaurants/show',
+      query: {
+        tabUniqueId,
+        targetTime,
+        restaurantUniqueId,
+      },
+      auth,
+    }));
+  }
+
+  /**
+   * Get the dishes of every restaurant of a slot, shaped like getDishes.
+   * Breakfast has no recommended dishes, its menu is only listed per restaurant.
+   * A restaurant whose menu fails to load is left out; only an expired session,
+   * or every restaurant failing, fails the whole slot.
+   */
+  static async getRestaurantDishes(
+    tabUniqueId: string,
+    targetTime: string,
+    auth: AuthContext
+  ): Promise<DishesResponse> {
+    const { restaurantList = [] } = await this.getRestaurants(tabUniqueId, targetTime, auth) as RestaurantsResponse;
+    const results = await Promise.allSettled(restaurantList.map(restaurant =>
+      this.getRestaurantDetail(tabUniqueId, targetTime, restaurant.uniqueId, auth) as Promise<RestaurantDetailResponse>
+    ));
+
+    const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+    const expired = failures.find(reason => reason instanceof MeicanSessionExpiredError);
+    if (expired) throw expired;
+    if (failures.length > 0 && failures.length === results.length) throw failures[0];
+
+    return {
+      othersRegularDishList: results.flatMap((result, i) => {
+        const restaurant = restaurantList[i];
+        if (result.status === 'rejected') {
+          console.warn(`[MeicanService] Skipping the menu of ${restaurant.name} (${restaurant.uniqueId}):`, result.reason);
+          return [];
+        }
+        return (result.value.dishList || [])
+          .filter(item => !item.isSection)
+          .map(item => ({
+            id: String(item.id),
+            name: item.name,
+            priceInCent: item.priceInCent,
+            restaurant: { uniqueId: restaurant.uniqueId, name: restaurant.name },
+          }));
+      }),
+    };
   }
 
   /**
    * Place an order
+   * Drops the user's cached menus, since ordering can change what is still available
    */
   static async addOrder(
     orderData: Record<string, string>,
     auth: AuthContext
   ) {
-    return this.proxyRequest({
-      method: 'POST',
-      path: '/orders/add',
-      body: orderData,
-      auth,
-    });
+    try {
+      return await this.proxyRequest({
+        method: 'POST',
+        path: '/orders/add',
+        body: orderData,
+        auth,
+      });
+    } finally {
+      MeicanCache.invalidate(getCacheScope(auth), ['dishes', 'restaurants']);
+    }
   }
 
   /**
    * Delete an order
+   * Drops the user's cached menus, like addOrder
    */
   static async deleteOrder(
     uniqueId: string,
@@ -191,15 +352,19 @@ export class MeicanService {
     restoreCart: string,
     auth: AuthContext
   ) {
-    return this.proxyRequest({
-      method: 'POST',
-      path: '/orders/delete',
-      body: {
-        uniqueId,
-        type,
-        restoreCart,
-      },
-      auth,
-    });
+    try {
+      return await this.proxyRequest({
+        method: 'POST',
+        path: '/orders/delete',
+        body: {
+          uniqueId,
+          type,
+          restoreCart,
+        },
+        auth,
+      });
+    } finally {
+      MeicanCache.invalidate(getCacheScope(auth), ['dishes', 'restaurants']);
+    }
   }
 }
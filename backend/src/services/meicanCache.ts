@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import type { AuthContext } from '../middleware/auth';
+
+export type CacheKind = 'dishes' | 'restaurants' | 'addresses';
+
+// Menus change during the day (sold out dishes, closing restaurants), addresses rarely
+const TTL_SECONDS: Record<CacheKind, number> = {
+  dishes: 5 * 60,
+  restaurants: 5 * 60,
+  addresses: 30 * 60,
+};
+
+// Oldest entries are dropped beyond this limit
+const MAX_ENTRIES = 1000;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+interface CacheMetrics {
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+const KINDS = Object.keys(TTL_SECONDS) as CacheKind[];
+
+/**
+ * Menus can differ per account, so entries are scoped to the user (or, for
+ * cookie-only requests, to a hash of the cookie)
+ */
+export const getCacheScope = (auth: AuthContext): string => {
+  if (auth.username) return `user:${auth.username}`;
+  if (auth.sessionId) return `session:${auth.sessionId}`;
+  return `cookie:${createHash('sha256').update(auth.cookie).digest('hex').slice(0, 16)}`;
+};
+
+/**
+ * Meican Cache
+ * In-memory TTL cache for read-only Meican responses. Concurrent requests for
+ * the same entry share one upstream call; failed calls are not cached.
+ */
+export class MeicanCache {
+  private static entries = new Map<string, CacheEntry>();
+  private static inFlight = new Map<string, Promise<unknown>>();
+  private static metrics = Object.fromEntries(
+    KINDS.map(kind => [kind, { hits: 0, misses: 0, invalidations: 0 }])
+  ) as Record<CacheKind, CacheMetrics>;
+
+  private static getKey(kind: CacheKind, scope: string, params: string[]): string {
+    return `${kind}|${scope}|${params.join('|')}`;
+  }
+
+  static async getOrLoad<T>(kind: CacheKind, scope: string, params: string[], load: () => Promise<T>): Promise<T> {
+    const key = this.getKey(kind, scope, params);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.metrics[kind].hits++;
+      return entry.value as T;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.metrics[kind].hits++;
+      return pending as Promise<T>;
+    }
+
+    this.metrics[kind].misses++;
+    this.entries.delete(key);
+
+    const request = load()
+      .then(value => {
+        this.entries.set(key, { value, expiresAt: Date.now() + TTL_SECONDS[kind] * 1000 });
+        while (this.entries.size > MAX_ENTRIES) {
+          this.entries.delete(this.entries.keys().next().value!);
+        }
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Drop a user's cached entries, e.g. after an order changed what is available
+   */
+  static invalidate(scope: string, kinds: CacheKind[] = KINDS): void {
+    for (const key of [...this.entries.keys()]) {
+      const [kind, keyScope] = key.split('|');
+      if (keyScope === scope && kinds.includes(kind as CacheKind)) {
+        this.entries.delete(key);
+        this.metrics[kind as CacheKind].invalidations++;
+      }
+    }
+  }
+
+  static getStats() {
+    const now = Date.now();
+    const kinds = Object.fromEntries(KINDS.map(kind => {
+      const { hits, misses, invalidations } = this.metrics[kind];
+      const entries = [...this.entries.entries()].filter(([key, entry]) => key.startsWith(`${kind}|`) && entry.expiresAt > now).length;
+      return [kind, {
+        hits,
+        misses,
+        invalidations,
+        hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 100) / 100 : null,
+        entries,
+        ttlSeconds: TTL_SECONDS[kind],
+      }];
+    }));
+    return { size: this.entries.size, kinds };
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Meican HTTP client
+ * Every Meican request goes through here: it is throttled per session, times
+ * out, is retried with backoff when that is safe, and fails fast while Meican
+ * is down.
+ */
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RATE_PER_SECOND = 5;
+const DEFAULT_BURST = 10;
+const DEFAULT_CIRCUIT_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_COOLDOWN_MS = 30000;
+
+// Backoff before retry n is a random delay up to BASE * 2^n, capped
+const BACKOFF_BASE_MS = 300;
+const BACKOFF_MAX_MS = 5000;
+
+// Idle token buckets are dropped beyond this many sessions
+const MAX_BUCKETS = 1000;
+
+const readPositiveInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+};
+
+const readNonNegativeInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return value >= 0 ? value : fallback;
+};
+
+const getConfig = () => ({
+  timeoutMs: readPositiveInt('MEICAN_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+  maxRetries: readNonNegativeInt('MEICAN_MAX_RETRIES', DEFAULT_MAX_RETRIES),
+  ratePerSecond: readPositiveInt('MEICAN_RATE_LIMIT', DEFAULT_RATE_PER_SECOND),
+  burst: readPositiveInt('MEICAN_RATE_BURST', DEFAULT_BURST),
+  circuitThreshold: readPositiveInt('MEICAN_CIRCUIT_THRESHOLD', DEFAULT_CIRCUIT_THRESHOLD),
+  circuitCooldownMs: readPositiveInt('MEICAN_CIRCUIT_COOLDOWN_MS', DEFAULT_CIRCUIT_COOLDOWN_MS),
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Thrown without contacting Meican while the circuit breaker is open
+ */
+export class MeicanUnavailableError extends Error {
+  readonly code = 'MEICAN_UNAVAILABLE';
+
+  constructor(readonly retryAfterMs: number) {
+    super(`Meican is unavailable, retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'MeicanUnavailableError';
+  }
+}
+
+/**
+ * Thrown when Meican did not answer within the timeout. For requests that are
+ * not retried (e.g. placing an order) it is unknown whether Meican applied it.
+ */
+export class MeicanTimeoutError extends Error {
+  readonly code = 'MEICAN_TIMEOUT';
+
+  constructor(timeoutMs: number) {
+    super(`Meican did not respond within ${timeoutMs}ms`);
+    this.name = 'MeicanTimeoutError';
+  }
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface MeicanFetchOptions {
+  // Safe to send again after a 5xx, timeout or network error. Requests that
+  // are not (placing an order) are only retried when Meican certainly did not
+  // receive them: 429 responses and refused connections.
+  idempotent: boolean;
+  // Requests with the same key share a rate limit, e.g. one per session
+  limitKey: string;
+}
+
+/**
+ * Connection errors raised before anything was sent
+ */
+const isConnectionRefused = (error: unknown): boolean => {
+  const code = (error as { cause?: { code?: string } })?.cause?.code ?? (error as { code?: string })?.code;
+  return code === 'ECONNREFUSED' || code === 'ENOTFOUND' || code === 'EAI_AGAIN' || code === 'ConnectionRefused';
+};
+
+const getRetryAfterMs = (response: Response): number | null => {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export class MeicanHttp {
+  private static buckets = new Map<string, TokenBucket>();
+  private static circuit = {
+    state: 'closed' as CircuitState,
+    failures: 0,
+    openedAt: 0,
+    trialInFlight: false,
+  };
+  private static metrics = { requests: 0, retries: 0, timeouts: 0, rejected: 0, throttledMs: 0 };
+
+  /**
+   * Fetch with rate limiting, timeout, retries and the circuit breaker
+   */
+  static async fetch(url: string, init: RequestInit, options: MeicanFetchOptions): Promise<Response> {
+    const config = getConfig();
+
+    for (let attempt = 0; ; attempt++) {
+      this.enterCircuit(config.circuitCooldownMs);
+      await this.takeToken(options.limitKey, config.ratePerSecond, config.burst);
+      this.metrics.requests++;
+
+      let retryAfterMs: number | null = null;
+      let canRetry: boolean;
+      let failure: unknown;
+
+      try {
+        const response = await fetch(url, { ...init, signal: AbortSignal.timeout(config.timeoutMs) });
+
+        if (response.status < 500 && response.status !== 429) {
+          this.recordResult(true, config.circuitThreshold);
+          return response;
+        }
+
+        // Meican answered, but is overloaded or failing; sustained rate limiting opens the circuit too,
+        // so requests back off instead of adding to the load
+        this.recordResult(false, config.circuitThreshold);
+        if (attempt >= config.maxRetries) return response;
+        canRetry = response.status === 429 || options.idempotent;
+        if (!canRetry) return response;
+        retryAfterMs = getRetryAfterMs(response);
+        await response.body?.cancel();
+        failure = new Error(`HTTP ${response.status}`);
+      } catch (error) {
+        this.recordResult(false, config.circuitThreshold);
+        const timedOut = (error as Error)?.name === 'TimeoutError';
+        if (timedOut) this.metrics.timeouts++;
+        failure = timedOut ? new MeicanTimeoutError(config.timeoutMs) : error;
+        canRetry = options.idempotent || isConnectionRefused(error);
+        if (attempt >= config.maxRetries || !canRetry) throw failure;
+      }
+
+      const delay = Math.min(BACKOFF_MAX_MS, retryAfterMs ?? Math.random() * BACKOFF_BASE_MS * 2 ** attempt);
+      console.warn(`[MeicanHttp] ${init.method || 'GET'} ${new URL(url).pathname} failed (${failure instanceof Error ? failure.message : failure}), retry ${attempt + 1}/${config.maxRetries} in ${Math.round(delay)}ms`);
+      this.metrics.retries++;
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Let a request through unless Meican is considered down. After the cooldown
+   * one trial request is let through; its result closes or reopens the circuit.
+   */
+  private static enterCircuit(cooldownMs: number): void {
+    const circuit = this.circuit;
+    if (circuit.state === 'closed') return;
+
+    const remaining = circuit.openedAt + cooldownMs - Date.now();
+    if (circuit.state === 'open' && remaining <= 0) {
+      circuit.state = 'half-open';
+    }
+    if (circuit.state === 'half-open' && !circuit.trialInFlight) {
+      circuit.trialInFlight = true;
+      return;
+    }
+
+    this.metrics.rejected++;
+    throw new MeicanUnavailableError(Math.max(remaining, 1000));
+  }
+
+  private static recordResult(success: boolean, threshold: number): void {
+    const circuit = this.circuit;
+    circuit.trialInFlight = false;
+
+    if (success) {
+      if (circuit.state !== 'closed') console.log('[MeicanHttp] Meican is reachable again, circuit closed');
+      circuit.state = 'closed';
+      circuit.failures = 0;
+      return;
+    }
+
+    circuit.failures++;
+    if (circuit.state === 'half-open' || (circuit.state === 'closed' && circuit.failures >= threshold)) {
+      console.warn(`[MeicanHttp] ${circuit.failures} consecutive failures, circuit open`);
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Wait for a token of the key's bucket, which refills at ratePerSecond up to burst
+   */
+  private static async takeToken(key: string, ratePerSecond: number, burst: number): Promise<void> {
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: burst, updatedAt: now };
+      this.buckets.set(key, bucket);
+      if (this.buckets.size > MAX_BUCKETS) {
+        this.buckets.delete(this.buckets.keys().next().value!);
+      }
+    }
+
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * ratePerSecond);
+    bucket.updatedAt = now;
+    // Taking the token up front reserves it; a negative balance queues later callers behind this one
+    bucket.tokens -= 1;
+
+    if (bucket.tokens < 0) {
+      const waitMs = (-bucket.tokens / ratePerSecond) * 1000;
+      this.metrics.throttledMs += waitMs;
+      await sleep(waitMs);
+    }
+  }
+
+  static getStats() {
+    const { state, failures, openedAt } = this.circuit;
+    return {
+      ...this.metrics,
+      throttledMs: Math.round(this.metrics.throttledMs),
+      circuit: { state, failures, openedAt: openedAt ? new Date(openedAt).toISOString() : null },
+    };
+  }
+}
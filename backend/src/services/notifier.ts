@@ -0,0 +1,171 @@
+export type WebhookFormat = 'slack' | 'feishu' | 'dingtalk';
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['slack', 'feishu', 'dingtalk'];
+
+export interface NotificationMessage {
+  title: string;
+  text: string;
+}
+
+/**
+ * A delivery target for notifications
+ * New channels (email, bots, ...) only need to implement this interface
+ */
+export interface NotificationChannel {
+  readonly name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export interface DeliveryResult {
+  channel: string;
+  success: boolean;
+  error?: string;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Hosts of the service each webhook format is made for
+const WEBHOOK_HOSTS: Record<WebhookFormat, string[]> = {
+  slack: ['hooks.slack.com'],
+  feishu: ['open.feishu.cn', 'open.larksuite.com'],
+  dingtalk: ['oapi.dingtalk.com'],
+};
+
+// Further hosts ("host" or "host:port") from WEBHOOK_ALLOWED_HOSTS, e.g. a self-hosted chat server or the local webhook sink
+const getAllowedHosts = (): string[] =>
+  (process.env.WEBHOOK_ALLOWED_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+
+/**
+ * Check a webhook URL before the backend sends anything to it, so users cannot
+ * make the server call internal addresses. Accepted are https URLs on the
+ * format's own service and http(s) URLs on hosts listed in WEBHOOK_ALLOWED_HOSTS.
+ * Returns an error message, or null when valid
+ */
+export const validateWebhookUrl = (url: string, format: WebhookFormat): string | null => {
+  if (!WEBHOOK_FORMATS.includes(format)) {
+    return `Unsupported webhook format: ${format}`;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'Webhook URL must be an http(s) URL';
+  }
+  if (parsed.username || parsed.password) {
+    return 'Webhook URL must not contain credentials';
+  }
+
+  const host = parsed.host.toLowerCase();
+  if (getAllowedHosts().includes(host)) return null;
+  if (parsed.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+  if (!WEBHOOK_HOSTS[format].includes(host)) {
+    return `${host} is not a ${format} webhook host; add it to WEBHOOK_ALLOWED_HOSTS to allow it`;
+  }
+  return null;
+};
+
+/**
+ * Build the JSON body each webhook flavour expects
+ * - slack: incoming webhook `{ text }`
+ * - feishu: custom bot `{ msg_type: 'text', content: { text } }`
+ * - dingtalk: custom robot `{ msgtype: 'text', text: { content } }`
+ */
+export const buildWebhookPayload = (format: WebhookFormat, message: NotificationMessage) => {
+  const text = `${message.title}\n${message.text}`;
+
+  switch (format) {
+    case 'feishu':
+      return { msg_type: 'text', content: { text } };
+    case 'dingtalk':
+      return { msgtype: 'text', text: { content: text } };
+    case 'slack':
+    default:
+      return { text };
+  }
+};
+
+/**
+ * Outgoing webhook channel (Slack/Feishu/DingTalk-compatible JSON)
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name: string;
+
+  constructor(private url: string, private format: WebhookFormat = 'slack') {
+    this.name = `webhook:${format}`;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildWebhookPayload(this.format, message)),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      // A redirect could lead anywhere, including the internal addresses validateWebhookUrl keeps out
+      redirect: 'error',
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Webhook responded ${response.status}: ${body.slice(0, 200)}`);
+    }
+  }
+}
+
+/**
+ * Notifier
+ * Builds channels from user settings and fans messages out to them
+ */
+export class Notifier {
+  /**
+   * Create the server-side channels a user has configured
+   * (the browser channel is handled entirely by the frontend).
+   * Webhooks that fail validateWebhookUrl, e.g. stored before it existed, are skipped.
+   */
+  static createChannels(settings: {
+    reminderChannels?: string[];
+    reminderWebhookUrl?: string;
+    reminderWebhookFormat?: WebhookFormat;
+  }): NotificationChannel[] {
+    const channels: NotificationChannel[] = [];
+
+    if (settings.reminderChannels?.includes('webhook') && settings.reminderWebhookUrl) {
+      const format = settings.reminderWebhookFormat || 'slack';
+      const urlError = validateWebhookUrl(settings.reminderWebhookUrl, format);
+      if (urlError) {
+        console.warn(`[Notifier] Skipping webhook: ${urlError}`);
+      } else {
+        channels.push(new WebhookChannel(settings.reminderWebhookUrl, format));
+      }
+    }
+
+    return channels;
+  }
+
+  /**
+   * Send a message to every channel; one failing channel does not block the others
+   */
+  static async notify(
+    channels: NotificationChannel[],
+    message: NotificationMessage
+  ): Promise<DeliveryResult[]> {
+    return Promise.all(channels.map(async (channel) => {
+      try {
+        await channel.send(message);
+        return { channel: channel.name, success: true };
+      } catch (error) {
+        console.error(`[Notifier] Delivery via ${channel.name} failed:`, error);
+        return {
+          channel: channel.name,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }));
+  }
+}
@@ -0,0 +1,277 @@
+import { createHash } from 'crypto';
+import { MeicanService, serializeOrderLines } from './meican';
+import { getCacheScope } from './meicanCache';
+import type { AuthContext } from '../middleware/auth';
+import { db, TABLES } from '../db';
+import type { CalendarItem, CalendarResponse, OrderLine, OrderResponse } from '../types';
+
+// How long a replayed idempotency key returns the stored result
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface OrderRequestRow<T extends OrderResponse = OrderResponse> {
+  fingerprint: string;
+  response: T;
+  createdAt: string;
+}
+
+/**
+ * Thrown when an idempotency key is reused for a different order
+ */
+export class IdempotencyConflictError extends Error {
+  readonly code = 'IDEMPOTENCY_CONFLICT';
+
+  constructor() {
+    super('Idempotency key was already used for a different order');
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+/**
+ * Thrown when the order to replace is no longer the slot's order
+ */
+export class OrderConflictError extends Error {
+  readonly code = 'ORDER_CONFLICT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderConflictError';
+  }
+}
+
+export type RollbackOutcome = 'RESTORED' | 'FAILED';
+
+export interface ReplaceOrderResponse extends OrderResponse {
+  replacedOrderId?: string; // Set when the new order replaced this one
+  rollback?: RollbackOutcome; // Set when the new order failed and the original was re-ordered (or could not be)
+}
+
+export interface PlaceOrderResult<T extends OrderResponse = OrderResponse> {
+  response: T;
+  replayed: boolean; // Stored result of an earlier request with the same key
+}
+
+const getFingerprint = (orderData: Record<string, string>): string =>
+  createHash('sha256')
+    .update(JSON.stringify(Object.keys(orderData).sort().map(key => [key, orderData[key]])))
+    .digest('hex');
+
+/**
+ * Orders Service
+ * Places orders at most once per meal slot: a request is answered with the
+ * order already in the live calendar (placed from another tab, device or an
+ * earlier attempt) instead of creating a second one. Changes to a slot's
+ * order are serialized, and replacing an order rolls back on failure.
+ */
+export class OrderService {
+  // Requests for the same slot run one after another, so the second sees the first's order
+  private static slotQueues = new Map<string, Promise<unknown>>();
+
+  private static inSlotQueue<T>(slotKey: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.slotQueues.get(slotKey) ?? Promise.resolve();
+    const run = previous.catch(() => {}).then(task);
+    this.slotQueues.set(slotKey, run);
+    run.catch(() => {}).finally(() => {
+      if (this.slotQueues.get(slotKey) === run) this.slotQueues.delete(slotKey);
+    });
+    return run;
+  }
+
+  static async placeOrder(
+    orderData: Record<string, string>,
+    auth: AuthContext,
+    idempotencyKey?: string
+  ): Promise<PlaceOrderResult> {
+    const scope = getCacheScope(auth);
+    const date = orderData.targetTime.slice(0, 10);
+    return this.inSlotQueue(
+      `${scope}|${orderData.tabUniqueId}|${date}`,
+      () => this.placeOrderInSlot(orderData, auth, scope, date, idempotencyKey)
+    );
+  }
+
+  /**
+   * Swap the slot's order for a new one. Meican allows one order per slot, so
+   * the old order is cancelled first; if the new one then fails, the original
+   * dishes are ordered again (to the new order's address, remarks are lost) so
+   * the user is not left without a meal.
+   */
+  static async replaceOrder(
+    oldOrderUniqueId: string,
+    orderData: Record<string, string>,
+    auth: AuthContext,
+    idempotencyKey?: string
+  ): Promise<PlaceOrderResult<ReplaceOrderResponse>> {
+    const scope = getCacheScope(auth);
+    const date = orderData.targetTime.slice(0, 10);
+    return this.inSlotQueue(
+      `${scope}|${orderData.tabUniqueId}|${date}`,
+      () => this.replaceOrderInSlot(oldOrderUniqueId, orderData, auth, scope, date, idempotencyKey)
+    );
+  }
+
+  private static async replaceOrderInSlot(
+    oldOrderUniqueId: string,
+    orderData: Record<string, string>,
+    auth: AuthContext,
+    scope: string,
+    date: string,
+    idempotencyKey?: string
+  ): Promise<PlaceOrderResult<ReplaceOrderResponse>> {
+    const fingerprint = getFingerprint({ ...orderData, oldOrderUniqueId });
+    const requestKey = idempotencyKey ? `${scope}|${idempotencyKey}` : null;
+    const stored = requestKey ? this.readStoredRequest<ReplaceOrderResponse>(requestKey, fingerprint) : undefined;
+
+    const item = await this.findSlotItem(orderData.tabUniqueId, date, auth);
+    const current = item?.status === 'ORDER' ? item.corpOrderUser : null;
+    // A retried replace finds its own new order in the slot, not the one it replaced
+    if (stored && current && current.uniqueId === stored.response.order?.uniqueId) {
+      console.log(`[Orders] Replaying idempotency key ${idempotencyKey}`);
+      return { response: stored.response, replayed: true };
+    }
+    if (!current) {
+      throw new OrderConflictError('The order to replace no longer exists');
+    }
+    if (current.uniqueId !== oldOrderUniqueId) {
+      throw new OrderConflictError('The slot has a different order than the one to replace');
+    }
+
+    const originalLines: OrderLine[] = current.restaurantItemList.flatMap(restaurantItem =>
+      restaurantItem.dishItemList.map(dishItem => ({ dishId: dishItem.dish.id, count: dishItem.count }))
+    );
+
+    // Nothing has changed if this fails, so it is simply reported
+    const deleted = await MeicanService.deleteOrder(oldOrderUniqueId, 'CORP_ORDER', 'false', auth) as OrderResponse;
+    if (deleted.status !== 'SUCCESSFUL') {
+      return { response: { status: 'FAILED', message: deleted.message || 'Failed to cancel the current order' }, replayed: false };
+    }
+
+    // The old order is gone, so an order in the slot is one of the two below. A request that
+    // threw (e.g. timed out) may still have been placed; if the calendar cannot be read either,
+    // a second order is still ruled out as Meican allows one per slot.
+    const findPlacedOrder = () => this.findExistingOrder(orderData.tabUniqueId, date, auth).catch(() => null);
+
+    let failure: string;
+    try {
+      const placed = await MeicanService.addOrder(orderData, auth) as OrderResponse;
+      if (placed.status === 'SUCCESSFUL') {
+        const response: ReplaceOrderResponse = { ...placed, replacedOrderId: oldOrderUniqueId };
+        if (requestKey) await this.storeRequest(requestKey, fingerprint, response);
+        return { response, replayed: false };
+      }
+      failure = placed.message || 'Order failed';
+    } catch (error) {
+      failure = error instanceof Error ? error.message : 'Unknown error';
+      const placedOrderId = await findPlacedOrder();
+      if (placedOrderId) {
+        console.warn(`[Orders] Placing the replacement of ${oldOrderUniqueId} failed (${failure}), but Meican has it as ${placedOrderId}`);
+        const response: ReplaceOrderResponse = { status: 'SUCCESSFUL', order: { uniqueId: placedOrderId }, replacedOrderId: oldOrderUniqueId };
+        if (requestKey) await this.storeRequest(requestKey, fingerprint, response);
+        return { response, replayed: false };
+      }
+    }
+
+    console.warn(`[Orders] Replacing ${oldOrderUniqueId} failed (${failure}), re-ordering the original dishes`);
+    try {
+      const restored = await MeicanService.addOrder({
+        ...orderData,
+        ...serializeOrderLines(originalLines),
+      }, auth) as OrderResponse;
+      if (restored.status === 'SUCCESSFUL') {
+        return { response: { status: 'FAILED', message: failure, order: restored.order, rollback: 'RESTORED' }, replayed: false };
+      }
+      console.error(`[Orders] Restoring ${oldOrderUniqueId} failed: ${restored.message}`);
+    } catch (error) {
+      console.error(`[Orders] Restoring ${oldOrderUniqueId} failed:`, error);
+      const restoredOrderId = await findPlacedOrder();
+      if (restoredOrderId) {
+        return { response: { status: 'FAILED', message: failure, order: { uniqueId: restoredOrderId }, rollback: 'RESTORED' }, replayed: false };
+      }
+    }
+    return { response: { status: 'FAILED', message: failure, rollback: 'FAILED' }, replayed: false };
+  }
+
+  private static async placeOrderInSlot(
+    orderData: Record<string, string>,
+    auth: AuthContext,
+    scope: string,
+    date: string,
+    idempotencyKey?: string
+  ): Promise<PlaceOrderResult> {
+    const fingerprint = getFingerprint(orderData);
+    const requestKey = idempotencyKey ? `${scope}|${idempotencyKey}` : null;
+    const stored = requestKey ? this.readStoredRequest(requestKey, fingerprint) : undefined;
+
+    // The live calendar decides: a stored result is only replayed while its order is still the slot's
+    const existingOrderId = await this.findExistingOrder(orderData.tabUniqueId, date, auth);
+    if (stored) {
+      if (existingOrderId && existingOrderId === stored.response.order?.uniqueId) {
+        console.log(`[Orders] Replaying idempotency key ${idempotencyKey}`);
+        return { response: stored.response, replayed: true };
+      }
+      console.log(`[Orders] Order of idempotency key ${idempotencyKey} is no longer the slot's, handling the request again`);
+    }
+
+    const response: OrderResponse = existingOrderId
+      ? { status: 'SUCCESSFUL', order: { uniqueId: existingOrderId }, existing: true }
+      : await MeicanService.addOrder(orderData, auth) as OrderResponse;
+
+    if (existingOrderId) {
+      console.log(`[Orders] ${orderData.tabUniqueId} on ${date} already ordered (${existingOrderId}), not placing another`);
+    }
+
+    // Failed attempts are not stored, so the same key can be retried
+    if (requestKey && response.status === 'SUCCESSFUL') {
+      await this.storeRequest(requestKey, fingerprint, response);
+    }
+
+    return { response, replayed: false };
+  }
+
+  /**
+   * Unexpired stored result of an idempotency key; throws when the key was used for a different order
+   */
+  private static readStoredRequest<T extends OrderResponse>(requestKey: string, fingerprint: string): OrderRequestRow<T> | undefined {
+    const row = db.get<OrderRequestRow<T>>(TABLES.orderRequests, requestKey);
+    if (!row || Date.now() - new Date(row.createdAt).getTime() >= IDEMPOTENCY_TTL_MS) return undefined;
+    if (row.fingerprint !== fingerprint) {
+      throw new IdempotencyConflictError();
+    }
+    return row;
+  }
+
+  /**
+   * Store a successful result under its idempotency key, dropping expired ones
+   */
+  private static async storeRequest(requestKey: string, fingerprint: string, response: OrderResponse): Promise<void> {
+    await db.transaction(tx => {
+      const cutoff = Date.now() - IDEMPOTENCY_TTL_MS;
+      for (const [key, row] of Object.entries(tx.all<OrderRequestRow>(TABLES.orderRequests))) {
+        if (new Date(row.createdAt).getTime() < cutoff) tx.delete(TABLES.orderRequests, key);
+      }
+      tx.put<OrderRequestRow>(TABLES.orderRequests, requestKey, {
+        fingerprint,
+        response,
+        createdAt: new Date().toISOString(),
+      });
+    });
+  }
+
+  /**
+   * The slot as it is in the live calendar
+   */
+  private static async findSlotItem(tabUniqueId: string, date: string, auth: AuthContext): Promise<CalendarItem | undefined> {
+    const calendar = await MeicanService.getCalendarItems(date, date, auth) as CalendarResponse;
+    return (calendar.dateList || [])
+      .filter(dateItem => dateItem.date === date)
+      .flatMap(dateItem => dateItem.calendarItemList || [])
+      .find(calItem => calItem.userTab?.uniqueId === tabUniqueId);
+  }
+
+  /**
+   * Unique id of the order already placed for the slot, read from the live calendar
+   */
+  private static async findExistingOrder(tabUniqueId: string, date: string, auth: AuthContext): Promise<string | null> {
+    const item = await this.findSlotItem(tabUniqueId, date, auth);
+    return item?.status === 'ORDER' && item.corpOrderUser ? item.corpOrderUser.uniqueId : null;
+  }
+}
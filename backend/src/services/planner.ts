@@ -0,0 +1,52 @@
+import type { Dish } from '../types';
+import { countBy, pickBestDish, ScoreReason, ScoringPreferences } from '../shared/dishScoring';
+
+export type PlanningPreferences = ScoringPreferences;
+
+export interface DishPick {
+  dish: Dish;
+  reason: string;
+}
+
+const describeReason = (reason: ScoreReason): string => {
+  switch (reason.type) {
+    case 'preferredVendor':
+      return `preferred vendor (+${reason.weight})`;
+    case 'frequentVendor':
+      return `ordered from this vendor ${reason.count} times recently`;
+    case 'healthy':
+      return 'lighter option';
+    case 'notRecent':
+      return 'not ordered recently';
+  }
+};
+
+/**
+ * Pick a single dish for a meal slot
+ * Uses the scoring of the browser's rule planner (see shared/dishScoring.ts).
+ * The scheduler only knows the dishes ordered recently, which count both as
+ * recent dishes and as the order history.
+ */
+export function pickDish(
+  menu: Dish[],
+  prefs: PlanningPreferences,
+  recentDishNames: string[] = []
+): DishPick | null {
+  const candidates = menu.map(dish => ({
+    dish,
+    name: dish.name,
+    restaurantName: dish.restaurant?.name || '',
+    priceInCent: dish.priceInCent,
+  }));
+  const best = pickBestDish(candidates, prefs, {
+    dishCounts: countBy(recentDishNames),
+    recentDishes: new Set(recentDishNames),
+  });
+  if (!best) return null;
+
+  const reasons = best.reasons.map(describeReason);
+  return {
+    dish: best.dish.dish,
+    reason: reasons.length > 0 ? reasons.join(', ') : 'best available option',
+  };
+}
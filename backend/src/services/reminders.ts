@@ -0,0 +1,203 @@
+import { MeicanService } from './meican';
+import { Notifier, WebhookFormat } from './notifier';
+import { createAuthContext } from '../middleware/auth';
+import { db, TABLES } from '../db';
+import { getLatestUserSessions } from '../routes/auth';
+import { readSettings } from '../routes/settings';
+import { addDays, formatDate, getDayOfWeek, getDeadline, getMealName, isMealTabEnabled, MealTabSettings } from '../utils/calendar';
+import type { CalendarResponse } from '../types';
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+const DEFAULT_LEAD_MINUTES = 30;
+// Close times can fall on the day before the meal
+const LOOKAHEAD_DAYS = 2;
+
+interface ReminderState {
+  // Slots already reminded, keyed by `${username}|${date}|${tabUniqueId}` -> ISO send time
+  sentSlots: Record<string, string>;
+}
+
+interface ReminderSettings extends MealTabSettings {
+  reminderEnabled?: boolean;
+  reminderLeadMinutes?: number;
+  reminderChannels?: string[];
+  reminderWebhookUrl?: string;
+  reminderWebhookFormat?: WebhookFormat;
+  enableWeekends?: boolean;
+}
+
+interface DueSlot {
+  date: string;
+  mealName: string;
+  closeTime: string;
+  minutesLeft: number;
+  key: string;
+}
+
+const readState = async (): Promise<ReminderState> => {
+  return { sentSlots: {}, ...db.get<ReminderState>(TABLES.jobState, 'reminders') };
+};
+
+/**
+ * Change the state in a single read-modify-write transaction, so that
+ * what others wrote while a check waited on Meican is kept
+ */
+const updateState = async (update: (state: ReminderState) => void) => {
+  await db.transaction(tx => {
+    const state: ReminderState = { sentSlots: {}, ...tx.get<ReminderState>(TABLES.jobState, 'reminders') };
+    update(state);
+    tx.put(TABLES.jobState, 'reminders', state);
+  });
+};
+
+/**
+ * Deadline Reminders
+ * Sends one message per user listing AVAILABLE slots whose close time
+ * falls within their reminder lead window. Each slot is reminded once.
+ */
+export class DeadlineReminders {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static running = false;
+
+  static isEnabled(): boolean {
+    return process.env.REMINDERS_ENABLED !== 'false';
+  }
+
+  static getIntervalMinutes(): number {
+    const minutes = parseInt(process.env.REMINDERS_INTERVAL_MINUTES || '', 10);
+    return minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES;
+  }
+
+  /**
+   * Start the periodic timer (no-op if disabled or already running).
+   * Independent of the auto-order scheduler, so reminders keep working when it is disabled.
+   */
+  static start(): void {
+    if (!this.isEnabled() || this.timer) return;
+
+    const intervalMs = this.getIntervalMinutes() * 60 * 1000;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('[Reminders] Run failed:', error));
+    }, intervalMs);
+
+    console.log(`[Reminders] Started, checking every ${this.getIntervalMinutes()} minutes`);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  static async runOnce(now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      console.log('[Reminders] Previous run still in progress, skipping');
+      return;
+    }
+    this.running = true;
+
+    try {
+      await this.checkDeadlines(now);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private static async checkDeadlines(now: Date): Promise<void> {
+    // Slots reminded as of this check; the ones it reminds are saved at its end
+    const state = await readState();
+    const allSettings = await readSettings();
+    const userSessions = getLatestUserSessions();
+    const sentKeys: string[] = [];
+
+    for (const [username, session] of userSessions.entries()) {
+      const settings: ReminderSettings = allSettings[username] || {};
+      if (!settings.reminderEnabled) continue;
+
+      const channels = Notifier.createChannels(settings);
+      if (channels.length === 0) continue;
+
+      try {
+        const due = await this.findDueSlots(username, session, settings, state, now);
+        if (due.length === 0) continue;
+
+        const results = await Notifier.notify(channels, {
+          title: '⏰ Meican order deadline approaching',
+          text: due
+            .map(slot => `${slot.date} ${slot.mealName}: closes at ${slot.closeTime} (in ${slot.minutesLeft} min)`)
+            .join('\n'),
+        });
+
+        // Retry on the next tick if nothing got through
+        if (results.some(r => r.success)) {
+          sentKeys.push(...due.map(slot => slot.key));
+        }
+      } catch (error) {
+        console.error(`[Reminders] Failed to check deadlines for ${username}:`, error);
+      }
+    }
+
+    await updateState(current => {
+      for (const key of sentKeys) {
+        current.sentSlots[key] = now.toISOString();
+      }
+
+      // Forget slots from past days
+      const today = formatDate(now);
+      for (const key of Object.keys(current.sentSlots)) {
+        if (key.split('|')[1] < today) {
+          delete current.sentSlots[key];
+        }
+      }
+    });
+  }
+
+  private static async findDueSlots(
+    username: string,
+    session: { sessionId: string; cookies: string },
+    settings: ReminderSettings,
+    state: ReminderState,
+    now: Date
+  ): Promise<DueSlot[]> {
+    const auth = createAuthContext(session.cookies, session.sessionId);
+    const leadMinutes = settings.reminderLeadMinutes ?? DEFAULT_LEAD_MINUTES;
+    const windowEnd = new Date(now.getTime() + leadMinutes * 60 * 1000);
+
+    const calendar = await MeicanService.getCalendarItems(
+      formatDate(now),
+      formatDate(addDays(now, LOOKAHEAD_DAYS)),
+      auth
+    ) as CalendarResponse;
+
+    const due: DueSlot[] = [];
+
+    for (const dateItem of calendar.dateList || []) {
+      const dayOfWeek = getDayOfWeek(dateItem.date);
+      if ((dayOfWeek === 0 || dayOfWeek === 6) && !settings.enableWeekends) continue;
+
+      for (const calItem of dateItem.calendarItemList || []) {
+        if (calItem.status !== 'AVAILABLE' || !calItem.userTab?.uniqueId) continue;
+
+        if (!isMealTabEnabled(settings, calItem)) continue;
+
+        const key = `${username}|${dateItem.date}|${calItem.userTab.uniqueId}`;
+        if (state.sentSlots[key]) continue;
+
+        const closeTime = calItem.openingTime?.closeTime;
+        const deadline = getDeadline(dateItem.date, closeTime);
+        if (!deadline || deadline <= now || deadline > windowEnd) continue;
+
+        due.push({
+          date: dateItem.date,
+          mealName: getMealName(calItem),
+          closeTime: closeTime!,
+          minutesLeft: Math.round((deadline.getTime() - now.getTime()) / 60000),
+          key,
+        });
+      }
+    }
+
+    return due;
+  }
+}
@@ -0,0 +1,365 @@
+import { MeicanService, serializeOrderLines } from './meican';
+import { OrderService } from './orders';
+import { pickDish, PlanningPreferences } from './planner';
+import { createAuthContext, AuthContext } from '../middleware/auth';
+import { db, TABLES } from '../db';
+import { getLatestUserSessions } from '../routes/auth';
+import { readSettings } from '../routes/settings';
+import { addDays, formatDate, getDayOfWeek, getDeadline, getMealName, getMealTime, getSlotTargetTime, isMealTabEnabled, MealTabSettings } from '../utils/calendar';
+import type {
+  AddressResponse,
+  CalendarResponse,
+  DishesResponse,
+} from '../types';
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+const DEFAULT_LEAD_MINUTES = 60;
+const LOOKAHEAD_DAYS = 7;
+const HISTORY_DAYS = 14;
+const MAX_EVENTS_PER_USER = 50;
+// A failed slot is tried again after RETRY_BASE_MINUTES, doubling per failure up to RETRY_MAX_MINUTES
+const RETRY_BASE_MINUTES = 5;
+const RETRY_MAX_MINUTES = 30;
+
+export type SchedulerAction = 'ordered' | 'failed' | 'skipped';
+
+export interface SchedulerEvent {
+  at: string;
+  date: string;
+  mealTime: string;
+  mealName?: string;
+  tabUniqueId: string;
+  action: SchedulerAction;
+  dishName?: string;
+  restaurantName?: string;
+  priceInCent?: number;
+  message?: string;
+}
+
+export interface UserSchedulerState {
+  lastRunAt?: string;
+  lastError?: string;
+  events: SchedulerEvent[];
+}
+
+interface SlotRetry {
+  failures: number;
+  nextAttemptAt: string; // ISO timestamp
+}
+
+interface SchedulerState {
+  lastRunAt?: string;
+  users: Record<string, UserSchedulerState>;
+  // Slots that are done, keyed by `${username}|${date}|${tabUniqueId}`; failed slots stay open
+  handledSlots: Record<string, Exclude<SchedulerAction, 'failed'>>;
+  // Failed slots waiting for their next attempt, same keys
+  retries: Record<string, SlotRetry>;
+}
+
+interface AutoOrderSettings extends PlanningPreferences, MealTabSettings {
+  autoOrderEnabled?: boolean;
+  autoOrderLeadMinutes?: number;
+  defaultAddressId?: string;
+  enableWeekends?: boolean;
+}
+
+// ============================================================================
+// State persistence
+// ============================================================================
+
+const readState = async (): Promise<SchedulerState> => {
+  return { users: {}, handledSlots: {}, retries: {}, ...db.get<SchedulerState>(TABLES.jobState, 'scheduler') };
+};
+
+/**
+ * Change the state in a single read-modify-write transaction
+ * A run takes minutes of network calls; writing back a copy read at its start
+ * would drop what other runs or routes wrote in between.
+ */
+const updateState = async (update: (state: SchedulerState) => void) => {
+  await db.transaction(tx => {
+    const state: SchedulerState = { users: {}, handledSlots: {}, retries: {}, ...tx.get<SchedulerState>(TABLES.jobState, 'scheduler') };
+    update(state);
+    tx.put(TABLES.jobState, 'scheduler', state);
+  });
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const getRetryDelayMinutes = (failures: number): number =>
+  Math.min(RETRY_MAX_MINUTES, RETRY_BASE_MINUTES * 2 ** (failures - 1));
+
+/**
+ * Forget slots of past days. Failed entries in handledSlots were written before
+ * failures were retried and would keep their slot from ever being tried again.
+ */
+const pruneSlots = (state: SchedulerState, now: Date) => {
+  const today = formatDate(now);
+  for (const [key, action] of Object.entries(state.handledSlots)) {
+    if (key.split('|')[1] < today || (action as SchedulerAction) === 'failed') {
+      delete state.handledSlots[key];
+    }
+  }
+  for (const key of Object.keys(state.retries)) {
+    if (key.split('|')[1] < today) {
+      delete state.retries[key];
+    }
+  }
+};
+
+// Ordered and skipped slots are done; failed ones are tried again after a backoff
+const applyEvent = (state: SchedulerState, username: string, event: SchedulerEvent, now: Date) => {
+  const userState = state.users[username] ||= { events: [] };
+  userState.events = [event, ...userState.events].slice(0, MAX_EVENTS_PER_USER);
+
+  const key = `${username}|${event.date}|${event.tabUniqueId}`;
+  if (event.action === 'failed') {
+    const failures = (state.retries[key]?.failures ?? 0) + 1;
+    const delayMs = getRetryDelayMinutes(failures) * 60 * 1000;
+    state.retries[key] = { failures, nextAttemptAt: new Date(now.getTime() + delayMs).toISOString() };
+  } else {
+    state.handledSlots[key] = event.action;
+    delete state.retries[key];
+  }
+};
+
+const collectOrderedDishNames = (calendar: CalendarResponse): string[] => {
+  const names: string[] = [];
+  for (const dateItem of calendar.dateList || []) {
+    for (const calItem of dateItem.calendarItemList || []) {
+      for (const restaurantItem of calItem.corpOrderUser?.restaurantItemList || []) {
+        for (const dishItem of restaurantItem.dishItemList || []) {
+          names.push(dishItem.dish.name);
+        }
+      }
+    }
+  }
+  return names;
+};
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+/**
+ * Auto-Order Scheduler
+ * Periodically places orders on behalf of users who opted in (autoOrderEnabled),
+ * for AVAILABLE slots whose close time falls within their lead window.
+ */
+export class AutoOrderScheduler {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static running = false;
+
+  static isEnabled(): boolean {
+    return process.env.SCHEDULER_ENABLED !== 'false';
+  }
+
+  static getIntervalMinutes(): number {
+    const minutes = parseInt(process.env.SCHEDULER_INTERVAL_MINUTES || '', 10);
+    return minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES;
+  }
+
+  /**
+   * Start the periodic timer (no-op if disabled or already running)
+   */
+  static start(): void {
+    if (!this.isEnabled() || this.timer) return;
+
+    const intervalMs = this.getIntervalMinutes() * 60 * 1000;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('[Scheduler] Run failed:', error));
+    }, intervalMs);
+
+    console.log(`[Scheduler] Started, running every ${this.getIntervalMinutes()} minutes`);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Get the persisted state for a single user
+   */
+  static async getUserState(username: string): Promise<UserSchedulerState> {
+    const state = await readState();
+    return state.users[username] || { events: [] };
+  }
+
+  /**
+   * Run a single pass over all opted-in users (or just one user if given)
+   */
+  static async runOnce(onlyUsername?: string, now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      console.log('[Scheduler] Previous run still in progress, skipping');
+      return;
+    }
+    this.running = true;
+
+    try {
+      const allSettings = await readSettings();
+      const userSessions = getLatestUserSessions();
+
+      for (const [username, session] of userSessions.entries()) {
+        if (onlyUsername && username !== onlyUsername) continue;
+
+        const settings: AutoOrderSettings = allSettings[username] || {};
+        if (!settings.autoOrderEnabled) continue;
+
+        let lastError: string | undefined;
+        try {
+          await this.processUser(username, session, settings, now);
+        } catch (error) {
+          console.error(`[Scheduler] Failed to process user ${username}:`, error);
+          lastError = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        await updateState(state => {
+          const userState = state.users[username] ||= { events: [] };
+          userState.lastError = lastError;
+          userState.lastRunAt = now.toISOString();
+        });
+      }
+
+      await updateState(state => {
+        pruneSlots(state, now);
+        state.lastRunAt = now.toISOString();
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private static async processUser(
+    username: string,
+    session: { sessionId: string; cookies: string },
+    settings: AutoOrderSettings,
+    now: Date
+  ): Promise<void> {
+    const auth = createAuthContext(session.cookies, session.sessionId);
+    const leadMinutes = settings.autoOrderLeadMinutes ?? DEFAULT_LEAD_MINUTES;
+    const windowEnd = new Date(now.getTime() + leadMinutes * 60 * 1000);
+
+    // Past orders feed the no-repeat rule; upcoming calendar holds the slots to fill
+    const pastCalendar = await MeicanService.getCalendarItems(
+      formatDate(addDays(now, -HISTORY_DAYS)),
+      formatDate(addDays(now, -1)),
+      auth
+    ) as CalendarResponse;
+    const upcomingCalendar = await MeicanService.getCalendarItems(
+      formatDate(now),
+      formatDate(addDays(now, LOOKAHEAD_DAYS)),
+      auth
+    ) as CalendarResponse;
+
+    const recentDishNames = [
+      ...collectOrderedDishNames(pastCalendar),
+      ...collectOrderedDishNames(upcomingCalendar),
+    ];
+
+    // Slots handled or backing off as of this run; each outcome is saved as soon as it is known
+    const state = await readState();
+    const record = async (event: Omit<SchedulerEvent, 'at'>) => {
+      await updateState(current => applyEvent(current, username, { at: new Date().toISOString(), ...event }, now));
+      console.log(`[Scheduler] ${username} ${event.date} ${event.mealName || event.mealTime}: ${event.action}${event.message ? ` (${event.message})` : ''}`);
+    };
+
+    for (const dateItem of upcomingCalendar.dateList || []) {
+      const dayOfWeek = getDayOfWeek(dateItem.date);
+      if ((dayOfWeek === 0 || dayOfWeek === 6) && !settings.enableWeekends) continue;
+
+      for (const calItem of dateItem.calendarItemList || []) {
+        if (calItem.status !== 'AVAILABLE' || !calItem.userTab?.uniqueId) continue;
+
+        const tabUniqueId = calItem.userTab.uniqueId;
+        const slotKey = `${username}|${dateItem.date}|${tabUniqueId}`;
+        if (state.handledSlots[slotKey]) continue;
+        const retry = state.retries[slotKey];
+        if (retry && new Date(retry.nextAttemptAt) > now) continue;
+
+        const deadline = getDeadline(dateItem.date, calItem.openingTime?.closeTime);
+        if (!deadline || deadline <= now || deadline > windowEnd) continue;
+
+        if (!isMealTabEnabled(settings, calItem)) continue;
+
+        const mealTime = getMealTime(calItem);
+        const slot = { date: dateItem.date, mealTime, mealName: getMealName(calItem), tabUniqueId };
+        const targetTime = getSlotTargetTime(dateItem.date, calItem);
+        if (!targetTime) {
+          // Not something a retry fixes, and no reason to alert
+          await record({ ...slot, action: 'skipped', message: 'No target time in the calendar' });
+          continue;
+        }
+
+        try {
+          const dishes = mealTime === 'BREAKFAST'
+            ? await MeicanService.getRestaurantDishes(tabUniqueId, targetTime, auth)
+            : await MeicanService.getDishes(tabUniqueId, targetTime, auth) as DishesResponse;
+          const menu = dishes.othersRegularDishList || [];
+          if (menu.length === 0) {
+            await record({ ...slot, action: 'skipped', message: 'No dishes available' });
+            continue;
+          }
+
+          const pick = pickDish(menu, settings, recentDishNames);
+          if (!pick) {
+            await record({ ...slot, action: 'skipped', message: 'No dish matches preferences' });
+            continue;
+          }
+
+          const addressId = settings.defaultAddressId
+            || await this.resolveAddressId(calItem.corp?.namespace || '', auth);
+          if (!addressId) {
+            await record({ ...slot, action: 'failed', message: 'No delivery address available' });
+            continue;
+          }
+
+          // The slot may have been ordered from elsewhere since the calendar was fetched
+          const { response: result } = await OrderService.placeOrder({
+            tabUniqueId,
+            ...serializeOrderLines([{ dishId: pick.dish.id, count: 1 }]),
+            targetTime,
+            userAddressUniqueId: addressId,
+            corpAddressUniqueId: addressId,
+          }, auth);
+          if (result.existing) {
+            await record({ ...slot, action: 'skipped', message: 'Already ordered' });
+            continue;
+          }
+
+          const dishInfo = {
+            dishName: pick.dish.name,
+            restaurantName: pick.dish.restaurant?.name,
+            priceInCent: pick.dish.priceInCent,
+          };
+
+          if (result.status === 'SUCCESSFUL') {
+            recentDishNames.push(pick.dish.name);
+            await record({ ...slot, ...dishInfo, action: 'ordered', message: pick.reason });
+          } else {
+            await record({ ...slot, ...dishInfo, action: 'failed', message: result.message || 'Order failed' });
+          }
+        } catch (error) {
+          await record({
+            ...slot,
+            action: 'failed',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+  }
+
+  private static async resolveAddressId(
+    namespace: string,
+    auth: AuthContext
+  ): Promise<string | undefined> {
+    const response = await MeicanService.getAddresses(namespace, auth) as AddressResponse;
+    return response.data?.recentList?.[0]?.uniqueId
+      || response.data?.addressList?.[0]?.finalValue?.uniqueId;
+  }
+}
@@ -0,0 +1,112 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const PREFIX = 'enc:v1';
+const DEFAULT_KEY_FILE = path.join(process.cwd(), 'data', '.secret_key');
+const KDF_SALT = 'meican-secret-box';
+
+// Settings fields holding credentials, sealed at rest
+export const SECRET_SETTING_FIELDS = ['password', 'geminiApiKey', 'customAiApiKey'] as const;
+
+interface KeyEntry {
+  id: string;
+  key: Buffer;
+}
+
+const deriveKey = (secret: string): Buffer => crypto.scryptSync(secret, KDF_SALT, 32);
+
+/**
+ * Load keys from SECRET_KEYS="newId:newSecret,oldId:oldSecret"
+ * The first key seals new values, all keys can open existing ones. Without
+ * SECRET_KEYS a random key is generated once and kept in SECRET_KEY_FILE,
+ * by default data/.secret_key next to the store it protects.
+ */
+const loadKeys = (): KeyEntry[] => {
+  const configured = process.env.SECRET_KEYS;
+  if (configured) {
+    return configured.split(',').map(s => s.trim()).filter(Boolean).map(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error('SECRET_KEYS entries must be formatted as keyId:secret');
+      }
+      return { id: entry.slice(0, separator), key: deriveKey(entry.slice(separator + 1)) };
+    });
+  }
+
+  const keyFile = process.env.SECRET_KEY_FILE || DEFAULT_KEY_FILE;
+  if (!process.env.SECRET_KEY_FILE) {
+    console.warn(
+      '[SecretBox] WARNING: neither SECRET_KEYS nor SECRET_KEY_FILE is set, so the encryption key is kept in ' +
+      'data/.secret_key next to the store. Anyone with a copy of data/ (e.g. a backup) can decrypt the stored ' +
+      'sessions and credentials. Set SECRET_KEYS, or SECRET_KEY_FILE to a path outside data/.'
+    );
+  }
+
+  if (!fs.existsSync(keyFile)) {
+    fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+    fs.writeFileSync(keyFile, crypto.randomBytes(32).toString('base64'), { mode: 0o600 });
+    console.warn(`[SecretBox] Generated a new encryption key in ${keyFile}`);
+  }
+  return [{ id: 'local', key: deriveKey(fs.readFileSync(keyFile, 'utf-8').trim()) }];
+};
+
+/**
+ * Secret Box
+ * AES-256-GCM encryption for secrets stored by the backend.
+ * Sealed values are strings: enc:v1:<keyId>:<iv>:<tag>:<ciphertext> (base64 parts).
+ */
+export class SecretBox {
+  private static keys: KeyEntry[] | null = null;
+
+  private static getKeys(): KeyEntry[] {
+    if (!this.keys) {
+      this.keys = loadKeys();
+      if (this.keys.length === 0) {
+        throw new Error('SECRET_KEYS does not contain any key');
+      }
+    }
+    return this.keys;
+  }
+
+  static isSealed(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+  }
+
+  static seal(plaintext: string): string {
+    const [active] = this.getKeys();
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', active.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return [PREFIX, active.id, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+  }
+
+  /**
+   * Decrypt a sealed value; plaintext from before encryption is returned as-is
+   */
+  static open(value: string): string {
+    if (!this.isSealed(value)) return value;
+
+    const [, , keyId, iv, tag, data] = value.split(':');
+    const entry = this.getKeys().find(k => k.id === keyId);
+    if (!entry) {
+      throw new Error(`No key "${keyId}" in SECRET_KEYS to decrypt a stored secret`);
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', entry.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+  }
+
+  /**
+   * Whether a stored string is plaintext or sealed with a key other than the active one
+   */
+  static needsReseal(value: unknown): boolean {
+    if (typeof value !== 'string' || value === '') return false;
+    return !this.isSealed(value) || value.split(':')[2] !== this.getKeys()[0].id;
+  }
+
+  static reseal(value: string): string {
+    return this.seal(this.open(value));
+  }
+}
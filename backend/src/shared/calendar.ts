@@ -0,0 +1,54 @@
+/**
+ * Meican calendar helpers shared by the browser and the backend: target times and meal tabs
+ * Kept free of imports so the frontend can use it from the backend sources.
+ */
+
+// Meican's times are China Standard Time (Asia/Shanghai: UTC+8, no daylight saving)
+export const MEICAN_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Format an instant as "YYYY-MM-DD HH:mm" in Meican's time zone, the format of its targetTime,
+ * whatever the time zone of the server or browser
+ */
+export const formatMeicanDateTime = (epochMs: number): string =>
+  new Date(epochMs + MEICAN_UTC_OFFSET_MS).toISOString().slice(0, 16).replace('T', ' ');
+
+/**
+ * Parse "YYYY-MM-DD HH:mm" as a time in Meican's time zone, whatever the time zone of
+ * the server or browser. NaN if it is no such time.
+ */
+export const parseMeicanDateTime = (value: string): number =>
+  Date.parse(`${value.replace(' ', 'T')}Z`) - MEICAN_UTC_OFFSET_MS;
+
+// Kind of a meal tab; tabs that are none of the usual three (afternoon tea, overtime meals...) are OTHER
+export type MealTime = 'BREAKFAST' | 'LUNCH' | 'DINNER' | 'OTHER';
+
+// Settings that choose which meal tabs are planned, ordered and reminded
+export interface MealTabSettings {
+  mealTabs?: Record<string, boolean>; // Per tab switch, keyed by userTab.uniqueId
+  enableBreakfast?: boolean; // Default for breakfast tabs without their own switch
+}
+
+/**
+ * Kind of a meal tab from its title or opening time name
+ */
+export const getMealTime = (title?: string, openingName?: string): MealTime => {
+  const name = `${title || ''} ${openingName || ''}`.toLowerCase();
+  if (name.includes('早餐') || name.includes('breakfast')) return 'BREAKFAST';
+  if (name.includes('午餐') || name.includes('lunch')) return 'LUNCH';
+  if (name.includes('晚餐') || name.includes('dinner')) return 'DINNER';
+  return 'OTHER';
+};
+
+/**
+ * Whether a meal tab is switched on. Tabs without their own switch follow
+ * enableBreakfast for breakfast and are on otherwise.
+ */
+export const isMealTabEnabled = (
+  settings: MealTabSettings,
+  slot: { tabUniqueId?: string; mealTime: string }
+): boolean => {
+  const enabled = slot.tabUniqueId ? settings.mealTabs?.[slot.tabUniqueId] : undefined;
+  if (enabled !== undefined) return enabled;
+  return slot.mealTime !== 'BREAKFAST' || !!settings.enableBreakfast;
+};
@@ -0,0 +1,147 @@
+/**
+ * Dish scoring shared by the browser's rule planner and the auto-order scheduler
+ * Kept free of imports so the frontend can use it from the backend sources.
+ */
+
+export type PlanningMode = 'balanced' | 'health' | 'preference';
+
+export interface ScoringDish {
+  name: string;
+  restaurantName: string;
+  priceInCent: number;
+}
+
+export interface ScoringPreferences {
+  excludedKeywords?: string[];
+  vendorWeights?: Record<string, number>;
+  planningMode?: PlanningMode;
+}
+
+// The user's past and planned orders, as far as the caller knows them
+export interface ScoringHistory {
+  restaurantCounts?: Map<string, number>; // Past orders per restaurant
+  dishCounts?: Map<string, number>; // Past orders per dish name
+  recentDishes?: Set<string>; // Dish names ordered in the last days
+  plannedDishes?: Set<string>; // Dish names picked for earlier slots of the same plan
+  previousRestaurant?: string; // Restaurant of the previous slot's pick
+}
+
+// Whether a dish is a light or a heavy meal; callers with nutrition data can judge better than the name
+export interface MealWeight {
+  healthy: boolean;
+  heavy: boolean;
+}
+
+export type ScoreReason =
+  | { type: 'preferredVendor'; weight: number }
+  | { type: 'frequentVendor'; count: number }
+  | { type: 'healthy' }
+  | { type: 'notRecent' };
+
+export interface ScoredDish<T extends ScoringDish> {
+  dish: T;
+  score: number;
+  reasons: ScoreReason[];
+}
+
+// Rough signals for the 'health' mode, matched against dish names
+const HEALTHY_KEYWORDS = ['沙拉', '轻食', '鸡胸', '清蒸', '蒸', '清炒', '杂粮', '糙米', '蔬', '鱼', '虾', 'salad', 'steamed', 'grilled', 'fish', 'vegetable', 'veggie', 'tofu'];
+const HEAVY_KEYWORDS = ['炸', '油', '红烧', '五花', '肥', '奶油', '芝士', '汉堡', 'fried', 'burger', 'cheese', 'cream', 'braised', 'pork belly'];
+
+export const countBy = (values: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return counts;
+};
+
+const matchesAny = (name: string, keywords: string[]) => keywords.some(k => name.includes(k));
+
+export const getMealWeightByName = (name: string): MealWeight => {
+  const lower = name.toLowerCase();
+  return { healthy: matchesAny(lower, HEALTHY_KEYWORDS), heavy: matchesAny(lower, HEAVY_KEYWORDS) };
+};
+
+/**
+ * Whether the exclusion keywords and vendor weights allow a dish at all
+ */
+export const isDishAllowed = (dish: ScoringDish, prefs: ScoringPreferences): boolean => {
+  const name = dish.name.toLowerCase();
+  if ((prefs.excludedKeywords || []).some(k => k.trim() && name.includes(k.trim().toLowerCase()))) return false;
+  return (prefs.vendorWeights?.[dish.restaurantName] ?? 0) >= 0;
+};
+
+/**
+ * Score a dish for a slot from vendor weights, planning mode, history frequency and no-repeat rules
+ * Returns null for dishes the preferences rule out.
+ */
+export const scoreDish = <T extends ScoringDish>(
+  dish: T,
+  prefs: ScoringPreferences,
+  history: ScoringHistory = {},
+  mealWeight: MealWeight = getMealWeightByName(dish.name)
+): ScoredDish<T> | null => {
+  if (!isDishAllowed(dish, prefs)) return null;
+
+  const weight = prefs.vendorWeights?.[dish.restaurantName] ?? 0;
+  let score = weight * 10;
+  const reasons: ScoreReason[] = [];
+  if (weight > 0) reasons.push({ type: 'preferredVendor', weight });
+
+  const restaurantFrequency = history.restaurantCounts?.get(dish.restaurantName) || 0;
+  const dishFrequency = history.dishCounts?.get(dish.name) || 0;
+  const mode = prefs.planningMode || 'balanced';
+
+  if (mode === 'preference') {
+    score += restaurantFrequency * 3 + dishFrequency * 2;
+  } else if (mode === 'health') {
+    score += (mealWeight.healthy ? 8 : 0) - (mealWeight.heavy ? 8 : 0);
+  } else {
+    score += restaurantFrequency * 1.5 + (mealWeight.healthy ? 4 : 0) - (mealWeight.heavy ? 4 : 0);
+  }
+
+  if (mode !== 'health' && restaurantFrequency > 0) {
+    reasons.push({ type: 'frequentVendor', count: restaurantFrequency });
+  }
+  if (mode !== 'preference' && mealWeight.healthy) {
+    reasons.push({ type: 'healthy' });
+  }
+
+  // No-repeat rules
+  const planned = !!history.plannedDishes?.has(dish.name);
+  const recent = !!history.recentDishes?.has(dish.name);
+  if (planned) score -= 20;
+  if (recent) score -= 15;
+  if (dish.restaurantName === history.previousRestaurant) score -= 6;
+  if (!planned && !recent) reasons.push({ type: 'notRecent' });
+
+  return { dish, score, reasons };
+};
+
+/**
+ * Best scoring dish of a menu, or null when the preferences rule out every dish
+ * Ties go to the cheaper dish, then by name for stable output.
+ */
+export const pickBestDish = <T extends ScoringDish>(
+  menu: T[],
+  prefs: ScoringPreferences,
+  history: ScoringHistory = {},
+  getMealWeight?: (dish: T) => MealWeight | undefined
+): ScoredDish<T> | null => {
+  let best: ScoredDish<T> | null = null;
+
+  for (const dish of menu) {
+    const scored = scoreDish(dish, prefs, history, getMealWeight?.(dish));
+    if (!scored) continue;
+
+    if (
+      !best ||
+      scored.score > best.score ||
+      (scored.score === best.score && dish.priceInCent < best.dish.priceInCent) ||
+      (scored.score === best.score && dish.priceInCent === best.dish.priceInCent && dish.name < best.dish.name)
+    ) {
+      best = scored;
+    }
+  }
+
+  return best;
+};
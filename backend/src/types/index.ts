@@ -8,11 +8,38 @@ export interface MeicanCredentials {
 }
 
 export interface CalendarItem {
-  title: string; // "午餐" or "晚餐"
+  title: string; // Name of the meal tab, e.g. "午餐" or "加班餐"
   status: 'CLOSED' | 'ORDER' | 'AVAILABLE';
+  targetTime?: number; // Epoch millis
   userTab: {
     uniqueId: string;
+    name?: string;
   };
+  openingTime?: {
+    name: string;
+    openTime?: string;
+    closeTime?: string; // "HH:mm" or "YYYY-MM-DD HH:mm"
+  };
+  corp?: {
+    namespace?: string;
+  };
+  corpOrderUser?: {
+    uniqueId: string;
+    restaurantItemList: {
+      uniqueId: string;
+      restaurant?: {
+        name: string;
+      };
+      dishItemList: {
+        dish: {
+          id: number;
+          name: string;
+          priceInCent: number;
+        };
+        count: number;
+      }[];
+    }[];
+  } | null;
   order?: {
     uniqueId: string;
     dish: {
@@ -75,9 +102,28 @@ export interface DishesResponse {
   othersRegularDishList: Dish[];
 }
 
+export interface RestaurantMenuItem {
+  id: string;
+  name: string;
+  priceInCent: number;
+  isSection?: boolean; // Heading that groups the dishes after it, not orderable
+}
+
+export interface RestaurantDetailResponse {
+  uniqueId: string;
+  name: string;
+  dishList: RestaurantMenuItem[];
+}
+
+export interface OrderLine {
+  dishId: string | number;
+  count: number;
+  remark?: string;
+}
+
 export interface OrderRequest {
   tabUniqueId: string;
-  order: string; // JSON string: [{"count":1, "dishId": 123}]
+  order: string; // JSON string: [{"count":1, "dishId": 123}, {"count":2, "dishId": 456}]
   remarks: string; // JSON string: [{"dishId":"123", "remark":""}]
   targetTime: string; // YYYY-MM-DD HH:mm
   userAddressUniqueId: string;
@@ -91,6 +137,7 @@ export interface OrderResponse {
     uniqueId: string;
   };
   message?: string;
+  existing?: boolean; // The slot was already ordered, no new order was placed
 }
 
 export interface DeleteOrderRequest {
@@ -0,0 +1,62 @@
+import type { CalendarItem } from '../types';
+import {
+  formatMeicanDateTime,
+  parseMeicanDateTime,
+  getMealTime as getMealTimeByName,
+  isMealTabEnabled as isSlotEnabled,
+  type MealTabSettings,
+  type MealTime,
+} from '../shared/calendar';
+
+export type { MealTabSettings, MealTime };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as YYYY-MM-DD in Meican's time zone, the day Meican's calendar counts it in
+ */
+export const formatDate = (date: Date): string => formatMeicanDateTime(date.getTime()).slice(0, 10);
+
+// Meican's time zone has no daylight saving, so a day is always 24 hours there
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Day of the week of a YYYY-MM-DD date, 0 for Sunday
+ */
+export const getDayOfWeek = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+export const getMealTime = (item: CalendarItem): MealTime =>
+  getMealTimeByName(item.title, item.openingTime?.name);
+
+/**
+ * Display name of a meal tab, e.g. "午餐" or "加班餐"
+ */
+export const getMealName = (item: CalendarItem): string =>
+  item.title || item.openingTime?.name || getMealTime(item);
+
+/**
+ * Whether a calendar item's meal tab is switched on, by the same rules as the browser
+ */
+export const isMealTabEnabled = (settings: MealTabSettings, item: CalendarItem): boolean =>
+  isSlotEnabled(settings, { tabUniqueId: item.userTab?.uniqueId, mealTime: getMealTime(item) });
+
+/**
+ * Parse closeTime ("HH:mm" or "YYYY-MM-DD HH:mm", in Meican's time zone) into a deadline
+ */
+export const getDeadline = (date: string, closeTime?: string): Date | null => {
+  if (!closeTime) return null;
+  const deadline = parseMeicanDateTime(closeTime.includes('-') ? closeTime : `${date} ${closeTime}`);
+  return isNaN(deadline) ? null : new Date(deadline);
+};
+
+/**
+ * Target time Meican expects for a slot's menus and orders, in Meican's time zone.
+ * Each meal tab has its own, so it is read from the calendar item rather than
+ * from the meal time. The close time is no stand-in: ordering for it would
+ * target the wrong delivery, so a slot without one has no target time.
+ */
+export const getSlotTargetTime = (date: string, item: CalendarItem): string | null => {
+  if (item.targetTime) return formatMeicanDateTime(item.targetTime);
+  console.warn(`[Calendar] No targetTime for ${getMealName(item)} on ${date}`);
+  return null;
+};
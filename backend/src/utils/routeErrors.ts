@@ -0,0 +1,48 @@
+import type { Context } from 'hono';
+import { MeicanSessionExpiredError } from '../services/meican';
+import { MeicanTimeoutError, MeicanUnavailableError } from '../services/meicanHttp';
+
+/**
+ * Response to an error any route that calls Meican can run into, or null for other errors
+ * An expired session answers 401 with its code, so the frontend asks the user to log in again.
+ * While the circuit breaker is open the answer is 503 with Retry-After, and a timeout is a 504.
+ */
+export const getMeicanErrorResponse = (c: Context, error: unknown): Response | null => {
+  if (error instanceof MeicanSessionExpiredError) {
+    return c.json({ error: error.message, code: error.code }, 401);
+  }
+  if (error instanceof MeicanUnavailableError) {
+    c.header('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+    return c.json({ error: error.message, code: error.code }, 503);
+  }
+  if (error instanceof MeicanTimeoutError) {
+    return c.json({ error: error.message, code: error.code }, 504);
+  }
+  return null;
+};
+
+/**
+ * Code of an error any route that calls Meican can run into, for answers that carry
+ * it in their body rather than their status (such as the lines of a stream)
+ */
+export const getMeicanErrorCode = (error: unknown): string | undefined => {
+  if (
+    error instanceof MeicanSessionExpiredError ||
+    error instanceof MeicanUnavailableError ||
+    error instanceof MeicanTimeoutError
+  ) {
+    return error.code;
+  }
+  return undefined;
+};
+
+/**
+ * Answer a failed request: Meican errors as by getMeicanErrorResponse,
+ * anything else as a 500 under the given summary
+ */
+export const respondWithError = (c: Context, error: unknown, summary: string): Response => {
+  return getMeicanErrorResponse(c, error) || c.json({
+    error: summary,
+    message: error instanceof Error ? error.message : 'Unknown error',
+  }, 500);
+};
@@ -0,0 +1,73 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { login, requestAs, startFakeMeican, useTestEnvironment } from './helpers';
+
+useTestEnvironment();
+
+const fake = await startFakeMeican();
+const { db, TABLES } = await import('../src/db');
+const { default: app } = await import('../src/app');
+
+let alice: string;
+let bob: string;
+let alicePlanId: string;
+
+before(async () => {
+  alice = await login(app, 'alice', 'meican', '/api/auth');
+  bob = await login(app, 'bob', 'meican', '/api/auth');
+
+  const created = await requestAs(app, alice, 'POST', '/api/plans', { name: 'Alice week', items: [] });
+  alicePlanId = (await created.json()).id;
+  await requestAs(app, alice, 'POST', '/api/settings', { settings: { planningMode: 'health', autoOrderEnabled: true } });
+});
+
+after(() => fake.close());
+
+test('requests without a session get 401 on per-user routes', async () => {
+  for (const [method, path] of [
+    ['GET', '/api/settings'],
+    ['POST', '/api/settings'],
+    ['GET', '/api/plans'],
+    ['GET', `/api/plans/${alicePlanId}`],
+    ['DELETE', `/api/plans/${alicePlanId}`],
+    ['GET', '/api/scheduler/status'],
+    ['POST', '/api/scheduler/run'],
+    ['POST', '/api/notifications/test'],
+  ] as const) {
+    const response = await requestAs(app, undefined, method, path, method === 'GET' ? undefined : {});
+    assert.equal(response.status, 401, `${method} ${path}`);
+  }
+});
+
+test('another user cannot read, update or delete a plan', async () => {
+  assert.equal((await requestAs(app, bob, 'GET', `/api/plans/${alicePlanId}`)).status, 403);
+  assert.equal((await requestAs(app, bob, 'PUT', `/api/plans/${alicePlanId}`, { items: [{ dish: 'x' }] })).status, 403);
+  assert.equal((await requestAs(app, bob, 'DELETE', `/api/plans/${alicePlanId}`)).status, 403);
+
+  const list = await (await requestAs(app, bob, 'GET', '/api/plans')).json();
+  assert.deepEqual(list.plans, []);
+
+  const plan = await (await requestAs(app, alice, 'GET', `/api/plans/${alicePlanId}`)).json();
+  assert.equal(plan.versions.length, 1);
+});
+
+test('settings are read and written for the session\'s user only', async () => {
+  const bobSettings = await (await requestAs(app, bob, 'GET', '/api/settings')).json();
+  assert.equal(bobSettings.planningMode, undefined);
+
+  assert.equal((await requestAs(app, bob, 'GET', '/api/settings?username=alice')).status, 403);
+  const overwrite = await requestAs(app, bob, 'POST', '/api/settings', { username: 'alice', settings: { planningMode: 'preference' } });
+  assert.equal(overwrite.status, 403);
+
+  await requestAs(app, bob, 'POST', '/api/settings', { settings: { planningMode: 'preference' } });
+  assert.equal(db.get<Record<string, unknown>>(TABLES.settings, 'alice')!.planningMode, 'health');
+  assert.equal(db.get<Record<string, unknown>>(TABLES.settings, 'bob')!.planningMode, 'preference');
+});
+
+test('scheduler status and runs are per user', async () => {
+  assert.equal((await requestAs(app, bob, 'GET', '/api/scheduler/status?username=alice')).status, 403);
+  assert.equal((await requestAs(app, bob, 'POST', '/api/scheduler/run', { username: 'alice' })).status, 403);
+
+  const status = await (await requestAs(app, bob, 'GET', '/api/scheduler/status')).json();
+  assert.equal(status.autoOrderEnabled, false);
+});
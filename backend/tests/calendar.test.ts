@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getMealTime, getSlotTargetTime, isMealTabEnabled } from '../src/utils/calendar';
+import type { CalendarItem } from '../src/types';
+
+const item = (fields: Partial<CalendarItem>): CalendarItem => ({
+  title: '午餐',
+  status: 'AVAILABLE',
+  userTab: { uniqueId: 'tab-lunch' },
+  ...fields,
+});
+
+test('target times are formatted in Meican\'s time zone, whatever the server\'s', () => {
+  const targetTime = Date.parse('2026-10-19T09:00:00+08:00');
+  assert.equal(getSlotTargetTime('2026-10-19', item({ targetTime })), '2026-10-19 09:00');
+
+  // Late evening in Shanghai is still the same day there
+  assert.equal(getSlotTargetTime('2026-10-19', item({ targetTime: Date.parse('2026-10-19T23:30:00+08:00') })), '2026-10-19 23:30');
+});
+
+test('a slot without a target time has none, rather than its close time', () => {
+  const slot = item({ openingTime: { name: '午餐', closeTime: '2026-10-19 10:30' } });
+  assert.equal(getSlotTargetTime('2026-10-19', slot), null);
+});
+
+test('meal tabs follow their own switch, else breakfast is off and the rest on', () => {
+  const breakfast = item({ title: '早餐', userTab: { uniqueId: 'tab-breakfast' } });
+  const overtime = item({ title: '加班餐', userTab: { uniqueId: 'tab-overtime' } });
+  assert.equal(getMealTime(overtime), 'OTHER');
+
+  assert.equal(isMealTabEnabled({}, breakfast), false);
+  assert.equal(isMealTabEnabled({ enableBreakfast: true }, breakfast), true);
+  assert.equal(isMealTabEnabled({ mealTabs: { 'tab-breakfast': true } }, breakfast), true);
+  assert.equal(isMealTabEnabled({}, overtime), true);
+  assert.equal(isMealTabEnabled({ mealTabs: { 'tab-overtime': false }, enableBreakfast: true }, overtime), false);
+});
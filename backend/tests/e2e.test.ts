@@ -0,0 +1,80 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { login, requestAs, startFakeMeican, useTestEnvironment } from './helpers';
+import type { CalendarResponse } from '../src/types';
+
+useTestEnvironment();
+
+// A Monday morning: lunch is open until 10:30
+const clock = new Date('2026-10-19T08:00:00+08:00');
+const fake = await startFakeMeican({ now: () => clock });
+const { default: app } = await import('../src/app');
+const { getSlotTargetTime } = await import('../src/utils/calendar');
+
+after(() => fake.close());
+
+const readLunch = async (sessionId: string) => {
+  const response = await requestAs(app, sessionId, 'GET', '/api/calendarItems/list?beginDate=2026-10-19&endDate=2026-10-19');
+  assert.equal(response.status, 200);
+  const calendar = await response.json() as CalendarResponse;
+  return calendar.dateList[0].calendarItemList.find(item => item.userTab.uniqueId === 'fake-tab-lunch')!;
+};
+
+test('log in, fetch the menus, place an order and cancel it through the backend routes', async () => {
+  const sessionId = await login(app, 'alice', 'meican', '/api/auth');
+
+  const lunch = await readLunch(sessionId);
+  assert.equal(lunch.status, 'AVAILABLE');
+  const targetTime = getSlotTargetTime('2026-10-19', lunch)!;
+
+  // The planner's batch menu fetch, one NDJSON line per slot
+  const menus = await requestAs(app, sessionId, 'POST', '/api/menus/week', {
+    slots: [{ tabUniqueId: lunch.userTab.uniqueId, targetTime }],
+  });
+  assert.equal(menus.status, 200);
+  const lines = (await menus.text()).trim().split('\n').map(line => JSON.parse(line));
+  assert.equal(lines[0].ok, true);
+  assert.deepEqual(lines.at(-1), { type: 'done', total: 1, failed: 0 });
+  const dish = lines[0].data.othersRegularDishList[0];
+
+  const addresses = await (await requestAs(app, sessionId, 'GET', `/api/corpaddresses/getmulticorpaddress?namespace=${lunch.corp?.namespace ?? ''}`)).json();
+  const addressId = addresses.data.addressList[0].finalValue.uniqueId;
+
+  const placed = await (await requestAs(app, sessionId, 'POST', '/api/orders/add', {
+    tabUniqueId: lunch.userTab.uniqueId,
+    order: [{ dishId: dish.id, count: 2 }],
+    remarks: [{ dishId: String(dish.id), remark: '少辣' }],
+    targetTime,
+    userAddressUniqueId: addressId,
+    corpAddressUniqueId: addressId,
+  })).json();
+  assert.equal(placed.status, 'SUCCESSFUL');
+
+  const ordered = await readLunch(sessionId);
+  assert.equal(ordered.status, 'ORDER');
+  assert.equal(ordered.corpOrderUser?.uniqueId, placed.order.uniqueId);
+  assert.deepEqual(
+    ordered.corpOrderUser?.restaurantItemList.flatMap(item => item.dishItemList.map(line => [line.dish.id, line.count])),
+    [[dish.id, 2]]
+  );
+
+  const cancelled = await (await requestAs(app, sessionId, 'POST', '/api/orders/delete', { uniqueId: placed.order.uniqueId })).json();
+  assert.equal(cancelled.status, 'SUCCESSFUL');
+  assert.equal((await readLunch(sessionId)).status, 'AVAILABLE');
+});
+
+test('a breakfast menu leaves out a restaurant whose menu fails to load', async () => {
+  const sessionId = await login(app, 'bob', 'meican', '/api/auth');
+  const slot = { tabUniqueId: 'fake-tab-breakfast', targetTime: '2026-10-20 07:00', byRestaurant: true };
+  const query = new URLSearchParams({ tabUniqueId: slot.tabUniqueId, targetTime: slot.targetTime }).toString();
+  const { restaurantList } = await (await requestAs(app, sessionId, 'GET', `/api/restaurants/list?${query}`)).json();
+  assert.ok(restaurantList.length > 1);
+
+  await fake.app.request('/__fake/fail?count=1&status=500&path=/restaurants/show', { method: 'POST' });
+  const menus = await requestAs(app, sessionId, 'POST', '/api/menus/week', { slots: [slot] });
+  const [line] = (await menus.text()).trim().split('\n').map(l => JSON.parse(l));
+  assert.equal(line.ok, true);
+
+  const restaurants = new Set(line.data.othersRegularDishList.map((dish: { restaurant: { uniqueId: string } }) => dish.restaurant.uniqueId));
+  assert.equal(restaurants.size, restaurantList.length - 1);
+});
@@ -0,0 +1,54 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { login, requestAs, startFakeMeican, useTestEnvironment } from './helpers';
+
+useTestEnvironment();
+
+const fake = await startFakeMeican();
+const { default: app } = await import('../src/app');
+
+let sessionId: string;
+
+before(async () => {
+  sessionId = await login(app, 'alice', 'meican', '/api/auth');
+});
+
+after(() => fake.close());
+
+test('an expired Meican session answers 401 with its code on every route', async () => {
+  await fake.app.request('/__fake/expire-sessions', { method: 'POST' });
+
+  for (const [method, path, body] of [
+    ['GET', '/api/calendarItems/list?beginDate=2026-10-19&endDate=2026-10-25'],
+    ['GET', '/api/corpaddresses/getmulticorpaddress'],
+    ['POST', '/api/orders/delete', { uniqueId: 'fake-order-1' }],
+  ] as const) {
+    const response = await requestAs(app, sessionId, method, path, body);
+    assert.equal(response.status, 401, path);
+    assert.equal((await response.json()).code, 'SESSION_EXPIRED');
+  }
+});
+
+test('rate limiting opens the circuit, which answers 503 with Retry-After', async () => {
+  process.env.MEICAN_CIRCUIT_THRESHOLD = '2';
+  await fake.app.request('/__fake/fail?count=2&status=429', { method: 'POST' });
+  const path = '/api/corpaddresses/getmulticorpaddress';
+
+  assert.equal((await requestAs(app, sessionId, 'GET', path)).status, 500);
+  assert.equal((await requestAs(app, sessionId, 'GET', path)).status, 500);
+
+  const response = await requestAs(app, sessionId, 'GET', path);
+  assert.equal(response.status, 503);
+  assert.ok(Number(response.headers.get('Retry-After')) > 0);
+  assert.equal((await response.json()).code, 'MEICAN_UNAVAILABLE');
+});
+
+test('menu stream lines carry the code of a Meican outage', async () => {
+  // The circuit opened by the test above is still open
+  const response = await requestAs(app, sessionId, 'POST', '/api/menus/week', {
+    slots: [{ tabUniqueId: 'fake-tab-lunch', targetTime: '2026-10-19 09:00' }],
+  });
+  const [line] = (await response.text()).trim().split('\n').map(text => JSON.parse(text));
+  assert.equal(line.ok, false);
+  assert.equal(line.code, 'MEICAN_UNAVAILABLE');
+});
@@ -0,0 +1,90 @@
+/**
+ * Test helpers
+ * Each test file runs in its own process. Call useTestEnvironment before
+ * importing anything that opens the store (src/db is opened on import), then
+ * import the backend modules dynamically.
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { serve } from '@hono/node-server';
+import { createFakeMeican, type FakeMeicanOptions } from '../src/dev/fakeMeican';
+
+/**
+ * Run the backend in an empty data directory, without the daemon and without retry delays
+ */
+export const useTestEnvironment = () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'meican-test-'));
+  process.chdir(dataDir);
+  process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));
+  process.env.SECRET_KEYS = 'test:test-secret';
+  process.env.SCHEDULER_ENABLED = 'false';
+  process.env.REMINDERS_ENABLED = 'false';
+  process.env.MEICAN_MAX_RETRIES = '0';
+  return dataDir;
+};
+
+/**
+ * Serve a Hono app on a free local port
+ */
+export const startServer = async (app: { fetch: (request: Request) => Response | Promise<Response> }) => {
+  let server!: ReturnType<typeof serve>;
+  const port = await new Promise<number>(resolve => {
+    server = serve({ fetch: app.fetch, port: 0 }, info => resolve(info.port));
+  });
+  return {
+    host: `127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+/**
+ * Serve a fake Meican on a free port and point the backend at it
+ */
+export const startFakeMeican = async (options: FakeMeicanOptions = {}) => {
+  const app = createFakeMeican(options);
+  const server = await startServer(app);
+  process.env.MEICAN_BASE_URL = `http://${server.host}/preorder/api/v2.1`;
+
+  return {
+    app,
+    // Orders per user, as the fake keeps them
+    getOrders: async (): Promise<Record<string, { uniqueId: string; date: string; tabUniqueId: string }[]>> =>
+      (await (await app.request('/__fake/state')).json()).users,
+    close: server.close,
+  };
+};
+
+// A Hono app, or a route module, to send requests to
+type RequestTarget = { request: (path: string, init?: RequestInit) => Response | Promise<Response> };
+
+/**
+ * Send a request with a JSON body, as the given session (or without one)
+ */
+export const requestAs = (
+  target: RequestTarget,
+  sessionId: string | undefined,
+  method: string,
+  path: string,
+  body?: unknown
+) => target.request(path, {
+  method,
+  headers: {
+    'Content-Type': 'application/json',
+    ...(sessionId ? { 'X-Session-Id': sessionId } : {}),
+  },
+  body: body === undefined ? undefined : JSON.stringify(body),
+});
+
+/**
+ * Log in through the backend's auth route and return the session id
+ * Works on the whole app (path prefix /api/auth) or on the auth routes alone.
+ */
+export const login = async (target: RequestTarget, username: string, password = 'meican', prefix = ''): Promise<string> => {
+  const response = await requestAs(target, undefined, 'POST', `${prefix}/login`, { username, password });
+  const body = await response.json();
+  if (!body.sessionId) {
+    throw new Error(`Login failed: ${JSON.stringify(body)}`);
+  }
+  return body.sessionId;
+};
@@ -0,0 +1,78 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { login, requestAs, startFakeMeican, useTestEnvironment } from './helpers';
+
+useTestEnvironment();
+
+// A Monday morning: lunch is open until 10:30
+const clock = new Date('2026-10-19T08:00:00+08:00');
+const fake = await startFakeMeican({ now: () => clock });
+const { default: app } = await import('../src/app');
+
+const LUNCH = { tabUniqueId: 'fake-tab-lunch', targetTime: '2026-10-19 09:00' };
+
+let sessionId: string;
+let dishIds: number[];
+
+const orderBody = (dishId: number) => ({
+  ...LUNCH,
+  order: [{ dishId, count: 1 }],
+  remarks: [],
+  userAddressUniqueId: 'fake-addr-1',
+  corpAddressUniqueId: 'fake-addr-1',
+});
+
+const lunchOrders = async () =>
+  (await fake.getOrders()).alice.filter(order => order.date === '2026-10-19' && order.tabUniqueId === LUNCH.tabUniqueId);
+
+before(async () => {
+  sessionId = await login(app, 'alice', 'meican', '/api/auth');
+  const query = new URLSearchParams(LUNCH).toString();
+  const menu = await (await requestAs(app, sessionId, 'GET', `/api/recommendations/dishes?${query}`)).json();
+  dishIds = menu.othersRegularDishList.map((dish: { id: number }) => dish.id);
+});
+
+after(() => fake.close());
+
+test('an idempotency key is only replayed while its order is still the slot\'s', async () => {
+  const body = { ...orderBody(dishIds[0]), idempotencyKey: 'order-key-1' };
+
+  const placed = await (await requestAs(app, sessionId, 'POST', '/api/orders/add', body)).json();
+  assert.equal(placed.status, 'SUCCESSFUL');
+
+  const replayed = await requestAs(app, sessionId, 'POST', '/api/orders/add', body);
+  assert.equal(replayed.headers.get('Idempotent-Replayed'), 'true');
+  assert.equal((await replayed.json()).order.uniqueId, placed.order.uniqueId);
+  assert.equal((await lunchOrders()).length, 1);
+
+  // Cancelled meanwhile, e.g. on Meican itself: the stored result no longer holds
+  await requestAs(app, sessionId, 'POST', '/api/orders/delete', { uniqueId: placed.order.uniqueId });
+  const again = await requestAs(app, sessionId, 'POST', '/api/orders/add', body);
+  assert.equal(again.headers.get('Idempotent-Replayed'), null);
+  const reordered = await again.json();
+  assert.equal(reordered.status, 'SUCCESSFUL');
+  assert.notEqual(reordered.order.uniqueId, placed.order.uniqueId);
+  assert.equal((await lunchOrders()).length, 1);
+});
+
+test('a replacement that times out but was placed is reported as placed, and replayed by its key', async () => {
+  const [original] = await lunchOrders();
+  const body = { ...orderBody(dishIds[1]), oldOrderUniqueId: original.uniqueId, idempotencyKey: 'replace-key-1' };
+
+  process.env.MEICAN_TIMEOUT_MS = '200';
+  await fake.app.request('/__fake/slow?path=/orders/add&ms=500', { method: 'POST' });
+  const replaced = await (await requestAs(app, sessionId, 'POST', '/api/orders/replace', body)).json();
+  delete process.env.MEICAN_TIMEOUT_MS;
+
+  const orders = await lunchOrders();
+  assert.equal(orders.length, 1);
+  assert.equal(replaced.status, 'SUCCESSFUL');
+  assert.equal(replaced.order.uniqueId, orders[0].uniqueId);
+  assert.equal(replaced.replacedOrderId, original.uniqueId);
+
+  // Sent again, e.g. after the browser gave up waiting: the old order is gone, but this is no conflict
+  const again = await requestAs(app, sessionId, 'POST', '/api/orders/replace', body);
+  assert.equal(again.status, 200);
+  assert.equal(again.headers.get('Idempotent-Replayed'), 'true');
+  assert.equal((await again.json()).order.uniqueId, orders[0].uniqueId);
+});
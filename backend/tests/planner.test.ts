@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pickDish } from '../src/services/planner';
+import { pickBestDish } from '../src/shared/dishScoring';
+
+const dish = (name: string, restaurant: string, priceInCent = 2000) => ({
+  id: name,
+  name,
+  priceInCent,
+  restaurant: { uniqueId: restaurant, name: restaurant },
+});
+
+test('excluded keywords and negative vendor weights rule dishes out', () => {
+  const menu = [dish('香菜牛肉饭', 'A'), dish('宫保鸡丁', 'B'), dish('番茄炒蛋', 'C')];
+  const pick = pickDish(menu, { excludedKeywords: ['香菜'], vendorWeights: { B: -1 } });
+  assert.equal(pick?.dish.name, '番茄炒蛋');
+
+  assert.equal(pickDish(menu.slice(0, 2), { excludedKeywords: ['香菜'], vendorWeights: { B: -1 } }), null);
+});
+
+test('vendor weights win, and recent dishes lose', () => {
+  const menu = [dish('红烧肉', 'A'), dish('鸡腿饭', 'B')];
+  assert.equal(pickDish(menu, { vendorWeights: { A: 2 } })?.dish.name, '红烧肉');
+  assert.equal(pickDish(menu, { vendorWeights: { A: 1 } }, ['红烧肉'])?.dish.name, '鸡腿饭');
+});
+
+test('the scheduler picks what the browser\'s rule planner would pick', () => {
+  const menu = [dish('炸鸡排饭', 'A', 2500), dish('清蒸鱼', 'B', 2600), dish('牛肉面', 'C', 2000)];
+  const prefs = { planningMode: 'health' as const, vendorWeights: { C: 1 } };
+
+  const browser = pickBestDish(
+    menu.map(d => ({ ...d, restaurantName: d.restaurant.name })),
+    prefs,
+    { recentDishes: new Set(['牛肉面']), dishCounts: new Map([['牛肉面', 1]]) }
+  );
+  assert.equal(pickDish(menu, prefs, ['牛肉面'])?.dish.name, browser?.dish.name);
+  assert.equal(browser?.dish.name, '清蒸鱼');
+});
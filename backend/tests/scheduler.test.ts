@@ -0,0 +1,124 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { login, startFakeMeican, useTestEnvironment } from './helpers';
+
+useTestEnvironment();
+
+// A Monday morning: lunch closes at 10:30, within the lead window; dinner at 16:00 is not
+let clock = new Date('2026-10-19T08:00:00+08:00');
+const minutesLater = (minutes: number) => new Date(clock.getTime() + minutes * 60 * 1000);
+
+const fake = await startFakeMeican({ now: () => clock });
+const { db, TABLES } = await import('../src/db');
+const { default: authRoutes } = await import('../src/routes/auth');
+const { AutoOrderScheduler } = await import('../src/services/scheduler');
+
+const LUNCH_KEY = 'alice|2026-10-19|fake-tab-lunch';
+
+const saveSettings = (settings: Record<string, unknown>) =>
+  db.transaction(tx => tx.put(TABLES.settings, 'alice', settings));
+
+const readState = () => db.get<{
+  handledSlots: Record<string, string>;
+  retries: Record<string, { failures: number; nextAttemptAt: string }>;
+}>(TABLES.jobState, 'scheduler')!;
+
+const lunchOrders = async () =>
+  (await fake.getOrders()).alice.filter(order => order.date === '2026-10-19' && order.tabUniqueId === 'fake-tab-lunch');
+
+before(async () => {
+  await login(authRoutes, 'alice');
+});
+
+after(() => fake.close());
+
+test('a failed order is retried after a backoff instead of being marked handled', async () => {
+  // Meican rejects the unknown address
+  await saveSettings({ autoOrderEnabled: true, autoOrderLeadMinutes: 180, defaultAddressId: 'fake-addr-unknown' });
+  await AutoOrderScheduler.runOnce(undefined, clock);
+
+  let state = readState();
+  assert.equal(state.handledSlots[LUNCH_KEY], undefined);
+  assert.equal(state.retries[LUNCH_KEY].failures, 1);
+  assert.equal((await AutoOrderScheduler.getUserState('alice')).events[0].action, 'failed');
+  assert.equal((await lunchOrders()).length, 0);
+
+  await saveSettings({ autoOrderEnabled: true, autoOrderLeadMinutes: 180, defaultAddressId: 'fake-addr-1' });
+
+  // Still backing off
+  clock = minutesLater(2);
+  await AutoOrderScheduler.runOnce(undefined, clock);
+  assert.equal((await lunchOrders()).length, 0);
+
+  clock = minutesLater(4);
+  await AutoOrderScheduler.runOnce(undefined, clock);
+  state = readState();
+  assert.equal(state.handledSlots[LUNCH_KEY], 'ordered');
+  assert.equal(state.retries[LUNCH_KEY], undefined);
+  assert.equal((await lunchOrders()).length, 1);
+});
+
+test('a handled slot is not ordered again', async () => {
+  clock = minutesLater(10);
+  await AutoOrderScheduler.runOnce(undefined, clock);
+  assert.equal((await lunchOrders()).length, 1);
+});
+
+test('backoff grows with each failure', async () => {
+  await saveSettings({ autoOrderEnabled: true, autoOrderLeadMinutes: 600, defaultAddressId: 'fake-addr-unknown' });
+  const dinnerKey = 'alice|2026-10-19|fake-tab-dinner';
+
+  await AutoOrderScheduler.runOnce(undefined, clock);
+  const first = readState().retries[dinnerKey];
+  assert.equal(first.failures, 1);
+
+  clock = new Date(first.nextAttemptAt);
+  await AutoOrderScheduler.runOnce(undefined, clock);
+  const second = readState().retries[dinnerKey];
+  assert.equal(second.failures, 2);
+  assert.equal(new Date(second.nextAttemptAt).getTime() - clock.getTime(), 10 * 60 * 1000);
+});
+
+test('slots of past days are forgotten', async () => {
+  clock = new Date('2026-10-20T08:00:00+08:00');
+  await AutoOrderScheduler.runOnce(undefined, clock);
+
+  const state = readState();
+  assert.ok(Object.keys(state.handledSlots).every(key => !key.includes('2026-10-19')));
+  assert.ok(Object.keys(state.retries).every(key => !key.includes('2026-10-19')));
+});
+
+test('state written by others during a run is kept', async () => {
+  const run = AutoOrderScheduler.runOnce(undefined, clock);
+  // Lands while the run waits on Meican
+  await db.transaction(tx => {
+    const state = tx.get<{ handledSlots: Record<string, string> }>(TABLES.jobState, 'scheduler')!;
+    state.handledSlots['bob|2026-10-21|fake-tab-lunch'] = 'skipped';
+    tx.put(TABLES.jobState, 'scheduler', state);
+  });
+  await run;
+
+  assert.equal(readState().handledSlots['bob|2026-10-21|fake-tab-lunch'], 'skipped');
+});
+
+test('close times are Meican\'s, whatever the server\'s time zone', async () => {
+  await login(authRoutes, 'carol');
+  await db.transaction(tx => tx.put(TABLES.settings, 'carol', { autoOrderEnabled: true, autoOrderLeadMinutes: 60, defaultAddressId: 'fake-addr-1' }));
+
+  const serverZone = process.env.TZ;
+  try {
+    for (const [zone, date] of [['UTC', '2026-10-21'], ['America/Los_Angeles', '2026-10-22'], ['Asia/Tokyo', '2026-10-23']]) {
+      process.env.TZ = zone;
+      // 45 minutes before lunch closes at 10:30 in Shanghai
+      clock = new Date(`${date}T09:45:00+08:00`);
+      await AutoOrderScheduler.runOnce('carol', clock);
+
+      assert.equal(readState().handledSlots[`carol|${date}|fake-tab-lunch`], 'ordered', zone);
+      const orders = (await fake.getOrders()).carol.filter(order => order.date === date);
+      assert.deepEqual(orders.map(order => order.tabUniqueId), ['fake-tab-lunch'], zone);
+    }
+  } finally {
+    if (serverZone === undefined) delete process.env.TZ;
+    else process.env.TZ = serverZone;
+  }
+});
@@ -0,0 +1,51 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { login, requestAs, startFakeMeican, useTestEnvironment } from './helpers';
+
+useTestEnvironment();
+
+const fake = await startFakeMeican();
+const { db, TABLES } = await import('../src/db');
+const { default: app } = await import('../src/app');
+
+let sessionId: string;
+
+before(async () => {
+  sessionId = await login(app, 'alice', 'meican', '/api/auth');
+});
+
+after(() => fake.close());
+
+test('stored credentials are sealed and never sent back', async () => {
+  const saved = await requestAs(app, sessionId, 'POST', '/api/settings', {
+    settings: { geminiApiKey: 'gemini-secret', customAiApiKey: '', planningMode: 'health' },
+  });
+  assert.equal(saved.status, 200);
+
+  const stored = db.get<Record<string, string>>(TABLES.settings, 'alice')!;
+  assert.match(stored.geminiApiKey, /^enc:v1:/);
+
+  const body = await (await requestAs(app, sessionId, 'GET', '/api/settings')).json();
+  assert.equal(body.planningMode, 'health');
+  assert.equal(body.geminiApiKey, undefined);
+  assert.equal(body.customAiApiKey, undefined);
+  assert.equal(body.password, undefined);
+  assert.deepEqual(body.savedSecrets, { password: false, geminiApiKey: true, customAiApiKey: false });
+});
+
+test('the secret flags are not saved back', async () => {
+  await requestAs(app, sessionId, 'POST', '/api/settings', {
+    settings: { savedSecrets: { geminiApiKey: true }, planningMode: 'balanced' },
+  });
+  const stored = db.get<Record<string, unknown>>(TABLES.settings, 'alice')!;
+  assert.equal(stored.savedSecrets, undefined);
+  assert.equal(stored.planningMode, 'balanced');
+});
+
+test('an empty credential removes the stored one', async () => {
+  await requestAs(app, sessionId, 'POST', '/api/settings', { settings: { password: 'meican' } });
+  assert.match(db.get<Record<string, string>>(TABLES.settings, 'alice')!.password, /^enc:v1:/);
+
+  await requestAs(app, sessionId, 'POST', '/api/settings', { settings: { password: '' } });
+  assert.equal(db.get<Record<string, string>>(TABLES.settings, 'alice')!.password, undefined);
+});
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AccountProfile, listAccounts } from '../services/db';
+
+interface Props {
+  onSwitch: (username: string) => void;
+  onAdd: () => void;
+  onRemove: (username: string) => void;
+}
+
+/**
+ * Other accounts stored in this browser, for the user menu
+ */
+const AccountSwitcher: React.FC<Props> = ({ onSwitch, onAdd, onRemove }) => {
+  const { t } = useTranslation();
+  const [accounts, setAccounts] = useState<AccountProfile[]>([]);
+
+  useEffect(() => {
+    listAccounts().then(setAccounts);
+  }, []);
+
+  const others = accounts.filter(account => !account.active);
+
+  return (
+    <div className="border-b border-white/5 py-1">
+      {others.length > 0 && (
+        <p className="px-4 pt-2 pb-1 text-xs text-gray-500">{t('accounts.switchTo')}</p>
+      )}
+      {others.map(account => (
+        <div key={account.username} className="group flex items-center hover:bg-white/5 transition-colors">
+          <button
+            onClick={() => onSwitch(account.username)}
+            className="flex-1 min-w-0 text-left px-4 py-2 text-sm text-gray-300 flex items-center gap-2"
+          >
+            <span className={`w-2 h-2 rounded-full shrink-0 ${account.loggedIn ? 'bg-[#6FB92D]' : 'bg-gray-600'}`} title={account.loggedIn ? t('accounts.loggedIn') : t('accounts.loggedOut')} />
+            <span className="truncate">{account.username}</span>
+          </button>
+          <button
+            onClick={() => {
+              onRemove(account.username);
+              setAccounts(prev => prev.filter(a => a.username !== account.username));
+            }}
+            title={t('accounts.remove')}
+            className="px-3 py-2 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={onAdd}
+        className="w-full text-left px-4 py-2 text-sm text-gray-400 hover:text-[#6FB92D] hover:bg-white/5 transition-colors"
+      >
+        + {t('accounts.add')}
+      </button>
+    </div>
+  );
+};
+
+export default AccountSwitcher;
@@ -1,8 +1,10 @@
-import React, { useEffect, useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { AnalysisResult, HistoricalOrder, UserPreferences } from '../types';
-import { getOrderHistory } from '../services/db';
+import { AnalysisResult, UserPreferences } from '../types';
+import { useFillNutrition, useNutritionRecords, useSyncedOrderHistory, useSyncOrderHistory } from '../hooks/useMeican';
 import { GeminiService } from '../services/geminiService';
+import { getDailyNutrition } from '../services/nutrition';
+import NutritionTable from './NutritionTable';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 
 interface Props {
@@ -16,23 +18,32 @@ import { motion } from 'framer-motion';
 
 const AnalysisPanel: React.FC<Props> = ({ prefs, onClose }) => {
   const { t, i18n } = useTranslation();
-  const [history, setHistory] = useState<HistoricalOrder[]>([]);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [loading, setLoading] = useState(false);
-  const [historyLoading, setHistoryLoading] = useState(true);
+  const { data: synced, isLoading: historyLoading } = useSyncedOrderHistory(prefs);
+  const syncMutation = useSyncOrderHistory();
+  const { data: nutrition = [] } = useNutritionRecords(prefs);
+  const fillNutrition = useFillNutrition();
+  const history = synced?.orders || [];
+  const syncState = synced?.state;
 
-  useEffect(() => {
-    setHistoryLoading(true);
-    getOrderHistory(prefs)
-      .then(setHistory)
-      .finally(() => setHistoryLoading(false));
-  }, [prefs]);
+  // Charted from the nutrition store, so the numbers only change when a dish is corrected
+  const calorieTrend = useMemo(() => getDailyNutrition(history, nutrition), [history, nutrition]);
+  const hasNutrition = calorieTrend.some(day => day.calories > 0);
 
   const runAnalysis = async () => {
     setLoading(true);
     try {
+      // Dishes are estimated once; later reports reuse the stored values. If estimating
+      // fails (no key, quota, network) the report and charts go by the stored records.
+      let records = nutrition;
+      try {
+        ({ records } = await fillNutrition.mutateAsync({ dishes: history, prefs }));
+      } catch (e) {
+        console.warn("Nutrition estimate failed, using the stored records:", e);
+      }
       const ai = new GeminiService();
-      const res = await ai.analyzeHistory(history, prefs, i18n.language);
+      const res = await ai.analyzeHistory(history, prefs, i18n.language, records);
       setResult(res);
     } catch (e) {
       console.error("Analysis Failed:", e);
@@ -62,6 +73,26 @@ const AnalysisPanel: React.FC<Props> = ({ prefs, onClose }) => {
               )}
             </div>
             <p className="text-gray-400 mt-2 text-lg">{t('analysis.subtitle', { count: history.length })}</p>
+            {!!prefs.sessionId && (
+              <div className="flex items-center gap-3 mt-1 text-xs">
+                <span className={syncState?.lastError ? 'text-red-400' : 'text-gray-500'} title={syncState?.lastError}>
+                  {syncMutation.isPending
+                    ? t('analysis.syncing')
+                    : syncState?.lastError
+                      ? t('analysis.syncFailed')
+                      : syncState?.lastSyncAt
+                        ? t('analysis.lastSynced', { time: new Date(syncState.lastSyncAt).toLocaleString() })
+                        : t('analysis.neverSynced')}
+                </span>
+                <button
+                  onClick={() => syncMutation.mutate(prefs)}
+                  disabled={syncMutation.isPending || historyLoading}
+                  className="text-[#6FB92D] hover:underline disabled:opacity-50"
+                >
+                  {t('analysis.syncNow')}
+                </button>
+              </div>
+            )}
           </div>
           <button onClick={onClose} className="text-gray-400 hover:text-white hover:bg-[#252525] px-4 md:px-6 py-2 md:py-3 rounded-full border border-transparent hover:border-[#333] transition-all text-sm md:text-base">{t('analysis.backToDashboard')}</button>
         </div>
@@ -168,32 +199,45 @@ const AnalysisPanel: React.FC<Props> = ({ prefs, onClose }) => {
                   ))}
                </div>
             </div>
+          </div>
+        )}
 
-            <div className="bg-[#252525] p-8 rounded-3xl shadow-lg border border-white/5 col-span-1 md:col-span-2">
-              <h3 className="text-xl font-bold mb-6 text-white flex items-center">
-                <span className="w-2 h-6 bg-orange-500 rounded-full mr-3"></span> {t('analysis.calorieTrend')}
-              </h3>
-              <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={result.calorieTrend} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#444" vertical={false} />
-                    <XAxis dataKey="date" stroke="#666" tick={{ fill: '#888' }} />
-                    <YAxis stroke="#666" tick={{ fill: '#888' }} />
-                    <Tooltip 
-                      contentStyle={{ backgroundColor: '#333', borderColor: '#444', borderRadius: '12px', color: '#fff' }}
-                    />
-                    <Line 
-                      type="monotone" 
-                      dataKey="calories" 
-                      stroke="#F59E0B" 
-                      strokeWidth={3} 
-                      dot={{ r: 4, fill: '#252525', stroke: '#F59E0B', strokeWidth: 2 }}
-                      activeDot={{ r: 8 }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
+        {!historyLoading && history.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-8 mt-4 md:mt-8">
+            {hasNutrition && (
+              <div className="bg-[#252525] p-8 rounded-3xl shadow-lg border border-white/5 col-span-1 md:col-span-2">
+                <h3 className="text-xl font-bold mb-6 text-white flex items-center">
+                  <span className="w-2 h-6 bg-orange-500 rounded-full mr-3"></span> {t('analysis.calorieTrend')}
+                </h3>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={calorieTrend} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#444" vertical={false} />
+                      <XAxis dataKey="date" stroke="#666" tick={{ fill: '#888' }} />
+                      <YAxis yAxisId="kcal" stroke="#666" tick={{ fill: '#888' }} />
+                      <YAxis yAxisId="grams" orientation="right" stroke="#666" tick={{ fill: '#888' }} />
+                      <Tooltip 
+                        contentStyle={{ backgroundColor: '#333', borderColor: '#444', borderRadius: '12px', color: '#fff' }}
+                      />
+                      <Line 
+                        yAxisId="kcal"
+                        type="monotone" 
+                        dataKey="calories" 
+                        name={t('analysis.nutrition.calories')}
+                        stroke="#F59E0B" 
+                        strokeWidth={3} 
+                        dot={{ r: 4, fill: '#252525', stroke: '#F59E0B', strokeWidth: 2 }}
+                        activeDot={{ r: 8 }}
+                      />
+                      <Line yAxisId="grams" type="monotone" dataKey="proteinG" name={t('analysis.nutrition.protein')} stroke="#6FB92D" strokeWidth={2} dot={false} />
+                      <Line yAxisId="grams" type="monotone" dataKey="carbsG" name={t('analysis.nutrition.carbs')} stroke="#3B82F6" strokeWidth={2} dot={false} />
+                      <Line yAxisId="grams" type="monotone" dataKey="fatG" name={t('analysis.nutrition.fat')} stroke="#EF4444" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
               </div>
-            </div>
+            )}
+            <NutritionTable prefs={prefs} history={history} records={nutrition} />
           </div>
         )}
       </div>
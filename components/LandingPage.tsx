@@ -1,28 +1,36 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion, AnimatePresence } from 'framer-motion';
 import { UserPreferences } from '../types';
 import { useLogin } from '../hooks/useMeican';
-import { savePreferences } from '../services/db';
+import { AccountProfile, activateAccount, listAccounts } from '../services/db';
 import { getSettings } from '../services/meicanService';
 
 interface Props {
   initialPrefs: UserPreferences;
   onLoginSuccess: (prefs: UserPreferences) => void;
+  onSwitchAccount: (username: string) => void;
 }
 
-const LandingPage: React.FC<Props> = ({ initialPrefs, onLoginSuccess }) => {
+const LandingPage: React.FC<Props> = ({ initialPrefs, onLoginSuccess, onSwitchAccount }) => {
   const { t, i18n } = useTranslation();
   const [username, setUsername] = useState(initialPrefs.username || '');
   const [password, setPassword] = useState(initialPrefs.password || '');
+  const [rememberCredentials, setRememberCredentials] = useState(!!initialPrefs.rememberCredentials);
   
 
   
-  const [aiProvider, setAiProvider] = useState<'gemini' | 'custom' | 'openrouter'>(initialPrefs.aiProvider || 'openrouter');
+  const [aiProvider, setAiProvider] = useState<UserPreferences['aiProvider']>(initialPrefs.aiProvider || 'openrouter');
 
   const [error, setError] = useState('');
   const loginMutation = useLogin();
 
+  // Other accounts that are still logged in can be resumed without a password
+  const [savedAccounts, setSavedAccounts] = useState<AccountProfile[]>([]);
+  useEffect(() => {
+    listAccounts().then(accounts => setSavedAccounts(accounts.filter(a => a.loggedIn && a.username !== initialPrefs.username)));
+  }, [initialPrefs.username]);
+
   const handleLogin = async (e?: React.FormEvent) => {
     e?.preventDefault();
     if (!username || !password) {
@@ -36,7 +44,7 @@ const LandingPage: React.FC<Props> = ({ initialPrefs, onLoginSuccess }) => {
       const result = await loginMutation.mutateAsync({
         username,
         password,
-
+        rememberCredentials,
       });
 
       if (result.success && result.sessionId) {
@@ -45,13 +53,13 @@ const LandingPage: React.FC<Props> = ({ initialPrefs, onLoginSuccess }) => {
           username, 
           password, 
           sessionId: result.sessionId,
-
+          rememberCredentials,
           aiProvider
         };
 
         // Fetch settings from backend
         try {
-          const backendSettings = await getSettings(username, result.sessionId);
+          const backendSettings = await getSettings(result.sessionId);
           if (backendSettings) {
              updatedPrefs = { ...updatedPrefs, ...backendSettings };
           }
@@ -59,7 +67,7 @@ const LandingPage: React.FC<Props> = ({ initialPrefs, onLoginSuccess }) => {
           console.error('Failed to fetch settings on login:', e);
         }
 
-        await savePreferences(updatedPrefs);
+        await activateAccount(updatedPrefs);
         onLoginSuccess(updatedPrefs);
       } else {
         setError(result.error || t('login.loginFailed'));
@@ -142,6 +150,22 @@ const LandingPage: React.FC<Props> = ({ initialPrefs, onLoginSuccess }) => {
           onSubmit={handleLogin}
           className="w-full space-y-4"
         >
+          {savedAccounts.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-500">{t('accounts.continueAs')}</span>
+              {savedAccounts.map(account => (
+                <button
+                  key={account.username}
+                  type="button"
+                  onClick={() => onSwitchAccount(account.username)}
+                  className="px-3 py-1 rounded-full bg-white/5 hover:bg-[#6FB92D]/20 border border-white/10 text-gray-300 hover:text-white transition-colors"
+                >
+                  {account.username}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-3">
              <div className="relative group">
                 <input
@@ -163,16 +187,27 @@ const LandingPage: React.FC<Props> = ({ initialPrefs, onLoginSuccess }) => {
                 />
              </div>
 
+                 <label className="flex items-center gap-2 px-1 text-sm text-gray-400 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={rememberCredentials}
+                      onChange={(e) => setRememberCredentials(e.target.checked)}
+                      className="w-4 h-4 accent-[#6FB92D]"
+                    />
+                    {t('login.rememberCredentials')}
+                 </label>
+
                  <div className="relative group">
                     <div className="relative">
                       <select
                         value={aiProvider}
-                        onChange={(e) => setAiProvider(e.target.value as 'gemini' | 'custom' | 'openrouter')}
+                        onChange={(e) => setAiProvider(e.target.value as UserPreferences['aiProvider'])}
                         className="w-full bg-[#252525] border border-white/10 rounded-2xl px-5 py-4 text-white placeholder-gray-500 focus:outline-none focus:border-[#6FB92D] focus:ring-1 focus:ring-[#6FB92D] transition-all appearance-none cursor-pointer"
                       >
                         <option value="openrouter">OpenRouter ({t('settings.default')})</option>
                         <option value="gemini">{t('settings.geminiModel')}</option>
                         <option value="custom">{t('settings.customAi')}</option>
+                        <option value="local">{t('settings.localPlanner')}</option>
                       </select>
                       <div className="absolute inset-y-0 right-0 flex items-center px-4 pointer-events-none">
                         <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HistoricalOrder, NutritionRecord, UserPreferences } from '../types';
+import { getNutritionKey } from '../services/db';
+import { useDeleteNutrition, useFillNutrition, useSaveNutrition } from '../hooks/useMeican';
+
+interface Props {
+  prefs: UserPreferences;
+  history: HistoricalOrder[];
+  records: NutritionRecord[];
+}
+
+interface DishRow {
+  key: string;
+  dishName: string;
+  restaurantName: string;
+  count: number;
+  record?: NutritionRecord;
+}
+
+interface Draft {
+  calories: string;
+  proteinG: string;
+  carbsG: string;
+  fatG: string;
+  tags: string;
+}
+
+const inputClass = "w-16 rounded-lg border border-[#444] bg-[#181818] px-2 py-1 text-sm text-gray-300 focus:border-[#6FB92D] outline-none";
+
+const toDraft = (record?: NutritionRecord): Draft => ({
+  calories: record ? String(record.calories) : '',
+  proteinG: record ? String(record.proteinG) : '',
+  carbsG: record ? String(record.carbsG) : '',
+  fatG: record ? String(record.fatG) : '',
+  tags: record ? record.tags.join(', ') : '',
+});
+
+const NutritionTable: React.FC<Props> = ({ prefs, history, records }) => {
+  const { t } = useTranslation();
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(toDraft());
+  const fillMutation = useFillNutrition();
+  const saveMutation = useSaveNutrition();
+  const deleteMutation = useDeleteNutrition();
+
+  // One row per dish of the history, most ordered first
+  const rows = useMemo(() => {
+    const byKey = new Map(records.map(record => [record.key, record]));
+    const dishes = new Map<string, DishRow>();
+    history.forEach(order => {
+      const key = getNutritionKey(order.restaurantName, order.dishName);
+      const row = dishes.get(key) || { key, dishName: order.dishName, restaurantName: order.restaurantName, count: 0, record: byKey.get(key) };
+      row.count++;
+      dishes.set(key, row);
+    });
+    return [...dishes.values()].sort((a, b) => b.count - a.count || a.dishName.localeCompare(b.dishName));
+  }, [history, records]);
+
+  const missingCount = rows.filter(row => !row.record).length;
+
+  const startEdit = (row: DishRow) => {
+    setEditingKey(row.key);
+    setDraft(toDraft(row.record));
+  };
+
+  const saveEdit = async (row: DishRow) => {
+    const numbers = [draft.calories, draft.proteinG, draft.carbsG, draft.fatG].map(value => Number(value));
+    if (numbers.some(value => !Number.isFinite(value) || value < 0) || draft.calories.trim() === '') {
+      alert(t('analysis.nutrition.invalid'));
+      return;
+    }
+    const [calories, proteinG, carbsG, fatG] = numbers.map(value => Math.round(value));
+    await saveMutation.mutateAsync({
+      prefs,
+      values: {
+        dishName: row.dishName,
+        restaurantName: row.restaurantName,
+        calories,
+        proteinG,
+        carbsG,
+        fatG,
+        tags: draft.tags.split(/[,，]/).map(tag => tag.trim().toLowerCase()).filter(Boolean),
+      },
+    });
+    setEditingKey(null);
+  };
+
+  const estimateMissing = () => {
+    fillMutation.mutate(
+      { dishes: history, prefs },
+      { onError: (e) => alert(t('analysis.nutrition.estimateFailed', { error: e instanceof Error ? e.message : String(e) })) }
+    );
+  };
+
+  return (
+    <div className="bg-[#252525] p-8 rounded-3xl shadow-lg border border-white/5 col-span-1 md:col-span-2">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h3 className="text-xl font-bold text-white flex items-center">
+          <span className="w-2 h-6 bg-purple-500 rounded-full mr-3"></span> {t('analysis.nutrition.title')}
+        </h3>
+        {missingCount > 0 && prefs.aiProvider !== 'local' && (
+          <button
+            onClick={estimateMissing}
+            disabled={fillMutation.isPending}
+            className="text-sm text-[#6FB92D] hover:underline disabled:opacity-50"
+          >
+            {fillMutation.isPending ? t('analysis.nutrition.estimating') : t('analysis.nutrition.estimateMissing', { count: missingCount })}
+          </button>
+        )}
+      </div>
+      <p className="text-gray-500 text-sm mb-4">{t('analysis.nutrition.hint')}</p>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-500 border-b border-[#333]">
+            <tr>
+              <th className="py-2 pr-4 font-medium">{t('analysis.nutrition.dish')}</th>
+              <th className="py-2 pr-4 font-medium">{t('analysis.nutrition.calories')}</th>
+              <th className="py-2 pr-4 font-medium">{t('analysis.nutrition.protein')}</th>
+              <th className="py-2 pr-4 font-medium">{t('analysis.nutrition.carbs')}</th>
+              <th className="py-2 pr-4 font-medium">{t('analysis.nutrition.fat')}</th>
+              <th className="py-2 pr-4 font-medium">{t('analysis.nutrition.tags')}</th>
+              <th className="py-2 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const editing = editingKey === row.key;
+              return (
+                <tr key={row.key} className="border-b border-[#333]/50 text-gray-300">
+                  <td className="py-2 pr-4">
+                    <div className="text-white">{row.dishName}</div>
+                    <div className="text-xs text-gray-500">
+                      {row.restaurantName} · ×{row.count}
+                      {row.record && (
+                        <span className="ml-2">{row.record.source === 'manual' ? t('analysis.nutrition.sourceManual') : t('analysis.nutrition.sourceAi')}</span>
+                      )}
+                    </div>
+                  </td>
+                  {editing ? (
+                    <>
+                      <td className="py-2 pr-4"><input type="number" min={0} value={draft.calories} onChange={(e) => setDraft({ ...draft, calories: e.target.value })} className={inputClass} /></td>
+                      <td className="py-2 pr-4"><input type="number" min={0} value={draft.proteinG} onChange={(e) => setDraft({ ...draft, proteinG: e.target.value })} className={inputClass} /></td>
+                      <td className="py-2 pr-4"><input type="number" min={0} value={draft.carbsG} onChange={(e) => setDraft({ ...draft, carbsG: e.target.value })} className={inputClass} /></td>
+                      <td className="py-2 pr-4"><input type="number" min={0} value={draft.fatG} onChange={(e) => setDraft({ ...draft, fatG: e.target.value })} className={inputClass} /></td>
+                      <td className="py-2 pr-4"><input type="text" value={draft.tags} onChange={(e) => setDraft({ ...draft, tags: e.target.value })} className={`${inputClass} w-40`} placeholder={t('analysis.nutrition.tagsPlaceholder')} /></td>
+                      <td className="py-2 whitespace-nowrap text-right">
+                        <button onClick={() => saveEdit(row)} disabled={saveMutation.isPending} className="text-[#6FB92D] hover:underline mr-3 disabled:opacity-50">{t('common.confirm')}</button>
+                        <button onClick={() => setEditingKey(null)} className="text-gray-400 hover:underline">{t('common.cancel')}</button>
+                      </td>
+                    </>
+                  ) : (
+                    <>
+                      <td className="py-2 pr-4">{row.record ? row.record.calories : '—'}</td>
+                      <td className="py-2 pr-4">{row.record ? row.record.proteinG : '—'}</td>
+                      <td className="py-2 pr-4">{row.record ? row.record.carbsG : '—'}</td>
+                      <td className="py-2 pr-4">{row.record ? row.record.fatG : '—'}</td>
+                      <td className="py-2 pr-4 text-xs text-gray-400">{row.record?.tags.join(', ')}</td>
+                      <td className="py-2 whitespace-nowrap text-right">
+                        <button onClick={() => startEdit(row)} className="text-[#6FB92D] hover:underline">{t('analysis.nutrition.edit')}</button>
+                        {row.record && (
+                          <button
+                            onClick={() => deleteMutation.mutate({ key: row.key, prefs })}
+                            title={t('analysis.nutrition.resetHint')}
+                            className="text-gray-500 hover:text-red-400 ml-3"
+                          >
+                            {t('analysis.nutrition.reset')}
+                          </button>
+                        )}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default NutritionTable;
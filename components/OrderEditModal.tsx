@@ -1,8 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { DailyStatus, Dish, MealTime, UserPreferences } from '../types';
-import { Address } from '../services/meicanService';
-import { useAvailableDishes, useRestaurants, useUserAddresses, usePlaceOrder, useDeleteOrder } from '../hooks/useMeican';
+import { DailyStatus, Dish, DishFilters, DishProtein, MealTime, OrderItem, UserPreferences } from '../types';
+import { Address, ReplaceOrderError } from '../services/meicanService';
+import { createKeyId } from '../services/crypto';
+import { appendRemark, formatItemsLabel, getItemsTotalCent, updateItemCount } from '../utils/orderItems';
+import { getMealLabel } from '../utils/mealTabs';
+import { DISH_PROTEINS, extractDishTags, hasDishFilters, passesDishFilters, SPICINESS_LEVELS } from '../utils/dishTags';
+import { useAvailableDishes, useRestaurants, useRestaurantDishes, useDishTags, useUserAddresses, usePlaceOrder, useReplaceOrder, useDeleteOrder } from '../hooks/useMeican';
 import { motion } from 'framer-motion';
 
 interface Props {
@@ -12,29 +16,30 @@ interface Props {
   onOrderUpdated: () => void;
 }
 
-const getTargetTimeForMeal = (mealTime: MealTime): string => {
-  switch (mealTime) {
-    case MealTime.BREAKFAST:
-      return '07:00';
-    case MealTime.LUNCH:
-      return '09:00'; // Confirmed by user
-    case MealTime.DINNER:
-      return '12:00'; // Confirmed by user to work, 17:00 failed
-    default:
-      return '09:00';
-  }
-};
-
 const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated }) => {
   const { t } = useTranslation();
-  const [selectedDish, setSelectedDish] = useState<Dish | null>(null);
+  // Start from the current basket so it can be adjusted rather than rebuilt
+  const [cart, setCart] = useState<OrderItem[]>(slot.orderItems || []);
   const [selectedAddress, setSelectedAddress] = useState<Address | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  // Starts from the saved dish filters and can be loosened for this order only
+  const [filters, setFilters] = useState<DishFilters>(prefs.dishFilters || {});
+  // Submitting the same basket twice (double click, retry) reuses the key and cannot order twice;
+  // the key changes with what is ordered, not with each new cart array
+  const basketSignature = JSON.stringify([
+    selectedAddress?.uniqueId ?? null,
+    cart.map(item => [String(item.dish.id), item.count, item.remark?.trim() || '']),
+  ]);
+  const idempotencyKey = useMemo(() => createKeyId('order'), [basketSignature]);
 
-  const timeStr = getTargetTimeForMeal(slot.mealTime);
-  const targetTime = `${slot.date} ${timeStr}`;
+  const targetTime = slot.targetTime;
   const isBreakfast = slot.mealTime === MealTime.BREAKFAST;
+  // Breakfast is picked in two steps: a restaurant, then dishes from its menu.
+  // An existing order opens on its restaurant.
+  const [restaurantId, setRestaurantId] = useState<string | null>(
+    isBreakfast ? slot.orderItems?.[0]?.dish.restaurantId || null : null
+  );
 
   // Hooks
   const { data: regularDishes = [], isLoading: loadingRegular } = useAvailableDishes(
@@ -43,19 +48,40 @@ const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated
     prefs
   );
 
-  const { data: restaurantDishes = [], isLoading: loadingRestaurant } = useRestaurants(
+  const { data: restaurants = [], isLoading: loadingRestaurants } = useRestaurants(
     isBreakfast ? slot.tabUniqueId : undefined, 
     isBreakfast ? targetTime : undefined, 
     prefs
   );
 
-  const dishes = isBreakfast ? restaurantDishes : regularDishes;
-  const isLoadingDishes = isBreakfast ? loadingRestaurant : loadingRegular;
+  const { data: restaurantMenu = [], isLoading: loadingRestaurantMenu } = useRestaurantDishes(
+    isBreakfast ? slot.tabUniqueId : undefined,
+    isBreakfast ? targetTime : undefined,
+    restaurantId || undefined,
+    prefs
+  );
+
+  const isPickingRestaurant = isBreakfast && !restaurantId;
+  const dishes = isBreakfast ? (restaurantId ? restaurantMenu : restaurants) : regularDishes;
+  const isLoadingDishes = isBreakfast ? (restaurantId ? loadingRestaurantMenu : loadingRestaurants) : loadingRegular;
+
+  // Breakfast restaurants are listed as dishes but have no tags
+  const { data: cachedTags } = useDishTags(isPickingRestaurant ? [] : dishes, prefs);
+  const getTags = (dish: Dish) => cachedTags?.get(dish.id) || extractDishTags(dish);
+  const getTagLabels = (dish: Dish): string[] => {
+    const tags = getTags(dish);
+    return [
+      ...tags.proteins.map(protein => t(`dishTags.protein.${protein}`)),
+      ...(tags.vegetarian ? [t('dishTags.vegetarian')] : []),
+      ...(tags.spiciness !== 'none' ? [t(`dishTags.spiciness.${tags.spiciness}`)] : []),
+    ];
+  };
 
   const { data: addressData, isLoading: loadingAddress } = useUserAddresses(prefs, slot.namespace);
   const addresses = addressData?.addresses || [];
 
   const placeOrderMutation = usePlaceOrder();
+  const replaceOrderMutation = useReplaceOrder();
   const deleteOrderMutation = useDeleteOrder();
 
   // Effect to set default address
@@ -96,38 +122,98 @@ const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated
     }
   };
 
+  const getCartCount = (dish: Dish): number => {
+    return cart.find(item => String(item.dish.id) === String(dish.id))?.count || 0;
+  };
+
+  const toggleDish = (dish: Dish) => {
+    if (getCartCount(dish) > 0) {
+      setCart(cart.filter(item => String(item.dish.id) !== String(dish.id)));
+    } else if (isBreakfast && cart.some(item => item.dish.restaurantId !== dish.restaurantId)) {
+      // Breakfast comes from a single restaurant, so a dish from another one starts a new basket
+      setCart([{ dish, count: 1 }]);
+    } else {
+      setCart(updateItemCount(cart, dish, 1));
+    }
+  };
+
+  const openRestaurant = (id: string | null) => {
+    setRestaurantId(id);
+    setSearchQuery('');
+  };
+
+  const setRemark = (dish: Dish, remark: string) => {
+    setCart(cart.map(item => String(item.dish.id) === String(dish.id) ? { ...item, remark } : item));
+  };
+
+  const remarkTemplates = (prefs.remarkTemplates || []).filter(Boolean);
+
   const handleOrder = async () => {
-    if (!selectedDish || !slot.tabUniqueId) return;
+    if (cart.length === 0 || !slot.tabUniqueId || !targetTime) return;
     setError(null);
     
     try {
-      // If there's an existing order, delete it first
+      const addressId = selectedAddress?.uniqueId || slot.userAddressUniqueId;
+
+      // An existing order is swapped by the backend, which restores it if the new one fails
       if (slot.orderUniqueId) {
-        await deleteOrderMutation.mutateAsync({ orderUniqueId: slot.orderUniqueId, prefs });
+        await replaceOrderMutation.mutateAsync({
+          oldOrderUniqueId: slot.orderUniqueId,
+          tabUniqueId: slot.tabUniqueId,
+          items: cart,
+          targetTime,
+          prefs,
+          corpAddressUniqueId: addressId,
+          userAddressUniqueId: addressId,
+          idempotencyKey
+        });
+        onOrderUpdated();
+        return;
       }
 
-      const addressId = selectedAddress?.uniqueId || slot.userAddressUniqueId;
-      await placeOrderMutation.mutateAsync({
+      const result = await placeOrderMutation.mutateAsync({
         tabUniqueId: slot.tabUniqueId,
-        dishId: selectedDish.id,
+        items: cart,
         targetTime,
         prefs,
         corpAddressUniqueId: addressId,
-        userAddressUniqueId: addressId
+        userAddressUniqueId: addressId,
+        idempotencyKey
       });
+
+      // Ordered meanwhile from another tab or device; keep the modal open to say so
+      if (result.existing) {
+        setError(t('orderEdit.alreadyOrdered'));
+        return;
+      }
       
       onOrderUpdated();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to place order');
+      if (err instanceof ReplaceOrderError && err.rollback) {
+        setError(t(err.rollback === 'RESTORED' ? 'orderEdit.replaceRestored' : 'orderEdit.replaceNotRestored', { error: err.message }));
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to place order');
+      }
     }
   };
 
-  // Filter dishes based on search query
+  // Filter dishes based on search query and dish filters
   const filteredDishes = dishes.filter(dish => 
-    dish.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    dish.restaurantName.toLowerCase().includes(searchQuery.toLowerCase())
+    (dish.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    dish.restaurantName.toLowerCase().includes(searchQuery.toLowerCase())) &&
+    (isPickingRestaurant || passesDishFilters(getTags(dish), filters))
   );
 
+  const toggleExcludedProtein = (protein: DishProtein) => {
+    const excluded = filters.excludedProteins || [];
+    setFilters({
+      ...filters,
+      excludedProteins: excluded.includes(protein) ? excluded.filter(p => p !== protein) : [...excluded, protein],
+    });
+  };
+
+  const isMildOnly = !!filters.maxSpiciness && SPICINESS_LEVELS.indexOf(filters.maxSpiciness) <= SPICINESS_LEVELS.indexOf('mild');
+
   // Group dishes by restaurant
   const groupedDishes = filteredDishes.reduce((acc, dish) => {
     const restaurant = dish.restaurantName || 'Other';
@@ -138,14 +224,17 @@ const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated
     return acc;
   }, {} as Record<string, Dish[]>);
 
-  const mealTimeLabel = slot.mealTime.charAt(0) + slot.mealTime.slice(1).toLowerCase();
+  const mealTimeLabel = getMealLabel(slot);
   const formattedDate = new Date(slot.date).toLocaleDateString(undefined, { 
     weekday: 'long', 
     month: 'short', 
     day: 'numeric' 
   });
   
-  const isActionLoading = placeOrderMutation.isPending || deleteOrderMutation.isPending;
+  const currentItems = slot.orderItems || (slot.currentOrder ? [{ dish: slot.currentOrder, count: 1 }] : []);
+
+  const isOrdering = placeOrderMutation.isPending || replaceOrderMutation.isPending;
+  const isActionLoading = isOrdering || deleteOrderMutation.isPending;
   const isLoading = isLoadingDishes || loadingAddress;
 
   if (!isModificationAllowed()) {
@@ -221,12 +310,12 @@ const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated
             <div className="flex justify-between items-center">
               <div>
                 <p className="text-xs text-gray-400 mb-1">{t('orderEdit.currentOrder')}</p>
-                <p className="text-[#6FB92D] font-bold">{slot.currentOrder.name}</p>
+                <p className="text-[#6FB92D] font-bold">{formatItemsLabel(currentItems)}</p>
                 <p className="text-xs text-gray-500">{slot.currentOrder.restaurantName}</p>
               </div>
               <div className="flex items-center gap-3">
                 <span className="text-white font-mono">
-                  ¥{(slot.currentOrder.priceInCent / 100).toFixed(2)}
+                  ¥{(getItemsTotalCent(currentItems) / 100).toFixed(2)}
                 </span>
                 <button
                   onClick={handleDelete}
@@ -259,6 +348,34 @@ const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated
             />
             <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">🔍</span>
           </div>
+          {!isPickingRestaurant && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              <button
+                onClick={() => setFilters({ ...filters, vegetarianOnly: !filters.vegetarianOnly })}
+                className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${filters.vegetarianOnly ? 'bg-[#6FB92D]/20 border-[#6FB92D] text-[#6FB92D]' : 'border-[#333] text-gray-400 hover:border-[#555]'}`}
+              >
+                🥬 {t('orderEdit.filterVegetarian')}
+              </button>
+              <button
+                onClick={() => setFilters({ ...filters, maxSpiciness: isMildOnly ? undefined : 'mild' })}
+                className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${isMildOnly ? 'bg-[#6FB92D]/20 border-[#6FB92D] text-[#6FB92D]' : 'border-[#333] text-gray-400 hover:border-[#555]'}`}
+              >
+                🌶️ {t('orderEdit.filterMild')}
+              </button>
+              {DISH_PROTEINS.map(protein => {
+                const active = !!filters.excludedProteins?.includes(protein);
+                return (
+                  <button
+                    key={protein}
+                    onClick={() => toggleExcludedProtein(protein)}
+                    className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${active ? 'bg-red-500/10 border-red-500/50 text-red-400' : 'border-[#333] text-gray-400 hover:border-[#555]'}`}
+                  >
+                    {t('orderEdit.filterNoProtein', { protein: t(`dishTags.protein.${protein}`) })}
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
 
         {/* Address Selection */}
@@ -291,6 +408,14 @@ const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated
 
         {/* Dishes List */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          {isBreakfast && restaurantId && (
+            <button
+              onClick={() => openRestaurant(null)}
+              className="text-sm text-gray-400 hover:text-[#6FB92D] transition-colors flex items-center gap-1"
+            >
+              ← {t('orderEdit.backToRestaurants')}
+            </button>
+          )}
           {isLoading ? (
             <div className="space-y-6">
               {[1, 2, 3].map(i => (
@@ -316,9 +441,35 @@ const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated
                 <span className="text-2xl">🍽️</span>
               </div>
               <p className="text-gray-400">
-                {searchQuery ? t('orderEdit.noMatchingDishes') : t('orderEdit.noAvailableDishes')}
+                {searchQuery || (!isPickingRestaurant && hasDishFilters(filters)) ? t('orderEdit.noMatchingDishes') : t('orderEdit.noAvailableDishes')}
               </p>
             </div>
+          ) : isPickingRestaurant ? (
+            <div>
+              <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+                <span className="w-2 h-2 bg-[#6FB92D] rounded-full"></span>
+                {t('orderEdit.chooseRestaurant')}
+              </h3>
+              <div className="space-y-2">
+                {filteredDishes.map((restaurant) => {
+                  const inCart = cart.some(item => item.dish.restaurantId === restaurant.id);
+                  return (
+                    <button
+                      key={restaurant.id}
+                      onClick={() => openRestaurant(restaurant.id)}
+                      className={`w-full text-left p-4 flex justify-between items-center gap-3 rounded-xl border-2 transition-all ${
+                        inCart
+                          ? 'bg-[#6FB92D]/10 border-[#6FB92D] text-[#6FB92D]'
+                          : 'bg-[#1e1e1e] border-[#333] hover:border-[#555] text-gray-300'
+                      }`}
+                    >
+                      <p className="font-medium line-clamp-2">{restaurant.name}</p>
+                      <span className="text-gray-500">{inCart ? '✓' : '›'}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
           ) : (
             Object.entries(groupedDishes).map(([restaurant, restaurantDishes]) => (
               <div key={restaurant}>
@@ -327,47 +478,104 @@ const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated
                   {restaurant}
                 </h3>
                 <div className="space-y-2">
-                  {restaurantDishes.map((dish) => (
-                    <button
-                      key={dish.id}
-                      onClick={() => setSelectedDish(selectedDish?.id === dish.id ? null : dish)}
-                      className={`w-full text-left p-4 rounded-xl border-2 transition-all ${
-                        selectedDish?.id === dish.id
-                          ? 'bg-[#6FB92D]/10 border-[#6FB92D] text-white'
-                          : 'bg-[#1e1e1e] border-[#333] hover:border-[#555] text-gray-300'
-                      }`}
-                    >
-                      <div className="flex justify-between items-center">
+                  {restaurantDishes.map((dish) => {
+                    const count = getCartCount(dish);
+                    return (
+                      <div
+                        key={dish.id}
+                        className={`w-full flex items-center rounded-xl border-2 transition-all ${
+                          count > 0
+                            ? 'bg-[#6FB92D]/10 border-[#6FB92D] text-white'
+                            : 'bg-[#1e1e1e] border-[#333] hover:border-[#555] text-gray-300'
+                        }`}
+                      >
+                        <button
+                          onClick={() => toggleDish(dish)}
+                          className="flex-1 text-left p-4 flex justify-between items-center gap-3"
+                        >
                           <div>
-                            <p className={`font-medium ${selectedDish?.id === dish.id ? 'text-[#6FB92D]' : ''} line-clamp-2`}>
+                            <p className={`font-medium ${count > 0 ? 'text-[#6FB92D]' : ''} line-clamp-2`}>
                               {dish.name}
                             </p>
+                            {getTagLabels(dish).length > 0 && (
+                              <p className="text-xs text-gray-500 mt-0.5">{getTagLabels(dish).join(' · ')}</p>
+                            )}
                           </div>
-                        <div className="flex items-center gap-3">
                           <span className="font-mono text-white">
                             ¥{(dish.priceInCent / 100).toFixed(2)}
                           </span>
-                          {selectedDish?.id === dish.id && (
-                            <span className="w-6 h-6 bg-[#6FB92D] rounded-full flex items-center justify-center text-white text-sm">
-                              ✓
-                            </span>
-                          )}
-                        </div>
+                        </button>
+                        {count > 0 && (
+                          <div className="flex items-center gap-2 pr-4">
+                            <button
+                              onClick={() => setCart(updateItemCount(cart, dish, -1))}
+                              aria-label={t('orderEdit.decrease')}
+                              className="w-7 h-7 rounded-full bg-[#333] hover:bg-[#444] text-white flex items-center justify-center"
+                            >
+                              −
+                            </button>
+                            <span className="w-5 text-center font-mono text-white">{count}</span>
+                            <button
+                              onClick={() => setCart(updateItemCount(cart, dish, 1))}
+                              aria-label={t('orderEdit.increase')}
+                              className="w-7 h-7 rounded-full bg-[#6FB92D] hover:bg-[#5da025] text-white flex items-center justify-center"
+                            >
+                              +
+                            </button>
+                          </div>
+                        )}
                       </div>
-                    </button>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             ))
           )}
         </div>
 
+        {/* Remarks */}
+        {cart.length > 0 && (
+          <div className="px-6 py-4 border-t border-white/10 space-y-3 max-h-48 overflow-y-auto custom-scrollbar">
+            <p className="text-xs text-gray-400">{t('orderEdit.remarks')}</p>
+            {cart.map(item => (
+              <div key={item.dish.id}>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-300 w-1/3 truncate">{formatItemsLabel([item])}</span>
+                  <input
+                    type="text"
+                    value={item.remark || ''}
+                    onChange={(e) => setRemark(item.dish, e.target.value)}
+                    placeholder={t('orderEdit.remarkPlaceholder')}
+                    className="flex-1 bg-[#1e1e1e] border border-[#333] rounded-lg px-3 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#6FB92D]/50 transition-colors"
+                  />
+                </div>
+                {remarkTemplates.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mt-1.5 pl-[33%]">
+                    {remarkTemplates.map(template => (
+                      <button
+                        key={template}
+                        onClick={() => setRemark(item.dish, appendRemark(item.remark, template))}
+                        className="px-2 py-0.5 text-xs rounded-full bg-[#333] text-gray-300 hover:bg-[#6FB92D]/20 hover:text-[#6FB92D] transition-colors"
+                      >
+                        + {template}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Footer */}
         <div className="p-4 md:p-6 border-t border-white/10 flex flex-col-reverse sm:flex-row justify-between items-center bg-[#1e1e1e] gap-4 sm:gap-0">
           <div className="w-full sm:w-auto text-center sm:text-left">
-            {selectedDish && (
+            {cart.length > 0 && (
               <p className="text-sm text-gray-400">
-                {t('orderEdit.selected')}: <span className="text-[#6FB92D] font-medium">{selectedDish.name}</span>
+                {t('orderEdit.selected')}: <span className="text-[#6FB92D] font-medium">{formatItemsLabel(cart)}</span>
+                <span className="ml-2 font-mono text-white">
+                  {t('orderEdit.total')} ¥{(getItemsTotalCent(cart) / 100).toFixed(2)}
+                </span>
               </p>
             )}
           </div>
@@ -380,10 +588,10 @@ const OrderEditModal: React.FC<Props> = ({ slot, prefs, onClose, onOrderUpdated
             </button>
             <button
               onClick={handleOrder}
-              disabled={!selectedDish || isActionLoading}
+              disabled={cart.length === 0 || isActionLoading}
               className="flex-1 sm:flex-none px-6 py-2.5 bg-[#6FB92D] hover:bg-[#5da025] text-white rounded-full shadow-lg disabled:opacity-50 disabled:cursor-not-allowed font-bold transition-all flex items-center justify-center gap-2"
             >
-              {placeOrderMutation.isPending ? (
+              {isOrdering ? (
                 <>
                   <span className="animate-spin">⏳</span>
                   {slot.currentOrder ? t('orderEdit.changing') : t('orderEdit.ordering')}
@@ -1,8 +1,19 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { DailyStatus, PlannedOrder, UserPreferences } from '../types';
+import { useQueryClient } from '@tanstack/react-query';
+import { DailyStatus, PlanDraft, PlanDraftSummary, PlanGenerationResult, PlannedOrder, UnresolvedSlot, UserPreferences } from '../types';
 import { GeminiService } from '../services/geminiService';
-import { getAvailableDishes, placeOrder, fetchOrderHistory, getAddresses, Address } from '../services/meicanService';
+import { RulePlanner } from '../services/rulePlanner';
+import { createKeyId } from '../services/crypto';
+import { getNutritionRecords } from '../services/db';
+import { tagDishes } from '../services/dishTagging';
+import { getWeekMenus, MEICAN_TIMEOUT_CODE, MEICAN_UNAVAILABLE_CODE, placeOrder, replaceOrder, ReplaceOrderError, fetchOrderHistory, getAddresses, Address, getPlanDraft, createPlanDraft, updatePlanDraft } from '../services/meicanService';
+import { meicanKeys, usePlanDrafts, useDeletePlanDraft } from '../hooks/useMeican';
+import { diffPlans, getPlanSlotKey, isEmptyDiff } from '../utils/planDiff';
+import { BudgetAdjustment, enforceBudget, formatCent, getOutOfPocketCent, getPlacedOrders, hasBudget, isOverBudget, summarizeBudget } from '../utils/budget';
+import { formatItemsLabel, getItemsTotalCent, getOrderItems } from '../utils/orderItems';
+import { getMealLabel, isMealTabEnabled } from '../utils/mealTabs';
+import { hasDishFilters, passesDishFilters } from '../utils/dishTags';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface Props {
@@ -107,8 +118,8 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
       // Filter by weekend preference
       if (isWeekend && !prefs.enableWeekends) return false;
 
-      // Filter by breakfast preference
-      if (s.mealTime === 'BREAKFAST') return false;
+      // Filter by the meal tab switches
+      if (!isMealTabEnabled(prefs, s)) return false;
 
       return s.status === 'AVAILABLE' || s.status === 'NO_SERVICE';
     });
@@ -123,6 +134,8 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
 
   const [loading, setLoading] = useState(false);
   const [plan, setPlan] = useState<PlannedOrder[]>([]);
+  // Idempotency keys per slot and basket, so submitting the same plan again cannot order twice
+  const orderKeys = useRef<Record<string, string>>({});
   const [logs, setLogs] = useState<string[]>([]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [orderResults, setOrderResults] = useState<OrderResult[]>([]);
@@ -135,6 +148,23 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
   // Local state for AI Config
   const [configForm, setConfigForm] = useState<Partial<UserPreferences>>({});
 
+  // Saved plan drafts
+  const queryClient = useQueryClient();
+  const { data: drafts = [] } = usePlanDrafts(prefs);
+  const deleteDraftMutation = useDeletePlanDraft();
+  const [activeDraft, setActiveDraft] = useState<PlanDraft | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [savingDraft, setSavingDraft] = useState(false);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  // Draft items whose slot can no longer be ordered; kept in the draft until the user drops them
+  const [staleItems, setStaleItems] = useState<PlannedOrder[]>([]);
+
+  // Slots the planner could not fill with a valid pick
+  const [unresolvedSlots, setUnresolvedSlots] = useState<UnresolvedSlot[]>([]);
+
+  // Budget caps
+  const [budgetAdjustments, setBudgetAdjustments] = useState<BudgetAdjustment[]>([]);
+
   // Auto-switch between idle and fully_planned when slots change (e.g. via prefs)
   useEffect(() => {
       if (step === 'idle' && slotsToFill.length === 0) {
@@ -157,25 +187,16 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
     setLoading(false);
   };
 
-  const checkAIConfig = (): boolean => {
-    // If Custom AI is selected, we MUST have URL and Key
-    if (prefs.aiProvider === 'custom') {
-        if (!prefs.customAiBaseUrl || !prefs.customAiApiKey) {
-            setConfigForm(prefs); // Preheat form
-            setStep('ai_config');
-            setLoading(false);
-            return false;
-        }
-    } else {
-        // Gemini: Now MANDATORY per user request
-        if (!prefs.geminiApiKey) {
-             setConfigForm(prefs);
-             setStep('ai_config');
-             setLoading(false);
-             return false;
-        }
-    }
-    return true;
+  // Without the provider's key the rule-based planner is used instead
+  const isAIConfigured = (): boolean => {
+    if (prefs.aiProvider === 'local') return true;
+    if (prefs.aiProvider === 'custom') return !!(prefs.customAiBaseUrl && prefs.customAiApiKey);
+    return !!prefs.geminiApiKey;
+  };
+
+  const openAiConfig = () => {
+    setConfigForm(prefs); // Preheat form
+    setStep('ai_config');
   };
   
   const saveAiConfig = async () => {
@@ -191,9 +212,6 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
     setErrorMsg(null);
     setLogs([]);
     addLog(t('planner.analyzing'));
-    
-    // 0. Check AI Config
-    if (!checkAIConfig()) return;
 
     // 1. Double check slots
     if (slotsToFill.length === 0) {
@@ -209,34 +227,72 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
     try {
       // 2. Fetch Menus
       setTimelineStep('fetchingMenus');
-      const enrichedSlots = [];
-      let fetchedCount = 0;
+      const menuSlots = slotsToFill.filter(slot => slot.tabUniqueId && slot.targetTime);
+      let fetchedCount = slotsToFill.length - menuSlots.length;
+      setFetchProgress(prev => ({ ...prev, current: fetchedCount }));
 
-      for (const slot of slotsToFill) {
-        if (slot.tabUniqueId) {
-          addLog(t('planner.fetchingMenu', { date: slot.date, meal: slot.mealTime }));
-          
-          let targetTime = "09:00";
-          if (slot.mealTime === 'BREAKFAST') targetTime = "07:00";
-          if (slot.mealTime === 'DINNER') targetTime = "12:00";
-  
-          try {
-            const menu = await getAvailableDishes(slot.tabUniqueId, `${slot.date} ${targetTime}`, prefs);
-            if (menu.length > 0) {
-              enrichedSlots.push({ ...slot, menu, tabUniqueId: slot.tabUniqueId! });
-            } else {
-                addLog(t('planner.noMenuFound', { date: slot.date }));
-            }
-          } catch (e) {
-             addLog(t('planner.fetchMenuFailed', { date: slot.date, error: e }));
-          }
+      const requests = menuSlots.map(slot => {
+        addLog(t('planner.fetchingMenu', { date: slot.date, meal: getMealLabel(slot) }));
+
+        // Breakfast has no recommended dishes, its menu is collected per restaurant
+        return {
+          tabUniqueId: slot.tabUniqueId!,
+          targetTime: slot.targetTime!,
+          byRestaurant: slot.mealTime === 'BREAKFAST',
+        };
+      });
+
+      // Menus stream in as the backend fetches them; results stay in slot order
+      const menus = await getWeekMenus(requests, prefs, (result) => {
+        const slot = menuSlots[result.index];
+        if (result.error) {
+          addLog(t('planner.fetchMenuFailed', { date: slot.date, error: result.error }));
+        } else if (result.menu!.length === 0) {
+          addLog(t('planner.noMenuFound', { date: slot.date }));
         }
         fetchedCount++;
         setFetchProgress(prev => ({ ...prev, current: fetchedCount }));
+      });
+
+      const fetchedSlots = menuSlots
+        .map((slot, index) => ({ ...slot, menu: menus[index].menu || [], tabUniqueId: slot.tabUniqueId! }))
+        .filter(slot => slot.menu.length > 0);
+
+      if (fetchedSlots.length === 0) {
+          // An outage is no reason to think the week has no menus
+          const meicanDown = menus.some(result => result.code === MEICAN_UNAVAILABLE_CODE || result.code === MEICAN_TIMEOUT_CODE);
+          throw new Error(t(meicanDown ? 'planner.meicanUnavailable' : 'planner.noMenusFound'));
       }
 
-      if (enrichedSlots.length === 0) {
-          throw new Error(t('planner.noMenusFound'));
+      // Structured dish filters drop dishes before either planner sees them
+      let enrichedSlots = fetchedSlots;
+      const filteredOutSlots: UnresolvedSlot[] = [];
+      if (hasDishFilters(prefs.dishFilters)) {
+        addLog(t('planner.taggingDishes'));
+        const dishTags = await tagDishes(fetchedSlots.flatMap(slot => slot.menu), prefs, true);
+        let removedCount = 0;
+        enrichedSlots = fetchedSlots
+          .map(slot => {
+            const menu = slot.menu.filter(dish => passesDishFilters(dishTags.get(dish.id)!, prefs.dishFilters));
+            removedCount += slot.menu.length - menu.length;
+            return { ...slot, menu };
+          })
+          .filter(slot => {
+            if (slot.menu.length > 0) return true;
+            filteredOutSlots.push({
+              date: slot.date,
+              mealTime: slot.mealTime,
+              mealName: slot.mealName,
+              tabUniqueId: slot.tabUniqueId,
+              issues: ['No dish passes the dish filters'],
+            });
+            return false;
+          });
+        addLog(t('planner.dishesFiltered', { count: removedCount }));
+
+        if (enrichedSlots.length === 0) {
+          throw new Error(t('planner.noDishesPassFilters'));
+        }
       }
   
       // 3. Fetch History
@@ -254,19 +310,60 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
       } catch (e) {
         addLog(t('planner.fetchHistoryFailed'));
       }
+      // Known dish nutrition guides the health mode; dishes are not estimated here
+      const nutrition = await getNutritionRecords(prefs.username || '').catch(() => []);
   
       // 4. AI Generation
       setStep('planning'); // Ensure we are in planning view (which we share with fetching now really)
       setTimelineStep('generatingPlan');
       addLog(t('planner.generating'));
-      const aiService = new GeminiService();
-      const generatedPlan = await aiService.generateWeeklyPlan(enrichedSlots, history, prefs);
-      
-      if (!generatedPlan || generatedPlan.length === 0) {
+      let generation: PlanGenerationResult = { plan: [], unresolvedSlots: [] };
+      if (!isAIConfigured()) {
+        addLog(t('planner.rules.notConfigured'));
+      }
+      if (prefs.aiProvider === 'local' || !isAIConfigured()) {
+        generation = await new RulePlanner().generateWeeklyPlan(enrichedSlots, history, prefs, nutrition);
+      } else {
+        try {
+          generation = await new GeminiService().generateWeeklyPlan(enrichedSlots, history, prefs, nutrition);
+        } catch (e: any) {
+          addLog(t('planner.rules.fallback', { error: e.message }));
+        }
+        // Fall back to the rule-based planner if the LLM failed or returned nothing usable
+        if (generation.plan.length === 0) {
+          generation = await new RulePlanner().generateWeeklyPlan(enrichedSlots, history, prefs, nutrition);
+        }
+      }
+
+      const generatedPlan = generation.plan;
+      if (generatedPlan.length === 0) {
         throw new Error(t('planner.aiGenFailed'));
       }
 
-      setPlan(generatedPlan);
+      generation = { ...generation, unresolvedSlots: [...filteredOutSlots, ...generation.unresolvedSlots] };
+      for (const slot of generation.unresolvedSlots) {
+        addLog(t('planner.validation.unresolvedLog', { date: slot.date, meal: getMealLabel(slot) }));
+      }
+      setUnresolvedSlots(generation.unresolvedSlots);
+
+      // Enforce budget caps on the AI's picks, on top of what this week's orders already spend
+      const { plan: budgetedPlan, adjustments } = enforceBudget(generatedPlan, enrichedSlots, prefs, getPlacedOrders(weekStatus, generatedPlan));
+      for (const adjustment of adjustments) {
+        addLog(adjustment.after
+          ? t('planner.budget.replacedLog', { date: adjustment.before.date, from: adjustment.before.dish.name, to: adjustment.after.dish.name })
+          : t('planner.budget.droppedLog', { date: adjustment.before.date, dish: adjustment.before.dish.name }));
+      }
+      if (budgetedPlan.length === 0) {
+        throw new Error(t('planner.budget.nothingFits'));
+      }
+
+      setBudgetAdjustments(adjustments);
+      setPlan(budgetedPlan.map(item => {
+        const adjustment = adjustments.find(a => a.after === item);
+        return adjustment
+          ? { ...item, reason: t('planner.budget.replacedReason', { dish: adjustment.before.dish.name, limit: formatCent(adjustment.limitCent) }) }
+          : item;
+      }));
       
       // 5. Show completion on timeline before switching
       setTimelineStep('planReady');
@@ -276,11 +373,17 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
     } catch (err: any) {
       handleError(err, err.message);
     } finally {
-      if (step !== 'ai_config') setLoading(false);
+      setLoading(false);
     }
   };
 
   const executeOrder = async () => {
+    // The plan may have been edited or reopened from a draft since the caps were enforced
+    if (isOverBudget(summarizeBudget(plan, prefs.budget, getPlacedOrders(weekStatus, plan)))) {
+      addLog(t('planner.budget.overBlocked'));
+      return;
+    }
+
     setStep('submitting');
     setLoading(true);
     setOrderResults([]);
@@ -325,7 +428,8 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
 
     // 2. Execute
     for (const item of plan) {
-      addLog(t('planner.orderingItem', { dish: item.dish.name, date: item.date }));
+      const items = getOrderItems(item);
+      addLog(t('planner.orderingItem', { dish: formatItemsLabel(items), date: item.date }));
       
       let error: string | undefined;
       let addressIdToUse = item.userAddressUniqueId;
@@ -351,25 +455,40 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
             throw new Error(`No valid address found for namespace ${item.namespace || 'unknown'}`);
         }
 
-        let targetTime = "09:00";
-        if (item.mealTime === 'BREAKFAST') targetTime = "07:00";
-        if (item.mealTime === 'DINNER') targetTime = "12:00";
+        // The slot as in the calendar, for its target time and any order placed since planning
+        const slotStatus = weekStatus.find(s => getPlanSlotKey(s) === getPlanSlotKey(item));
+        const targetTime = slotStatus?.targetTime;
+        if (!targetTime) {
+            throw new Error(`No target time for ${item.date} ${getMealLabel(item)} in the calendar`);
+        }
 
         // Add delay to prevent rate limiting (1.5s)
         if (results.length > 0) {
           await new Promise(resolve => setTimeout(resolve, 1500));
         }
 
-        await placeOrder(item.tabUniqueId, item.dish.id, `${item.date} ${targetTime}`, prefs, addressIdToUse);
-        addLog(t('planner.orderSuccess', { date: item.date }));
+        // A slot ordered since planning gets its order swapped, restored if the new one fails
+        const currentOrderId = slotStatus.orderUniqueId;
+        const orderKey = `${getPlanSlotKey(item)}|${currentOrderId || ''}|${addressIdToUse}|${JSON.stringify(items.map(i => [i.dish.id, i.count, i.remark || '']))}`;
+        orderKeys.current[orderKey] ||= createKeyId('order');
+
+        if (currentOrderId) {
+          await replaceOrder(currentOrderId, item.tabUniqueId, items, targetTime, prefs, addressIdToUse, undefined, orderKeys.current[orderKey]);
+          addLog(t('planner.orderSuccess', { date: item.date }));
+        } else {
+          const result = await placeOrder(item.tabUniqueId, items, targetTime, prefs, addressIdToUse, undefined, orderKeys.current[orderKey]);
+          addLog(t(result.existing ? 'planner.orderAlreadyPlaced' : 'planner.orderSuccess', { date: item.date }));
+        }
       } catch (e: any) {
-        error = e.message || t('planner.unknownError');
+        error = e instanceof ReplaceOrderError && e.rollback
+          ? t(e.rollback === 'RESTORED' ? 'orderEdit.replaceRestored' : 'orderEdit.replaceNotRestored', { error: e.message })
+          : e.message || t('planner.unknownError');
         addLog(t('planner.orderFailed', { date: item.date, error: error }));
       }
 
       results.push({
         date: item.date,
-        dishName: item.dish.name,
+        dishName: formatItemsLabel(items),
         success: !error,
         message: error
       });
@@ -380,6 +499,76 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
     setLoading(false);
   };
 
+  const openDraft = async (summary: PlanDraftSummary) => {
+    setLoading(true);
+    setErrorMsg(null);
+    try {
+      const draft = await getPlanDraft(summary.id, prefs);
+      const latest = draft.versions[draft.versions.length - 1];
+      const items = latest?.items || [];
+
+      // Only slots that are still open can be executed
+      const openSlots = new Set(weekStatus.filter(s => s.status === 'AVAILABLE').map(s => getPlanSlotKey(s)));
+      const openItems = items.filter(item => openSlots.has(getPlanSlotKey(item)));
+      setPlan(openItems);
+      setStaleItems(items.filter(item => !openSlots.has(getPlanSlotKey(item))));
+
+      // Orders placed since the draft was saved may have used up the budget
+      if (isOverBudget(summarizeBudget(openItems, prefs.budget, getPlacedOrders(weekStatus, openItems)))) {
+        addLog(t('planner.budget.overBlocked'));
+      }
+
+      setActiveDraft(draft);
+      setDraftName(draft.name);
+      setCompareVersion(null);
+      setBudgetAdjustments([]);
+      setUnresolvedSlots([]);
+      setStep('review');
+    } catch (err: unknown) {
+      handleError(err, t('planner.drafts.openFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveDraft = async () => {
+    const name = draftName.trim() || t('planner.drafts.defaultName', { date: plan[0]?.date || staleItems[0]?.date || '' });
+    const items = [...plan, ...staleItems];
+    setSavingDraft(true);
+    try {
+      const saved = activeDraft
+        ? await updatePlanDraft(activeDraft.id, items, prefs, name)
+        : await createPlanDraft(name, items, prefs);
+      setActiveDraft(saved);
+      setDraftName(saved.name);
+      queryClient.invalidateQueries({ queryKey: meicanKeys.plans(prefs.username) });
+      addLog(t('planner.drafts.saved', { name: saved.name, version: saved.versions[saved.versions.length - 1]?.version }));
+    } catch (err: unknown) {
+      addLog(t('planner.drafts.saveFailed', { error: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setSavingDraft(false);
+    }
+  };
+
+  const dropStaleItem = (item: PlannedOrder) => {
+    setStaleItems(prev => prev.filter(stale => stale !== item));
+  };
+
+  const startNewPlan = () => {
+    setActiveDraft(null);
+    setDraftName('');
+    setStaleItems([]);
+    startPlanning();
+  };
+
+  const placedOrders = getPlacedOrders(weekStatus, plan);
+  const budgetSummary = summarizeBudget(plan, prefs.budget, placedOrders);
+  const placedCent = summarizeBudget([], prefs.budget, placedOrders).weekCent;
+  const overBudget = isOverBudget(budgetSummary);
+
+  const comparedVersion = activeDraft?.versions.find(v => v.version === compareVersion);
+  const versionDiff = comparedVersion ? diffPlans(comparedVersion.items, [...plan, ...staleItems]) : null;
+
   const removePlanItem = (index: number) => {
     setPlan(prev => prev.filter((_, i) => i !== index));
   };
@@ -435,11 +624,52 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
                 )}
                 
                 <button 
-                    onClick={startPlanning} 
+                    onClick={startNewPlan} 
                     className="bg-[#6FB92D] text-white px-10 py-4 rounded-full shadow-[0_10px_30px_rgba(111,185,45,0.3)] hover:bg-[#5da025] font-bold text-lg hover:scale-105 transition-all"
                 >
                     {t('planner.generateBtn')}
                 </button>
+
+                {!isAIConfigured() && (
+                    <p className="text-xs text-gray-500 mt-4 max-w-md">
+                        {t('planner.aiNotConfigured')}{' '}
+                        <button onClick={openAiConfig} className="text-[#6FB92D] hover:text-white font-bold">{t('planner.setUpAi')}</button>
+                    </p>
+                )}
+
+                {drafts.length > 0 && (
+                    <div className="w-full max-w-md mt-10 text-left">
+                        <div className="text-xs text-gray-500 mb-2 uppercase tracking-wider font-bold">{t('planner.drafts.title')}</div>
+                        <div className="bg-[#1e1e1e] rounded-xl border border-[#333] divide-y divide-[#333]">
+                            {drafts.map(draft => (
+                                <div key={draft.id} className="p-3 flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="text-sm font-bold text-white truncate">{draft.name}</div>
+                                        <div className="text-xs text-gray-500">
+                                            {t('planner.drafts.summary', { version: draft.latestVersion, count: draft.itemCount })} · {new Date(draft.updatedAt).toLocaleString()}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-3 shrink-0">
+                                        <button
+                                            onClick={() => openDraft(draft)}
+                                            disabled={loading}
+                                            className="text-xs font-bold text-[#6FB92D] hover:text-white disabled:opacity-50"
+                                        >
+                                            {t('planner.drafts.open')}
+                                        </button>
+                                        <button
+                                            onClick={() => deleteDraftMutation.mutate({ id: draft.id, prefs })}
+                                            disabled={deleteDraftMutation.isPending}
+                                            className="text-xs text-gray-500 hover:text-red-400 disabled:opacity-50"
+                                        >
+                                            {t('planner.remove')}
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </div>
           )}
           
@@ -492,10 +722,13 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
                         >
                           <option value="gemini">{t('settings.geminiModel')}</option>
                           <option value="custom">{t('settings.customAi')}</option>
+                          <option value="local">{t('settings.localPlanner')}</option>
                         </select>
                      </div>
                      
-                     {(configForm.aiProvider || prefs.aiProvider) === 'custom' ? (
+                     {(configForm.aiProvider || prefs.aiProvider) === 'local' ? (
+                        <p className="text-xs text-gray-500">{t('settings.localPlannerHint')}</p>
+                     ) : (configForm.aiProvider || prefs.aiProvider) === 'custom' ? (
                         <>
                              <div>
                                  <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.baseUrl')}</label>
@@ -546,7 +779,9 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
                       <button 
                          onClick={saveAiConfig} 
                          disabled={
-                             (configForm.aiProvider === 'custom' || prefs.aiProvider === 'custom') 
+                             (configForm.aiProvider || prefs.aiProvider) === 'local'
+                                ? false
+                                : (configForm.aiProvider === 'custom' || prefs.aiProvider === 'custom') 
                                 ? (!configForm.customAiApiKey || !configForm.customAiBaseUrl)
                                 : !configForm.geminiApiKey
                          }
@@ -650,25 +885,179 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
                      {t('planner.reviewItems')}
                  </span>
               </div>
+
+              {/* Draft controls */}
+              <div className="bg-[#1e1e1e] border border-[#333] rounded-2xl p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <input
+                    type="text"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    placeholder={t('planner.drafts.namePlaceholder')}
+                    className="flex-1 rounded-lg border border-[#444] bg-[#252525] p-2.5 text-sm text-white focus:border-[#6FB92D] outline-none"
+                  />
+                  <button
+                    onClick={saveDraft}
+                    disabled={savingDraft || plan.length + staleItems.length === 0 || !prefs.username}
+                    className="px-5 py-2.5 bg-[#333] border border-[#444] hover:border-[#6FB92D] hover:text-[#6FB92D] text-gray-300 rounded-lg text-sm font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {savingDraft ? t('planner.drafts.saving') : activeDraft ? t('planner.drafts.saveVersion') : t('planner.drafts.save')}
+                  </button>
+                </div>
+
+                {activeDraft && activeDraft.versions.length > 0 && (
+                  <div className="flex items-center gap-3 text-xs text-gray-400">
+                    <span>{t('planner.drafts.compareWith')}</span>
+                    <select
+                      value={compareVersion ?? ''}
+                      onChange={(e) => setCompareVersion(e.target.value ? parseInt(e.target.value) : null)}
+                      className="rounded-lg border border-[#444] bg-[#252525] p-1.5 text-white outline-none"
+                    >
+                      <option value="">—</option>
+                      {activeDraft.versions.map(v => (
+                        <option key={v.version} value={v.version}>
+                          v{v.version} · {new Date(v.savedAt).toLocaleString()}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {versionDiff && (
+                  isEmptyDiff(versionDiff) ? (
+                    <div className="text-xs text-gray-500">{t('planner.drafts.noChanges')}</div>
+                  ) : (
+                    <div className="text-xs space-y-1">
+                      {versionDiff.added.map(item => (
+                        <div key={`a-${getPlanSlotKey(item)}`} className="text-[#6FB92D]">+ {item.date} {getMealLabel(item)}: {formatItemsLabel(getOrderItems(item))}</div>
+                      ))}
+                      {versionDiff.removed.map(item => (
+                        <div key={`r-${getPlanSlotKey(item)}`} className="text-red-400">− {item.date} {getMealLabel(item)}: {formatItemsLabel(getOrderItems(item))}</div>
+                      ))}
+                      {versionDiff.changed.map(({ before, after }) => (
+                        <div key={`c-${getPlanSlotKey(after)}`} className="text-yellow-400">~ {after.date} {getMealLabel(after)}: {formatItemsLabel(getOrderItems(before))} → {formatItemsLabel(getOrderItems(after))}</div>
+                      ))}
+                    </div>
+                  )
+                )}
+              </div>
+
+              {staleItems.length > 0 && (
+                <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-2xl p-4 text-xs text-yellow-300">
+                  <div className="flex items-start justify-between gap-3 mb-1">
+                    <span className="font-bold">{t('planner.drafts.staleTitle', { count: staleItems.length })}</span>
+                    <button onClick={() => setStaleItems([])} className="shrink-0 text-yellow-300/70 hover:text-white hover:underline">
+                      {t('planner.drafts.dropAllStale')}
+                    </button>
+                  </div>
+                  {staleItems.map(item => (
+                    <div key={getPlanSlotKey(item)} className="flex items-center justify-between gap-3">
+                      <span>{item.date} {getMealLabel(item)}: {formatItemsLabel(getOrderItems(item))}</span>
+                      <button onClick={() => dropStaleItem(item)} className="shrink-0 text-yellow-300/70 hover:text-white hover:underline">
+                        {t('planner.drafts.dropStale')}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {unresolvedSlots.length > 0 && (
+                <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-2xl p-4 text-xs text-yellow-300">
+                  <div className="font-bold mb-1">{t('planner.validation.unresolvedTitle', { count: unresolvedSlots.length })}</div>
+                  {unresolvedSlots.map(slot => (
+                    <div key={getPlanSlotKey(slot)} title={slot.issues.join('\n')}>
+                      {slot.date} {getMealLabel(slot)}
+                      {slot.issues[0] && <span className="text-yellow-300/60"> — {slot.issues[0]}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Budget */}
+              {hasBudget(prefs.budget) && (
+                <div className={`bg-[#1e1e1e] border rounded-2xl p-4 space-y-3 ${overBudget ? 'border-red-500/40' : 'border-[#333]'}`}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-400 font-bold">{t('planner.budget.title')}</span>
+                    <span className={`font-mono ${budgetSummary.overWeek ? 'text-red-400' : 'text-white'}`}>
+                      {formatCent(budgetSummary.weekCent)}
+                      {prefs.budget!.perWeekCent ? ` / ${formatCent(prefs.budget!.perWeekCent)}` : ''}
+                    </span>
+                  </div>
+                  {prefs.budget!.perWeekCent ? (
+                    <div className="h-2 bg-[#333] rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${budgetSummary.overWeek ? 'bg-red-500' : 'bg-[#6FB92D]'}`}
+                        style={{ width: `${Math.min(100, (budgetSummary.weekCent / prefs.budget!.perWeekCent) * 100)}%` }}
+                      />
+                    </div>
+                  ) : null}
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {Object.entries(budgetSummary.dayCent).sort(([a], [b]) => a.localeCompare(b)).map(([date, cent]) => (
+                      <span
+                        key={date}
+                        className={`px-2 py-1 rounded border ${budgetSummary.overDays.includes(date) ? 'border-red-500/40 text-red-400' : 'border-[#333] text-gray-400'}`}
+                      >
+                        {date.slice(5)} · {formatCent(cent)}{prefs.budget!.perDayCent ? ` / ${formatCent(prefs.budget!.perDayCent)}` : ''}
+                      </span>
+                    ))}
+                  </div>
+                  {placedCent > 0 && (
+                    <div className="text-xs text-gray-500">{t('planner.budget.placedNote', { amount: formatCent(placedCent) })}</div>
+                  )}
+                  {overBudget && (
+                    <div className="text-xs text-red-400">{t('planner.budget.overBlocked')}</div>
+                  )}
+                  {!!prefs.budget!.subsidyCent && (
+                    <div className="text-xs text-gray-500">{t('planner.budget.subsidyNote', { amount: formatCent(prefs.budget!.subsidyCent) })}</div>
+                  )}
+                  {budgetAdjustments.length > 0 && (
+                    <div className="text-xs text-yellow-300 space-y-1">
+                      {budgetAdjustments.map(adjustment => (
+                        <div key={getPlanSlotKey(adjustment.before)}>
+                          {adjustment.after
+                            ? t('planner.budget.replacedLog', { date: adjustment.before.date, from: adjustment.before.dish.name, to: adjustment.after.dish.name })
+                            : t('planner.budget.droppedLog', { date: adjustment.before.date, dish: adjustment.before.dish.name })}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="grid grid-cols-1 gap-4">
                 {plan.map((item, idx) => (
                   <div key={idx} className="bg-[#2A2A2A] border border-[#333] rounded-2xl p-4 md:p-5 flex flex-col sm:flex-row justify-between items-start hover:border-[#6FB92D]/40 transition-all group shadow-sm gap-4 sm:gap-0">
                     <div>
                       <div className="flex items-center space-x-3 mb-2">
                         <span className="font-bold text-white bg-[#333] px-3 py-1 rounded-lg text-sm">{item.date}</span>
-                        <span className="text-xs font-bold px-2 py-1 rounded bg-[#181818] text-gray-400 border border-[#333]">{item.mealTime}</span>
+                        <span className="text-xs font-bold px-2 py-1 rounded bg-[#181818] text-gray-400 border border-[#333]">{getMealLabel(item)}</span>
                         <span className="text-xs text-[#6FB92D] font-medium px-2 py-1 bg-[#6FB92D]/10 rounded border border-[#6FB92D]/20">
                           {item.dish.restaurantName}
                         </span>
                       </div>
                       <h4 className="text-lg font-bold text-gray-200 group-hover:text-[#6FB92D] transition-colors">{item.dish.name}</h4>
+                      {getOrderItems(item).length > 1 && (
+                        <p className="text-sm text-gray-400 mt-1">
+                          {t('planner.extras', { items: formatItemsLabel(getOrderItems(item).slice(1)) })}
+                        </p>
+                      )}
+                      {getOrderItems(item).filter(orderItem => orderItem.remark).map(orderItem => (
+                        <p key={orderItem.dish.id} className="text-xs text-yellow-400/80 mt-1">
+                          {t('planner.remark', { dish: orderItem.dish.name, remark: orderItem.remark })}
+                        </p>
+                      ))}
                       <p className="text-xs text-gray-500 mt-2 italic flex items-center">
                         <span className="w-1 h-1 bg-gray-500 rounded-full mr-2"></span>
                         {item.reason}
                       </p>
                     </div>
                     <div className="flex flex-row sm:flex-col items-center sm:items-end justify-between w-full sm:w-auto space-x-4 sm:space-x-0 sm:space-y-3">
-                      <span className="font-mono text-xl text-white">¥{(item.dish.priceInCent / 100).toFixed(2)}</span>
+                      <div className="text-right">
+                        <span className={`font-mono text-xl ${budgetSummary.overMealSlots.includes(getPlanSlotKey(item)) ? 'text-red-400' : 'text-white'}`}>¥{(getItemsTotalCent(getOrderItems(item)) / 100).toFixed(2)}</span>
+                        {!!prefs.budget?.subsidyCent && (
+                          <div className="text-xs text-gray-500">{t('planner.budget.youPay', { amount: formatCent(getOutOfPocketCent(getItemsTotalCent(getOrderItems(item)), prefs.budget)) })}</div>
+                        )}
+                      </div>
                       <button 
                         onClick={() => removePlanItem(idx)}
                         className="text-gray-500 text-xs hover:text-red-400 transition-colors uppercase tracking-wide font-bold"
@@ -733,7 +1122,7 @@ const Planner: React.FC<Props> = ({ weekStatus, prefs, onUpdatePrefs, onOrdersPl
                <button 
                  onClick={executeOrder} 
                  className="w-full sm:w-auto px-8 py-2.5 bg-white text-black rounded-full shadow hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed font-bold transition-colors"
-                 disabled={plan.length === 0}
+                 disabled={plan.length === 0 || overBudget}
                >
                   {t('planner.confirmAndPlace')}
                </button>
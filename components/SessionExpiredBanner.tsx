@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { UserPreferences } from '../types';
+import { useLogin } from '../hooks/useMeican';
+
+interface Props {
+  prefs: UserPreferences;
+  onRelogin: (prefs: UserPreferences) => void;
+  onLogout: () => void;
+}
+
+/**
+ * Shown when Meican no longer accepts the session; logs in again with the saved
+ * password, or sends the user back to the login page when there is none
+ */
+const SessionExpiredBanner: React.FC<Props> = ({ prefs, onRelogin, onLogout }) => {
+  const { t } = useTranslation();
+  const loginMutation = useLogin();
+  const [error, setError] = useState('');
+
+  const handleRelogin = async () => {
+    if (!prefs.username || !prefs.password) {
+      onLogout();
+      return;
+    }
+
+    setError('');
+    try {
+      const result = await loginMutation.mutateAsync({
+        username: prefs.username,
+        password: prefs.password,
+        rememberCredentials: prefs.rememberCredentials,
+      });
+      if (result.success && result.sessionId) {
+        onRelogin({ ...prefs, sessionId: result.sessionId });
+      } else {
+        setError(result.error || t('login.loginFailed'));
+      }
+    } catch {
+      setError(t('login.networkError'));
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-2xl flex flex-col sm:flex-row sm:items-center gap-3">
+      <div className="flex-1">
+        <p className="text-sm text-yellow-400">⚠️ {t('sessionExpired.message')}</p>
+        {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      </div>
+      <button
+        onClick={handleRelogin}
+        disabled={loginMutation.isPending}
+        className="px-4 py-2 bg-[#6FB92D] hover:bg-[#5da025] text-white rounded-full text-sm font-medium disabled:opacity-50 transition-colors"
+      >
+        {loginMutation.isPending ? '...' : t('sessionExpired.relogin')}
+      </button>
+    </div>
+  );
+};
+
+export default SessionExpiredBanner;
@@ -1,9 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { UserPreferences } from '../types';
-import { savePreferences } from '../services/db';
-import { useLogin, useLogout, useCalendarStatus, useUserAddresses, Address } from '../hooks/useMeican';
+import { BudgetPreferences, DishFilters, ReminderChannel, Spiciness, UserPreferences, WebhookFormat } from '../types';
+import {
+  activateAccount,
+  EncryptionStatus,
+  getEncryptionStatus,
+  removePassphrase,
+  rotateEncryptionKey,
+  savePreferences,
+  setPassphrase,
+} from '../services/db';
+import { useLogin, useLogout, useCalendarStatus, useUserAddresses, useSchedulerStatus, useRunScheduler, useTestWebhook, Address } from '../hooks/useMeican';
+import { isBrowserNotificationSupported, requestNotificationPermission } from '../hooks/useDeadlineReminders';
 import { getSettings, saveSettings } from '../services/meicanService';
+import { getMealTabs, isMealTabEnabled } from '../utils/mealTabs';
+import { DISH_ALLERGENS, DISH_PROTEINS, SPICINESS_LEVELS } from '../utils/dishTags';
 
 interface Props {
   initialPrefs: UserPreferences;
@@ -26,6 +37,8 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
     }
     return initialPrefs;
   });
+  // Remark templates as typed; split into the list on blur and on save
+  const [remarkTemplatesText, setRemarkTemplatesText] = useState(() => (initialPrefs.remarkTemplates || []).join(', '));
   const [newVendor, setNewVendor] = useState('');
   const [newWeight, setNewWeight] = useState(0);
   const [loginError, setLoginError] = useState('');
@@ -52,8 +65,8 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
   const { start: startDate, end: endDate } = dateRange;
 
   // 2. Fetch calendar to get namespace
-  // Only enable if logged in and not using mock data (logic copied from original loadAddresses)
-  const shouldLoadAddresses = !!formData.sessionId && !formData.useMockData;
+  // Only enable if logged in (logic copied from original loadAddresses)
+  const shouldLoadAddresses = !!formData.sessionId;
   
   const { data: calendarData } = useCalendarStatus(
     startDate, 
@@ -61,26 +74,35 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
     formData
     // Implicitly enabled via prefs=formData? No, my hook enables if prefs exist. 
     // But here we want to control it. My hook doesn't support 'enabled'.
-    // However, getCalendarStatus will return mock data if useMockData is true, or try API.
     // Ideally we'd modify the hook. But let's assume it runs.
     // Using 'formData' which updates as we type? 
     // If we type into username/password, formData updates. 
     // We only want to trigger this mainly when sessionId is present.
   );
   
-  // 3. Get namespace
+  // 3. Get namespace and the meal tabs that can be switched on and off
   const namespace = calendarData?.find(d => d.namespace)?.namespace;
+  const mealTabs = getMealTabs(calendarData || []);
 
   // 4. Fetch addresses
   const { data: addressData, isLoading: addressLoading } = useUserAddresses(
     formData, 
     namespace
     // This will run if formData is present.
-    // getAddresses returns mock if useMockData=true.
   );
   
   const addresses = addressData?.addresses || [];
 
+  // 5. Auto-order daemon activity
+  const { data: schedulerStatus } = useSchedulerStatus(formData);
+  const runSchedulerMutation = useRunScheduler();
+
+  // 6. Deadline reminders
+  const testWebhookMutation = useTestWebhook();
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | null>(
+    isBrowserNotificationSupported() ? Notification.permission : null
+  );
+
   // Effect to auto-select default address
   useEffect(() => {
     if (shouldLoadAddresses && addressData?.defaultAddressId && !formData.defaultAddressId) {
@@ -92,6 +114,8 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const parseRemarkTemplates = (text: string): string[] => text.split(',').map(s => s.trim()).filter(Boolean);
+
   const handleLogin = async () => {
     if (!formData.username || !formData.password) {
       setLoginError('请输入用户名和密码');
@@ -103,7 +127,8 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
     try {
       const result = await loginMutation.mutateAsync({
         username: formData.username,
-        password: formData.password
+        password: formData.password,
+        rememberCredentials: formData.rememberCredentials,
       });
 
       if (result.success && result.sessionId) {
@@ -111,15 +136,16 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
         let updatedPrefs = { ...formData, sessionId: result.sessionId };
         
         // Fetch settings from backend
-        const backendSettings = await getSettings(formData.username);
+        const backendSettings = await getSettings(result.sessionId);
         if (backendSettings) {
           updatedPrefs = { ...updatedPrefs, ...backendSettings };
         }
 
         setFormData(updatedPrefs);
+        setRemarkTemplatesText((updatedPrefs.remarkTemplates || []).join(', '));
         
         // Persist to IndexedDB immediately
-        await savePreferences(updatedPrefs);
+        await activateAccount(updatedPrefs);
         // Notify parent to update state (so calendar can reload)
         onSave(updatedPrefs);
       } else {
@@ -145,11 +171,12 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
   };
 
   const handleSave = async () => {
-    await savePreferences(formData);
-    if (formData.username) {
-      await saveSettings(formData.username, formData);
+    const prefs = { ...formData, remarkTemplates: parseRemarkTemplates(remarkTemplatesText) };
+    await savePreferences(prefs);
+    if (prefs.sessionId) {
+      await saveSettings(prefs.sessionId, prefs);
     }
-    onSave(formData);
+    onSave(prefs);
     onClose();
   };
 
@@ -164,6 +191,70 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
     }
   };
 
+  const [encryptionStatus, setEncryptionStatus] = useState<EncryptionStatus | null>(null);
+  const [passphraseInput, setPassphraseInput] = useState('');
+  const [encryptionMessage, setEncryptionMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    getEncryptionStatus().then(setEncryptionStatus);
+  }, []);
+
+  // Each action re-encrypts the stored credentials with the new key
+  const runEncryptionAction = async (action: () => Promise<void>, successText: string) => {
+    setEncryptionMessage(null);
+    try {
+      await action();
+      setPassphraseInput('');
+      setEncryptionMessage({ ok: true, text: successText });
+    } catch (e) {
+      setEncryptionMessage({ ok: false, text: e instanceof Error ? e.message : String(e) });
+    }
+    setEncryptionStatus(await getEncryptionStatus());
+  };
+
+  const handleSetPassphrase = () => {
+    if (passphraseInput.length < 8) {
+      setEncryptionMessage({ ok: false, text: t('settings.encryptionPassphraseTooShort') });
+      return;
+    }
+    runEncryptionAction(() => setPassphrase(passphraseInput), t('settings.encryptionPassphraseSaved'));
+  };
+
+  const reminderChannels = formData.reminderChannels || ['browser'];
+
+  const toggleReminderChannel = async (channel: ReminderChannel, checked: boolean) => {
+    if (checked && channel === 'browser') {
+      setNotificationPermission(await requestNotificationPermission());
+    }
+    const next = checked
+      ? [...reminderChannels.filter(c => c !== channel), channel]
+      : reminderChannels.filter(c => c !== channel);
+    handleChange('reminderChannels', next);
+  };
+
+  // Budget inputs are in yuan, stored in cents; empty means no cap
+  const handleBudgetChange = (field: keyof BudgetPreferences, value: string) => {
+    const yuan = parseFloat(value);
+    handleChange('budget', {
+      ...formData.budget,
+      [field]: yuan > 0 ? Math.round(yuan * 100) : undefined,
+    });
+  };
+
+  const handleDishFiltersChange = (changes: Partial<DishFilters>) => {
+    handleChange('dishFilters', { ...formData.dishFilters, ...changes });
+  };
+
+  const toggleInList = <T extends string>(list: T[] | undefined, value: T): T[] =>
+    (list || []).includes(value) ? (list || []).filter(v => v !== value) : [...(list || []), value];
+
+  const budgetFields: { field: keyof BudgetPreferences; label: string }[] = [
+    { field: 'perMealCent', label: t('settings.budgetPerMeal') },
+    { field: 'perDayCent', label: t('settings.budgetPerDay') },
+    { field: 'perWeekCent', label: t('settings.budgetPerWeek') },
+    { field: 'subsidyCent', label: t('settings.budgetSubsidy') },
+  ];
+
   const isLoggedIn = !!formData.sessionId;
   const isLoginLoading = loginMutation.isPending;
 
@@ -209,117 +300,101 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
               <span className="w-2 h-2 rounded-full bg-[#6FB92D] mr-2"></span> {t('settings.connectivity')}
             </h3>
             <div className="grid grid-cols-1 gap-4">
-              <label className="flex items-center space-x-3 cursor-pointer group">
-                <input 
-                  type="checkbox" 
-                  checked={formData.useMockData}
-                  onChange={(e) => handleChange('useMockData', e.target.checked)}
-                  className="w-5 h-5 rounded border-gray-600 bg-[#333] text-[#6FB92D] focus:ring-[#6FB92D] focus:ring-offset-[#252525]"
-                />
-                <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.useMockData')}</span>
-              </label>
-              
-              {!formData.useMockData && (
+              {/* Login Status */}
+              {isLoggedIn ? (
                 <>
-
-
-                  {/* Login Status */}
-                  {isLoggedIn ? (
-                    <>
-                      <div className="p-4 bg-[#6FB92D]/10 border border-[#6FB92D]/30 rounded-xl">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-2">
-                            <div className="w-3 h-3 rounded-full bg-[#6FB92D] animate-pulse"></div>
-                            <span className="text-[#6FB92D] font-medium">{t('settings.loggedIn')}</span>
-                            <span className="text-gray-400 text-sm">({formData.username})</span>
-                          </div>
-                          <button
-                            onClick={handleLogout}
-                            className="px-4 py-1.5 text-sm text-red-400 hover:text-red-300 hover:bg-red-400/10 rounded-lg transition-colors"
-                          >
-                            {t('settings.logout')}
-                          </button>
-                        </div>
-                      </div>
-                      
-                      {/* Default Delivery Address */}
-                      <div>
-                        <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.defaultAddress')}</label>
-                        {addressLoading ? (
-                          <div className="w-full rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-500">
-                            {t('settings.loadingAddresses')}
-                          </div>
-                        ) : addresses.length > 0 ? (
-                          <select
-                            value={formData.defaultAddressId || ''}
-                            onChange={(e) => handleChange('defaultAddressId', e.target.value)}
-                            className="w-full rounded-xl border border-[#444] bg-[#181818] shadow-sm p-3 text-sm text-gray-300 focus:border-[#6FB92D] focus:ring-1 focus:ring-[#6FB92D] outline-none transition-all"
-                          >
-                            <option value="">{t('settings.selectAddress')}</option>
-                            {addresses.map((addr) => (
-                              <option key={addr.uniqueId} value={addr.uniqueId}>
-                                {addr.name}
-                              </option>
-                            ))}
-                          </select>
-                        ) : (
-                          <div className="w-full rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-500 flex items-center justify-between">
-                            <span>{t('settings.addressNotFound')}</span>
-                            <div className="text-[#6FB92D] text-xs">
-                               {t('settings.autoFetched')}
-                            </div>
-                          </div>
-                        )}
-                        <p className="text-xs text-gray-500 mt-1">{t('settings.addressHint')}</p>
+                  <div className="p-4 bg-[#6FB92D]/10 border border-[#6FB92D]/30 rounded-xl">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <div className="w-3 h-3 rounded-full bg-[#6FB92D] animate-pulse"></div>
+                        <span className="text-[#6FB92D] font-medium">{t('settings.loggedIn')}</span>
+                        <span className="text-gray-400 text-sm">({formData.username})</span>
                       </div>
-                    </>
-                  ) : (
-                    <>
-                      {/* Username */}
-                      <div>
-                        <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.username')}</label>
-                        <input 
-                          type="text"
-                          value={formData.username}
-                          onChange={(e) => handleChange('username', e.target.value)}
-                          className="w-full rounded-xl border border-[#444] bg-[#181818] shadow-sm p-3 text-sm text-gray-300 focus:border-[#6FB92D] focus:ring-1 focus:ring-[#6FB92D] outline-none transition-all"
-                          placeholder={t('settings.usernamePlaceholder')}
-                        />
+                      <button
+                        onClick={handleLogout}
+                        className="px-4 py-1.5 text-sm text-red-400 hover:text-red-300 hover:bg-red-400/10 rounded-lg transition-colors"
+                      >
+                        {t('settings.logout')}
+                      </button>
+                    </div>
+                  </div>
+                  
+                  {/* Default Delivery Address */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.defaultAddress')}</label>
+                    {addressLoading ? (
+                      <div className="w-full rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-500">
+                        {t('settings.loadingAddresses')}
                       </div>
-
-                      {/* Password */}
-                      <div>
-                        <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.password')}</label>
-                        <input 
-                          type="password"
-                          value={formData.password}
-                          onChange={(e) => handleChange('password', e.target.value)}
-                          className="w-full rounded-xl border border-[#444] bg-[#181818] shadow-sm p-3 text-sm text-gray-300 focus:border-[#6FB92D] focus:ring-1 focus:ring-[#6FB92D] outline-none transition-all"
-                          placeholder={t('settings.passwordPlaceholder')}
-                        />
+                    ) : addresses.length > 0 ? (
+                      <select
+                        value={formData.defaultAddressId || ''}
+                        onChange={(e) => handleChange('defaultAddressId', e.target.value)}
+                        className="w-full rounded-xl border border-[#444] bg-[#181818] shadow-sm p-3 text-sm text-gray-300 focus:border-[#6FB92D] focus:ring-1 focus:ring-[#6FB92D] outline-none transition-all"
+                      >
+                        <option value="">{t('settings.selectAddress')}</option>
+                        {addresses.map((addr) => (
+                          <option key={addr.uniqueId} value={addr.uniqueId}>
+                            {addr.name}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <div className="w-full rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-500 flex items-center justify-between">
+                        <span>{t('settings.addressNotFound')}</span>
+                        <div className="text-[#6FB92D] text-xs">
+                           {t('settings.autoFetched')}
+                        </div>
                       </div>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">{t('settings.addressHint')}</p>
+                  </div>
+                </>
+              ) : (
+                <>
+                  {/* Username */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.username')}</label>
+                    <input 
+                      type="text"
+                      value={formData.username}
+                      onChange={(e) => handleChange('username', e.target.value)}
+                      className="w-full rounded-xl border border-[#444] bg-[#181818] shadow-sm p-3 text-sm text-gray-300 focus:border-[#6FB92D] focus:ring-1 focus:ring-[#6FB92D] outline-none transition-all"
+                      placeholder={t('settings.usernamePlaceholder')}
+                    />
+                  </div>
 
-                      {/* Login Error */}
-                      {loginError && (
-                        <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg">
-                          {loginError}
-                        </div>
-                      )}
+                  {/* Password */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.password')}</label>
+                    <input 
+                      type="password"
+                      value={formData.password}
+                      onChange={(e) => handleChange('password', e.target.value)}
+                      className="w-full rounded-xl border border-[#444] bg-[#181818] shadow-sm p-3 text-sm text-gray-300 focus:border-[#6FB92D] focus:ring-1 focus:ring-[#6FB92D] outline-none transition-all"
+                      placeholder={t('settings.passwordPlaceholder')}
+                    />
+                  </div>
 
-                      {/* Login Button */}
-                      <button
-                        onClick={handleLogin}
-                        disabled={isLoginLoading}
-                        className={`w-full py-3 rounded-xl font-medium transition-all ${
-                          isLoginLoading
-                            ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
-                            : 'bg-[#6FB92D] text-white hover:bg-[#5da025] shadow-lg shadow-[#6FB92D]/20'
-                        }`}
-                      >
-                        {isLoginLoading ? t('settings.loggingIn') : t('settings.login')}
-                      </button>
-                    </>
+                  {/* Login Error */}
+                  {loginError && (
+                    <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg">
+                      {loginError}
+                    </div>
                   )}
+
+                  {/* Login Button */}
+                  <button
+                    onClick={handleLogin}
+                    disabled={isLoginLoading}
+                    className={`w-full py-3 rounded-xl font-medium transition-all ${
+                      isLoginLoading
+                        ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                        : 'bg-[#6FB92D] text-white hover:bg-[#5da025] shadow-lg shadow-[#6FB92D]/20'
+                    }`}
+                  >
+                    {isLoginLoading ? t('settings.loggingIn') : t('settings.login')}
+                  </button>
                 </>
               )}
             </div>
@@ -342,13 +417,16 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
                   <option value="gemini">{t('settings.geminiModel')}</option>
                   <option value="openrouter">OpenRouter (Free)</option>
                   <option value="custom">{t('settings.customAi')}</option>
+                  <option value="local">{t('settings.localPlanner')}</option>
                 </select>
                 {formData.aiProvider === 'openrouter' && (
                   <p className="text-xs text-yellow-500 mt-1">Free But Not Stable</p>
                 )}
               </div>
 
-              {formData.aiProvider === 'custom' ? (
+              {formData.aiProvider === 'local' ? (
+                <p className="text-xs text-gray-500 -mt-2">{t('settings.localPlannerHint')}</p>
+              ) : formData.aiProvider === 'custom' ? (
                 <>
                   <div>
                     <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.baseUrl')}</label>
@@ -409,22 +487,215 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
             </div>
           </div>
 
-          {/* Preferences */}
-          <div className="p-6 bg-[#2A2A2A] rounded-2xl border border-white/5">
-            <h3 className="font-semibold text-[#6FB92D] mb-4 flex items-center">
-               <span className="w-2 h-2 rounded-full bg-[#6FB92D] mr-2"></span> {t('settings.dietaryPreferences')}
-            </h3>
-            <div className="grid grid-cols-1 gap-4">
-              <div className="flex space-x-6">
+          {/* Auto-Ordering */}
+          {isLoggedIn && (
+            <div className="p-6 bg-[#2A2A2A] rounded-2xl border border-white/5">
+              <h3 className="font-semibold text-[#6FB92D] mb-4 flex items-center">
+                <span className="w-2 h-2 rounded-full bg-[#6FB92D] mr-2"></span> {t('settings.autoOrder')}
+              </h3>
+              <div className="grid grid-cols-1 gap-4">
                 <label className="flex items-center space-x-3 cursor-pointer group">
                   <input 
                     type="checkbox" 
-                    checked={formData.enableBreakfast || false}
-                    onChange={(e) => handleChange('enableBreakfast', e.target.checked)}
+                    checked={formData.autoOrderEnabled || false}
+                    onChange={(e) => handleChange('autoOrderEnabled', e.target.checked)}
                     className="w-5 h-5 rounded border-gray-600 bg-[#333] text-[#6FB92D] focus:ring-[#6FB92D] focus:ring-offset-[#252525]"
                   />
-                  <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.includeBreakfast')}</span>
+                  <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.autoOrderEnabled')}</span>
                 </label>
+                <p className="text-xs text-gray-500 -mt-2">{t('settings.autoOrderHint')}</p>
+
+                {formData.autoOrderEnabled && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.autoOrderLeadMinutes')}</label>
+                    <input 
+                      type="number"
+                      min={5}
+                      value={formData.autoOrderLeadMinutes ?? 60}
+                      onChange={(e) => handleChange('autoOrderLeadMinutes', parseInt(e.target.value) || 60)}
+                      className="w-32 rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-300 focus:border-[#6FB92D] outline-none"
+                    />
+                  </div>
+                )}
+
+                {schedulerStatus && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-gray-400">{t('settings.autoOrderActivity')}</label>
+                      <button
+                        onClick={() => runSchedulerMutation.mutate(formData)}
+                        disabled={runSchedulerMutation.isPending || !schedulerStatus.autoOrderEnabled}
+                        className="text-xs text-[#6FB92D] hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {runSchedulerMutation.isPending ? t('settings.autoOrderRunning') : t('settings.autoOrderRunNow')}
+                      </button>
+                    </div>
+                    {!schedulerStatus.daemonEnabled && (
+                      <p className="text-xs text-yellow-500 mb-2">{t('settings.autoOrderDaemonDisabled')}</p>
+                    )}
+                    {schedulerStatus.lastError && (
+                      <p className="text-xs text-red-400 mb-2">{schedulerStatus.lastError}</p>
+                    )}
+                    {schedulerStatus.events.length === 0 ? (
+                      <div className="rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-500">
+                        {t('settings.autoOrderNoActivity')}
+                      </div>
+                    ) : (
+                      <div className="rounded-xl border border-[#444] bg-[#181818] divide-y divide-[#333] max-h-48 overflow-y-auto">
+                        {schedulerStatus.events.slice(0, 10).map((event, i) => (
+                          <div key={i} className="p-3 text-xs flex justify-between items-start gap-3">
+                            <div>
+                              <div className="text-gray-300">{event.date} · {event.mealName || event.mealTime}</div>
+                              <div className="text-gray-500">{event.dishName || event.message}</div>
+                            </div>
+                            <span className={
+                              event.action === 'ordered' ? 'text-[#6FB92D] font-bold'
+                                : event.action === 'failed' ? 'text-red-400 font-bold'
+                                : 'text-gray-500 font-bold'
+                            }>
+                              {t(`settings.autoOrderActions.${event.action}`)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {schedulerStatus.lastRunAt && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {t('settings.autoOrderLastRun', { time: new Date(schedulerStatus.lastRunAt).toLocaleString() })}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Deadline Reminders */}
+          <div className="p-6 bg-[#2A2A2A] rounded-2xl border border-white/5">
+            <h3 className="font-semibold text-[#6FB92D] mb-4 flex items-center">
+              <span className="w-2 h-2 rounded-full bg-[#6FB92D] mr-2"></span> {t('settings.reminders')}
+            </h3>
+            <div className="grid grid-cols-1 gap-4">
+              <label className="flex items-center space-x-3 cursor-pointer group">
+                <input 
+                  type="checkbox" 
+                  checked={formData.reminderEnabled || false}
+                  onChange={(e) => handleChange('reminderEnabled', e.target.checked)}
+                  className="w-5 h-5 rounded border-gray-600 bg-[#333] text-[#6FB92D] focus:ring-[#6FB92D] focus:ring-offset-[#252525]"
+                />
+                <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.remindersEnabled')}</span>
+              </label>
+              <p className="text-xs text-gray-500 -mt-2">{t('settings.remindersHint')}</p>
+
+              {formData.reminderEnabled && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.remindersLeadMinutes')}</label>
+                    <input 
+                      type="number"
+                      min={5}
+                      value={formData.reminderLeadMinutes ?? 30}
+                      onChange={(e) => handleChange('reminderLeadMinutes', parseInt(e.target.value) || 30)}
+                      className="w-32 rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-300 focus:border-[#6FB92D] outline-none"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">{t('settings.remindersChannels')}</label>
+                    <div className="space-y-3">
+                      <label className="flex items-center space-x-3 cursor-pointer group">
+                        <input 
+                          type="checkbox" 
+                          checked={reminderChannels.includes('browser')}
+                          disabled={!isBrowserNotificationSupported()}
+                          onChange={(e) => toggleReminderChannel('browser', e.target.checked)}
+                          className="w-5 h-5 rounded border-gray-600 bg-[#333] text-[#6FB92D] focus:ring-[#6FB92D] focus:ring-offset-[#252525]"
+                        />
+                        <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.remindersBrowser')}</span>
+                      </label>
+                      {reminderChannels.includes('browser') && notificationPermission === 'denied' && (
+                        <p className="text-xs text-yellow-500">{t('settings.remindersPermissionDenied')}</p>
+                      )}
+
+                      {isLoggedIn && (
+                        <label className="flex items-center space-x-3 cursor-pointer group">
+                          <input 
+                            type="checkbox" 
+                            checked={reminderChannels.includes('webhook')}
+                            onChange={(e) => toggleReminderChannel('webhook', e.target.checked)}
+                            className="w-5 h-5 rounded border-gray-600 bg-[#333] text-[#6FB92D] focus:ring-[#6FB92D] focus:ring-offset-[#252525]"
+                          />
+                          <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.remindersWebhook')}</span>
+                        </label>
+                      )}
+                    </div>
+                  </div>
+
+                  {isLoggedIn && reminderChannels.includes('webhook') && (
+                    <div className="space-y-3">
+                      <div className="flex gap-3">
+                        <select
+                          value={formData.reminderWebhookFormat || 'slack'}
+                          onChange={(e) => handleChange('reminderWebhookFormat', e.target.value as WebhookFormat)}
+                          className="rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-300 focus:border-[#6FB92D] outline-none"
+                        >
+                          <option value="slack">Slack</option>
+                          <option value="feishu">{t('settings.remindersFeishu')}</option>
+                          <option value="dingtalk">{t('settings.remindersDingtalk')}</option>
+                        </select>
+                        <input 
+                          type="url"
+                          value={formData.reminderWebhookUrl || ''}
+                          onChange={(e) => handleChange('reminderWebhookUrl', e.target.value)}
+                          placeholder="https://hooks.slack.com/services/..."
+                          className="flex-1 rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-300 focus:border-[#6FB92D] outline-none"
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500">{t('settings.remindersWebhookHint')}</p>
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => testWebhookMutation.mutate({
+                            url: formData.reminderWebhookUrl || '',
+                            format: formData.reminderWebhookFormat || 'slack',
+                            prefs: formData,
+                          })}
+                          disabled={testWebhookMutation.isPending || !formData.reminderWebhookUrl}
+                          className="text-xs text-[#6FB92D] hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {testWebhookMutation.isPending ? t('settings.remindersTesting') : t('settings.remindersTest')}
+                        </button>
+                        {testWebhookMutation.isSuccess && (
+                          <span className="text-xs text-[#6FB92D]">{t('settings.remindersTestSent')}</span>
+                        )}
+                        {testWebhookMutation.isError && (
+                          <span className="text-xs text-red-400">{testWebhookMutation.error.message}</span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Preferences */}
+          <div className="p-6 bg-[#2A2A2A] rounded-2xl border border-white/5">
+            <h3 className="font-semibold text-[#6FB92D] mb-4 flex items-center">
+               <span className="w-2 h-2 rounded-full bg-[#6FB92D] mr-2"></span> {t('settings.dietaryPreferences')}
+            </h3>
+            <div className="grid grid-cols-1 gap-4">
+              <div className="flex flex-wrap gap-x-6 gap-y-3">
+                {mealTabs.map(tab => (
+                  <label key={tab.id} className="flex items-center space-x-3 cursor-pointer group">
+                    <input 
+                      type="checkbox" 
+                      checked={isMealTabEnabled(formData, { tabUniqueId: tab.id, mealTime: tab.mealTime })}
+                      onChange={(e) => handleChange('mealTabs', { ...formData.mealTabs, [tab.id]: e.target.checked })}
+                      className="w-5 h-5 rounded border-gray-600 bg-[#333] text-[#6FB92D] focus:ring-[#6FB92D] focus:ring-offset-[#252525]"
+                    />
+                    <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.includeMeal', { meal: tab.name })}</span>
+                  </label>
+                ))}
                 <label className="flex items-center space-x-3 cursor-pointer group">
                   <input 
                     type="checkbox" 
@@ -435,6 +706,9 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
                   <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.includeWeekends')}</span>
                 </label>
               </div>
+              {mealTabs.length === 0 && (
+                <p className="text-xs text-gray-500">{t('settings.mealTabsHint')}</p>
+              )}
 
               <div>
                 <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.planningMode')}</label>
@@ -458,6 +732,18 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
                   placeholder="peanuts, cilantro, spicy"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.remarkTemplates')}</label>
+                <input 
+                  type="text"
+                  value={remarkTemplatesText}
+                  onChange={(e) => setRemarkTemplatesText(e.target.value)}
+                  onBlur={() => handleChange('remarkTemplates', parseRemarkTemplates(remarkTemplatesText))}
+                  className="w-full rounded-xl border border-[#444] bg-[#181818] shadow-sm p-3 text-sm text-gray-300 focus:border-[#6FB92D] focus:ring-1 focus:ring-[#6FB92D] outline-none transition-all"
+                  placeholder="no cilantro, less rice"
+                />
+                <p className="text-xs text-gray-500 mt-1">{t('settings.remarkTemplatesHint')}</p>
+              </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-400 mb-1">{t('settings.vendorWeights')}</label>
@@ -495,6 +781,164 @@ const SettingsPanel: React.FC<Props> = ({ initialPrefs, onSave, onClose }) => {
               </div>
             </div>
           </div>
+
+          {/* Dish Filters */}
+          <div className="p-6 bg-[#2A2A2A] rounded-2xl border border-white/5">
+            <h3 className="font-semibold text-[#6FB92D] mb-4 flex items-center">
+              <span className="w-2 h-2 rounded-full bg-[#6FB92D] mr-2"></span> {t('settings.dishFilters')}
+            </h3>
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-6 items-center">
+                <label className="flex items-center space-x-3 cursor-pointer group">
+                  <input 
+                    type="checkbox" 
+                    checked={formData.dishFilters?.vegetarianOnly || false}
+                    onChange={(e) => handleDishFiltersChange({ vegetarianOnly: e.target.checked })}
+                    className="w-5 h-5 rounded border-gray-600 bg-[#333] text-[#6FB92D] focus:ring-[#6FB92D] focus:ring-offset-[#252525]"
+                  />
+                  <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.vegetarianOnly')}</span>
+                </label>
+                <label className="flex items-center gap-3">
+                  <span className="text-sm text-gray-400">{t('settings.maxSpiciness')}</span>
+                  <select
+                    value={formData.dishFilters?.maxSpiciness || ''}
+                    onChange={(e) => handleDishFiltersChange({ maxSpiciness: (e.target.value || undefined) as Spiciness | undefined })}
+                    className="rounded-xl border border-[#444] bg-[#181818] p-2 text-sm text-gray-300 focus:border-[#6FB92D] outline-none"
+                  >
+                    <option value="">{t('settings.spicinessAny')}</option>
+                    {SPICINESS_LEVELS.filter(level => level !== 'hot').map(level => (
+                      <option key={level} value={level}>{t(`dishTags.spiciness.${level}`)}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">{t('settings.excludedProteins')}</label>
+                <div className="flex flex-wrap gap-2">
+                  {DISH_PROTEINS.map(protein => {
+                    const active = !!formData.dishFilters?.excludedProteins?.includes(protein);
+                    return (
+                      <button
+                        key={protein}
+                        onClick={() => handleDishFiltersChange({ excludedProteins: toggleInList(formData.dishFilters?.excludedProteins, protein) })}
+                        className={`px-3 py-1 text-xs rounded-full border transition-colors ${active ? 'bg-red-500/10 border-red-500/50 text-red-400' : 'border-[#444] text-gray-400 hover:border-[#555]'}`}
+                      >
+                        {t(`dishTags.protein.${protein}`)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">{t('settings.excludedAllergens')}</label>
+                <div className="flex flex-wrap gap-2">
+                  {DISH_ALLERGENS.map(allergen => {
+                    const active = !!formData.dishFilters?.excludedAllergens?.includes(allergen);
+                    return (
+                      <button
+                        key={allergen}
+                        onClick={() => handleDishFiltersChange({ excludedAllergens: toggleInList(formData.dishFilters?.excludedAllergens, allergen) })}
+                        className={`px-3 py-1 text-xs rounded-full border transition-colors ${active ? 'bg-red-500/10 border-red-500/50 text-red-400' : 'border-[#444] text-gray-400 hover:border-[#555]'}`}
+                      >
+                        {t(`dishTags.allergen.${allergen}`)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              {formData.aiProvider !== 'local' && (
+                <label className="flex items-center space-x-3 cursor-pointer group">
+                  <input 
+                    type="checkbox" 
+                    checked={formData.aiDishTagging || false}
+                    onChange={(e) => handleChange('aiDishTagging', e.target.checked)}
+                    className="w-5 h-5 rounded border-gray-600 bg-[#333] text-[#6FB92D] focus:ring-[#6FB92D] focus:ring-offset-[#252525]"
+                  />
+                  <span className="text-sm text-gray-300 group-hover:text-white">{t('settings.aiDishTagging')}</span>
+                </label>
+              )}
+              <p className="text-xs text-gray-500">{t('settings.dishFiltersHint')}</p>
+            </div>
+          </div>
+
+          {/* Budget */}
+          <div className="p-6 bg-[#2A2A2A] rounded-2xl border border-white/5">
+            <h3 className="font-semibold text-[#6FB92D] mb-4 flex items-center">
+              <span className="w-2 h-2 rounded-full bg-[#6FB92D] mr-2"></span> {t('settings.budget')}
+            </h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {budgetFields.map(({ field, label }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">{label}</label>
+                  <input 
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={formData.budget?.[field] ? formData.budget[field]! / 100 : ''}
+                    onChange={(e) => handleBudgetChange(field, e.target.value)}
+                    placeholder="—"
+                    className="w-full rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-300 focus:border-[#6FB92D] outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-3">{t('settings.budgetHint')}</p>
+          </div>
+
+          {/* Encryption */}
+          <div className="p-6 bg-[#2A2A2A] rounded-2xl border border-white/5">
+            <h3 className="font-semibold text-[#6FB92D] mb-4 flex items-center">
+              <span className="w-2 h-2 rounded-full bg-[#6FB92D] mr-2"></span> {t('settings.encryption')}
+            </h3>
+            {encryptionStatus?.mode === 'unavailable' ? (
+              <p className="text-sm text-yellow-400">{t('settings.encryptionUnavailable')}</p>
+            ) : encryptionStatus?.locked ? (
+              <p className="text-sm text-yellow-400">{t('settings.encryptionLocked')}</p>
+            ) : encryptionStatus && (
+              <>
+                <p className="text-sm text-gray-400 mb-3">
+                  {encryptionStatus.mode === 'passphrase' ? t('settings.encryptionPassphraseMode') : t('settings.encryptionDeviceMode')}
+                </p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="password"
+                    value={passphraseInput}
+                    onChange={(e) => setPassphraseInput(e.target.value)}
+                    placeholder={encryptionStatus.mode === 'passphrase' ? t('settings.encryptionNewPassphrase') : t('settings.encryptionPassphrase')}
+                    className="flex-1 rounded-xl border border-[#444] bg-[#181818] p-3 text-sm text-gray-300 focus:border-[#6FB92D] outline-none"
+                  />
+                  <button
+                    onClick={handleSetPassphrase}
+                    disabled={!passphraseInput}
+                    className="px-4 py-2 bg-[#333] hover:bg-[#444] text-white rounded-xl text-sm font-medium disabled:opacity-50 transition-colors"
+                  >
+                    {encryptionStatus.mode === 'passphrase' ? t('settings.encryptionChangePassphrase') : t('settings.encryptionSetPassphrase')}
+                  </button>
+                </div>
+                <div className="mt-3">
+                  {encryptionStatus.mode === 'passphrase' ? (
+                    <button
+                      onClick={() => runEncryptionAction(removePassphrase, t('settings.encryptionPassphraseRemoved'))}
+                      className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+                    >
+                      {t('settings.encryptionRemovePassphrase')}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => runEncryptionAction(rotateEncryptionKey, t('settings.encryptionKeyRotated'))}
+                      className="text-xs text-gray-400 hover:text-white transition-colors"
+                    >
+                      {t('settings.encryptionRotateKey')}
+                    </button>
+                  )}
+                </div>
+                {encryptionMessage && (
+                  <p className={`text-xs mt-2 ${encryptionMessage.ok ? 'text-[#6FB92D]' : 'text-red-400'}`}>{encryptionMessage.text}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-3">{t('settings.encryptionHint')}</p>
+              </>
+            )}
+          </div>
         </div>
 
         <div className="mt-8 flex flex-col-reverse sm:flex-row justify-end gap-4 sm:space-x-4">
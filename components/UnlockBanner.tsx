@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { unlockWithPassphrase } from '../services/db';
+
+interface Props {
+  onUnlocked: () => void;
+}
+
+/**
+ * Asks for the encryption passphrase so stored credentials can be decrypted
+ */
+const UnlockBanner: React.FC<Props> = ({ onUnlocked }) => {
+  const { t } = useTranslation();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState(false);
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    const ok = await unlockWithPassphrase(passphrase);
+    setUnlocking(false);
+    if (ok) {
+      setPassphrase('');
+      onUnlocked();
+    } else {
+      setError(true);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-2xl flex flex-col sm:flex-row sm:items-center gap-3">
+      <p className="text-sm text-yellow-400 flex-1">🔒 {t('unlock.message')}</p>
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => { setPassphrase(e.target.value); setError(false); }}
+          onKeyDown={(e) => e.key === 'Enter' && passphrase && handleUnlock()}
+          placeholder={t('unlock.placeholder')}
+          className={`rounded-xl border bg-[#181818] px-3 py-2 text-sm text-gray-300 outline-none ${error ? 'border-red-500' : 'border-[#444] focus:border-[#6FB92D]'}`}
+        />
+        <button
+          onClick={handleUnlock}
+          disabled={!passphrase || unlocking}
+          className="px-4 py-2 bg-[#6FB92D] hover:bg-[#5da025] text-white rounded-full text-sm font-medium disabled:opacity-50 transition-colors"
+        >
+          {unlocking ? '...' : t('unlock.button')}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400 sm:hidden">{t('unlock.wrongPassphrase')}</p>}
+    </div>
+  );
+};
+
+export default UnlockBanner;
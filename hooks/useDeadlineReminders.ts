@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { DailyStatus, OrderStatus, UserPreferences } from '../types';
+import { parseCloseTime } from '../utils/dateUtils';
+import { getMealLabel, isMealTabEnabled } from '../utils/mealTabs';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const DEFAULT_LEAD_MINUTES = 30;
+
+export const isBrowserNotificationSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Ask for browser notification permission (resolves to the resulting permission)
+ */
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!isBrowserNotificationSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+/**
+ * Fire a browser notification when an AVAILABLE slot's close time
+ * enters the reminder lead window. Each slot is reminded once per page session;
+ * webhook reminders are sent by the backend daemon instead.
+ */
+export const useDeadlineReminders = (weekStatus: DailyStatus[], prefs: UserPreferences | null) => {
+  const { t } = useTranslation();
+  const remindedSlots = useRef<Set<string>>(new Set());
+
+  const channels = prefs?.reminderChannels || ['browser'];
+  const enabled = !!prefs?.reminderEnabled && channels.includes('browser');
+  const leadMinutes = prefs?.reminderLeadMinutes ?? DEFAULT_LEAD_MINUTES;
+  const mealTabs = prefs?.mealTabs;
+  const enableBreakfast = prefs?.enableBreakfast;
+
+  useEffect(() => {
+    if (!enabled || !isBrowserNotificationSupported()) return;
+
+    const check = () => {
+      if (Notification.permission !== 'granted') return;
+
+      const now = Date.now();
+      const windowEnd = now + leadMinutes * 60 * 1000;
+
+      for (const slot of weekStatus) {
+        if (slot.status !== OrderStatus.AVAILABLE || !slot.closeTime) continue;
+        if (!isMealTabEnabled({ mealTabs, enableBreakfast }, slot)) continue;
+
+        const key = `${slot.date}|${slot.tabUniqueId || slot.mealTime}`;
+        if (remindedSlots.current.has(key)) continue;
+
+        const deadline = parseCloseTime(slot.date, slot.closeTime).getTime();
+        if (isNaN(deadline) || deadline <= now || deadline > windowEnd) continue;
+
+        remindedSlots.current.add(key);
+        new Notification(t('reminders.title'), {
+          body: t('reminders.body', {
+            date: slot.date,
+            meal: getMealLabel(slot),
+            time: slot.closeTime,
+            minutes: Math.round((deadline - now) / 60000),
+          }),
+          tag: key,
+        });
+      }
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [weekStatus, enabled, leadMinutes, mealTabs, enableBreakfast, t]);
+};
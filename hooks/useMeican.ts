@@ -3,16 +3,27 @@ import {
   getCalendarStatus, 
   getAvailableDishes, 
   getRestaurants, 
+  getRestaurantDishes,
   getAddresses, 
   Address,
   checkAuthStatus, 
   login, 
   logout, 
   placeOrder, 
+  replaceOrder,
   deleteOrder, 
-  fetchOrderHistory 
+  fetchOrderHistory,
+  getSchedulerStatus,
+  runScheduler,
+  listPlanDrafts,
+  deletePlanDraft,
+  testWebhook
 } from '../services/meicanService';
-import { UserPreferences, DailyStatus, Dish, HistoricalOrder } from '../types';
+import { loadSyncedHistory, syncOrderHistory } from '../services/historySync';
+import { deleteNutritionRecord, getNutritionRecords } from '../services/db';
+import { fillMissingNutrition, NutritionDish, saveManualNutrition } from '../services/nutrition';
+import { tagDishes } from '../services/dishTagging';
+import { UserPreferences, DailyStatus, Dish, HistoricalOrder, NutritionRecord, OrderItem, WebhookFormat } from '../types';
 
 export type { Address };
 
@@ -22,9 +33,15 @@ export const meicanKeys = {
   calendar: (startDate: Date, endDate: Date, sessionId?: string) => [...meicanKeys.all, 'calendar', startDate.toISOString(), endDate.toISOString(), sessionId || 'guest'] as const,
   dishes: (tabUniqueId: string, targetTime: string) => [...meicanKeys.all, 'dishes', tabUniqueId, targetTime] as const,
   restaurants: (tabUniqueId: string, targetTime: string) => [...meicanKeys.all, 'restaurants', tabUniqueId, targetTime] as const,
+  restaurantDishes: (tabUniqueId: string, targetTime: string, restaurantId: string) => [...meicanKeys.all, 'restaurantDishes', tabUniqueId, targetTime, restaurantId] as const,
   addresses: (namespace?: string) => [...meicanKeys.all, 'addresses', namespace] as const,
   authStatus: ['meican', 'auth'] as const,
   history: (startDate: Date, endDate: Date) => [...meicanKeys.all, 'history', startDate.toISOString(), endDate.toISOString()] as const,
+  scheduler: (sessionId?: string) => [...meicanKeys.all, 'scheduler', sessionId || 'guest'] as const,
+  plans: (username?: string) => [...meicanKeys.all, 'plans', username || 'guest'] as const,
+  syncedHistory: (username?: string) => [...meicanKeys.all, 'syncedHistory', username || 'guest'] as const,
+  nutrition: (username?: string) => [...meicanKeys.all, 'nutrition', username || 'guest'] as const,
+  dishTags: (username: string | undefined, dishIds: string[]) => [...meicanKeys.all, 'dishTags', username || 'guest', dishIds] as const,
 };
 
 // Hooks
@@ -33,7 +50,7 @@ export const useCalendarStatus = (startDate: Date, endDate: Date, prefs: UserPre
   return useQuery({
     queryKey: meicanKeys.calendar(startDate, endDate, prefs?.sessionId),
     queryFn: () => getCalendarStatus(startDate, endDate, prefs!),
-    enabled: !!prefs && (!!prefs.sessionId || prefs.useMockData) && !!startDate && !!endDate,
+    enabled: !!prefs && !!prefs.sessionId && !!startDate && !!endDate,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 };
@@ -42,7 +59,7 @@ export const useAvailableDishes = (tabUniqueId: string | undefined, targetTime:
   return useQuery({
     queryKey: meicanKeys.dishes(tabUniqueId!, targetTime!),
     queryFn: () => getAvailableDishes(tabUniqueId!, targetTime!, prefs!),
-    enabled: !!prefs && (!!prefs.sessionId || prefs.useMockData) && !!tabUniqueId && !!targetTime,
+    enabled: !!prefs && !!prefs.sessionId && !!tabUniqueId && !!targetTime,
     staleTime: 1000 * 60 * 10, // 10 minutes
   });
 };
@@ -51,7 +68,16 @@ export const useRestaurants = (tabUniqueId: string | undefined, targetTime: stri
   return useQuery({
     queryKey: meicanKeys.restaurants(tabUniqueId!, targetTime!),
     queryFn: () => getRestaurants(tabUniqueId!, targetTime!, prefs!),
-    enabled: !!prefs && (!!prefs.sessionId || prefs.useMockData) && !!tabUniqueId && !!targetTime,
+    enabled: !!prefs && !!prefs.sessionId && !!tabUniqueId && !!targetTime,
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  });
+};
+
+export const useRestaurantDishes = (tabUniqueId: string | undefined, targetTime: string | undefined, restaurantId: string | undefined, prefs: UserPreferences | null) => {
+  return useQuery({
+    queryKey: meicanKeys.restaurantDishes(tabUniqueId!, targetTime!, restaurantId!),
+    queryFn: () => getRestaurantDishes(tabUniqueId!, targetTime!, restaurantId!, prefs!),
+    enabled: !!prefs && !!prefs.sessionId && !!tabUniqueId && !!targetTime && !!restaurantId,
     staleTime: 1000 * 60 * 10, // 10 minutes
   });
 };
@@ -60,7 +86,7 @@ export const useUserAddresses = (prefs: UserPreferences | null, namespace?: stri
   return useQuery({
     queryKey: meicanKeys.addresses(namespace),
     queryFn: () => getAddresses(prefs!, namespace),
-    enabled: !!prefs && (!!prefs.sessionId || prefs.useMockData),
+    enabled: !!prefs && !!prefs.sessionId,
     staleTime: 1000 * 60 * 30, // 30 minutes
   });
 };
@@ -78,7 +104,53 @@ export const useOrderHistory = (startDate: Date, endDate: Date, prefs: UserPrefe
   return useQuery({
     queryKey: meicanKeys.history(startDate, endDate),
     queryFn: () => fetchOrderHistory(startDate, endDate, prefs!),
-    enabled: !!prefs && (!!prefs.sessionId || prefs.useMockData) && !!startDate && !!endDate,
+    enabled: !!prefs && !!prefs.sessionId && !!startDate && !!endDate,
+  });
+};
+
+// Order history stored in IndexedDB, synced with Meican when opened
+export const useSyncedOrderHistory = (prefs: UserPreferences | null) => {
+  return useQuery({
+    queryKey: meicanKeys.syncedHistory(prefs?.username),
+    queryFn: () => loadSyncedHistory(prefs!),
+    enabled: !!prefs,
+    staleTime: 0,
+  });
+};
+
+// Per-dish nutrition stored in IndexedDB
+export const useNutritionRecords = (prefs: UserPreferences | null) => {
+  return useQuery({
+    queryKey: meicanKeys.nutrition(prefs?.username),
+    queryFn: () => getNutritionRecords(prefs!.username || ''),
+    enabled: !!prefs,
+  });
+};
+
+// Cached or rule-extracted tags of the dishes, without AI enrichment so the picker stays quick
+export const useDishTags = (dishes: Dish[], prefs: UserPreferences | null) => {
+  return useQuery({
+    queryKey: meicanKeys.dishTags(prefs?.username, dishes.map(dish => dish.id)),
+    queryFn: () => tagDishes(dishes, prefs!),
+    enabled: !!prefs && dishes.length > 0,
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  });
+};
+
+export const useSchedulerStatus = (prefs: UserPreferences | null) => {
+  return useQuery({
+    queryKey: meicanKeys.scheduler(prefs?.sessionId),
+    queryFn: () => getSchedulerStatus(prefs!),
+    enabled: !!prefs && !!prefs.sessionId,
+    staleTime: 1000 * 60, // 1 minute
+  });
+};
+
+export const usePlanDrafts = (prefs: UserPreferences | null) => {
+  return useQuery({
+    queryKey: meicanKeys.plans(prefs?.username),
+    queryFn: () => listPlanDrafts(prefs!),
+    enabled: !!prefs && !!prefs.sessionId && !!prefs.username,
   });
 };
 
@@ -86,8 +158,8 @@ export const useOrderHistory = (startDate: Date, endDate: Date, prefs: UserPrefe
 
 export const useLogin = () => {
   return useMutation({
-    mutationFn: ({ username, password, proxyUrl }: { username: string; password: string; proxyUrl?: string }) => 
-      login(username, password, proxyUrl),
+    mutationFn: ({ username, password, rememberCredentials }: { username: string; password: string; rememberCredentials?: boolean }) => 
+      login(username, password, rememberCredentials),
   });
 };
 
@@ -96,7 +168,7 @@ export const useLogout = () => {
   return useMutation({
     mutationFn: (prefs: UserPreferences) => logout(prefs),
     onSuccess: () => {
-      queryClient.setQueryData(meicanKeys.authStatus, false);
+      queryClient.setQueryData(meicanKeys.authStatus, { authenticated: false, expired: false });
       queryClient.clear(); // Clear all cache on logout
     },
   });
@@ -107,19 +179,21 @@ export const usePlaceOrder = () => {
   return useMutation({
     mutationFn: ({ 
       tabUniqueId, 
-      dishId, 
+      items, 
       targetTime, 
       prefs, 
       corpAddressUniqueId, 
-      userAddressUniqueId 
+      userAddressUniqueId,
+      idempotencyKey
     }: { 
       tabUniqueId: string; 
-      dishId: string; 
+      items: OrderItem[]; 
       targetTime: string; 
       prefs: UserPreferences; 
       corpAddressUniqueId?: string; 
       userAddressUniqueId?: string; 
-    }) => placeOrder(tabUniqueId, dishId, targetTime, prefs, corpAddressUniqueId, userAddressUniqueId),
+      idempotencyKey?: string;
+    }) => placeOrder(tabUniqueId, items, targetTime, prefs, corpAddressUniqueId, userAddressUniqueId, idempotencyKey),
     onSuccess: () => {
       // Invalidate calendar to refresh status
       queryClient.invalidateQueries({ queryKey: meicanKeys.all });
@@ -127,6 +201,35 @@ export const usePlaceOrder = () => {
   });
 };
 
+export const useReplaceOrder = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      oldOrderUniqueId,
+      tabUniqueId,
+      items,
+      targetTime,
+      prefs,
+      corpAddressUniqueId,
+      userAddressUniqueId,
+      idempotencyKey
+    }: {
+      oldOrderUniqueId: string;
+      tabUniqueId: string;
+      items: OrderItem[];
+      targetTime: string;
+      prefs: UserPreferences;
+      corpAddressUniqueId?: string;
+      userAddressUniqueId?: string;
+      idempotencyKey?: string;
+    }) => replaceOrder(oldOrderUniqueId, tabUniqueId, items, targetTime, prefs, corpAddressUniqueId, userAddressUniqueId, idempotencyKey),
+    // Settled rather than success: a failed replace may still have changed the slot
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: meicanKeys.all });
+    },
+  });
+};
+
 export const useDeleteOrder = () => {
   const queryClient = useQueryClient();
   return useMutation({
@@ -137,3 +240,75 @@ export const useDeleteOrder = () => {
     },
   });
 };
+
+export const useRunScheduler = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (prefs: UserPreferences) => runScheduler(prefs),
+    onSuccess: (status, prefs) => {
+      queryClient.setQueryData(meicanKeys.scheduler(prefs.sessionId), status);
+      // The daemon may have placed orders
+      queryClient.invalidateQueries({ queryKey: meicanKeys.all });
+    },
+  });
+};
+
+export const useSyncOrderHistory = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (prefs: UserPreferences) => syncOrderHistory(prefs, true),
+    onSettled: (_, __, prefs) => {
+      // A failed sync is recorded in the stored state as well
+      queryClient.invalidateQueries({ queryKey: meicanKeys.syncedHistory(prefs.username) });
+    },
+  });
+};
+
+export const useFillNutrition = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ dishes, prefs }: { dishes: NutritionDish[]; prefs: UserPreferences }) => fillMissingNutrition(dishes, prefs),
+    onSettled: (_, __, { prefs }) => {
+      // Batches estimated before a failure are stored as well
+      queryClient.invalidateQueries({ queryKey: meicanKeys.nutrition(prefs.username) });
+    },
+  });
+};
+
+export const useSaveNutrition = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ values, prefs }: { values: Omit<NutritionRecord, 'key' | 'source' | 'updatedAt'>; prefs: UserPreferences }) =>
+      saveManualNutrition(prefs, values),
+    onSuccess: (_, { prefs }) => {
+      queryClient.invalidateQueries({ queryKey: meicanKeys.nutrition(prefs.username) });
+    },
+  });
+};
+
+export const useDeleteNutrition = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ key, prefs }: { key: string; prefs: UserPreferences }) => deleteNutritionRecord(prefs.username || '', key),
+    onSuccess: (_, { prefs }) => {
+      queryClient.invalidateQueries({ queryKey: meicanKeys.nutrition(prefs.username) });
+    },
+  });
+};
+
+export const useDeletePlanDraft = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, prefs }: { id: string; prefs: UserPreferences }) => deletePlanDraft(id, prefs),
+    onSuccess: (_, { prefs }) => {
+      queryClient.invalidateQueries({ queryKey: meicanKeys.plans(prefs.username) });
+    },
+  });
+};
+
+export const useTestWebhook = () => {
+  return useMutation({
+    mutationFn: ({ url, format, prefs }: { url: string; format: WebhookFormat; prefs: UserPreferences }) =>
+      testWebhook(url, format, prefs),
+  });
+};
@@ -0,0 +1,418 @@
+import { AnalysisResult, Dish, DishAllergen, DishProtein, DishTags, MealTime, OrderItem, Spiciness } from '../types';
+import { DISH_ALLERGENS, DISH_PROTEINS, SPICINESS_LEVELS } from '../utils/dishTags';
+import { getPlanSlotKey } from '../utils/planDiff';
+
+export interface ValidationIssue {
+  path: string; // e.g. "[2].dishId" or "cuisineDistribution[0].value"
+  message: string;
+  slotKey?: string; // Plan slot the issue is about (see getPlanSlotKey), when known
+}
+
+export interface PlanSlotRef {
+  date: string;
+  mealTime: MealTime;
+  mealName?: string;
+  tabUniqueId: string;
+  menu: Dish[];
+}
+
+export interface PlanPick<S extends PlanSlotRef = PlanSlotRef> {
+  slot: S;
+  dish: Dish;
+  items: OrderItem[]; // Main dish x1 followed by any extras
+  reason: string;
+  softConflicts: string[]; // Excluded keywords the main dish may contain, to be left out via a remark
+}
+
+export interface PlanValidation<S extends PlanSlotRef = PlanSlotRef> {
+  picks: PlanPick<S>[];
+  issues: ValidationIssue[];
+}
+
+export interface NutritionEstimate {
+  calories: number;
+  proteinG: number;
+  carbsG: number;
+  fatG: number;
+  tags: string[];
+}
+
+export interface NutritionValidation {
+  estimates: Map<number, NutritionEstimate>; // By index of the dish in the request
+  issues: ValidationIssue[];
+}
+
+export type DishTagEstimate = Pick<DishTags, 'proteins' | 'allergens' | 'ingredients' | 'cuisine' | 'spiciness' | 'vegetarian'>;
+
+export interface DishTagValidation {
+  tags: Map<number, DishTagEstimate>; // By index of the dish in the request
+  issues: ValidationIssue[];
+}
+
+export interface AnalysisValidation {
+  result?: AnalysisResult;
+  issues: ValidationIssue[];
+}
+
+interface ParseResult {
+  ok: boolean;
+  value?: unknown;
+  issues: ValidationIssue[];
+}
+
+const MAX_EXTRA_COUNT = 5;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Parse raw model output as JSON
+ * Tolerates markdown code fences and unquoted keys, which some models add despite instructions
+ */
+export const parseModelJson = (rawText: string): ParseResult => {
+  let text = rawText.trim();
+  if (!text) {
+    return { ok: false, issues: [{ path: '', message: 'Empty response' }] };
+  }
+
+  const fenced = text.match(/^```(?:json)?\s*\n?([\s\S]*?)\n?```\s*$/);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(text), issues: [] };
+  } catch {
+    // Fall through to the unquoted-key repair
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(text.replace(/([{,]\s*)([a-zA-Z0-9_]+?)\s*:/g, '$1"$2":')), issues: [] };
+  } catch (error) {
+    return {
+      ok: false,
+      issues: [{ path: '', message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }],
+    };
+  }
+};
+
+/**
+ * Slot as named in validation messages, e.g. "2024-12-10 午餐"
+ */
+export const getSlotLabel = (slot: Pick<PlanSlotRef, 'date' | 'mealTime' | 'mealName'>): string =>
+  `${slot.date} ${slot.mealName || slot.mealTime}`;
+
+/**
+ * Validate a weekly plan response: an array of { date, tabId, dishId, reason, extras?, softConflicts? }
+ * where tabId is the slot's tabUniqueId (a corp can have several tabs of one meal kind),
+ * where extras are [{ dishId, count }] side items from the main dish's restaurant and
+ * softConflicts lists entries of excludedKeywords the main dish may contain.
+ * Valid picks are returned even when other entries fail, so callers can re-prompt
+ * for the remaining slots only.
+ */
+export const validatePlanResponse = <S extends PlanSlotRef>(
+  value: unknown,
+  slots: S[],
+  excludedKeywords: string[] = []
+): PlanValidation<S> => {
+  const issues: ValidationIssue[] = [];
+  const picks: PlanPick<S>[] = [];
+
+  if (!Array.isArray(value)) {
+    return { picks, issues: [{ path: '', message: 'Expected a JSON array of plan items' }] };
+  }
+
+  value.forEach((entry, i) => {
+    const at = (field: string) => `[${i}]${field ? `.${field}` : ''}`;
+
+    if (!isObject(entry)) {
+      issues.push({ path: at(''), message: 'Expected an object' });
+      return;
+    }
+
+    const entryIssues: ValidationIssue[] = [];
+    if (!isNonEmptyString(entry.date) || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+      entryIssues.push({ path: at('date'), message: 'Must be a YYYY-MM-DD string' });
+    }
+    if (!isNonEmptyString(entry.tabId)) {
+      entryIssues.push({ path: at('tabId'), message: 'Must be the tabId of a slot' });
+    }
+    if (!isNonEmptyString(entry.dishId) && !isFiniteNumber(entry.dishId)) {
+      entryIssues.push({ path: at('dishId'), message: 'Must be the id of a dish from the slot options' });
+    }
+    if (!isNonEmptyString(entry.reason)) {
+      entryIssues.push({ path: at('reason'), message: 'Must be a non-empty string' });
+    }
+    if (entry.extras !== undefined && !Array.isArray(entry.extras)) {
+      entryIssues.push({ path: at('extras'), message: 'Must be an array of { dishId, count } when present' });
+    }
+    if (entry.softConflicts !== undefined && (!Array.isArray(entry.softConflicts) || !entry.softConflicts.every(isNonEmptyString))) {
+      entryIssues.push({ path: at('softConflicts'), message: 'Must be an array of strings when present' });
+    }
+
+    const slot = slots.find(s => s.date === entry.date && s.tabUniqueId === entry.tabId);
+    if (entryIssues.length > 0) {
+      // Tie the issues to the slot when the entry names one
+      issues.push(...entryIssues.map(issue => slot ? { ...issue, slotKey: getPlanSlotKey(slot) } : issue));
+      return;
+    }
+    if (!slot) {
+      issues.push({ path: at(''), message: `No open slot for ${entry.date} tab ${entry.tabId}` });
+      return;
+    }
+    const label = getSlotLabel(slot);
+    const slotKey = getPlanSlotKey(slot);
+    if (picks.some(p => p.slot === slot)) {
+      issues.push({ path: at(''), message: `Duplicate pick for ${label}`, slotKey });
+      return;
+    }
+
+    // Robust matching for dish ID (handle string vs number mismatch)
+    const dish = slot.menu.find(d => String(d.id) === String(entry.dishId));
+    if (!dish) {
+      issues.push({ path: at('dishId'), message: `"${entry.dishId}" is not on the menu for ${label}`, slotKey });
+      return;
+    }
+
+    const items: OrderItem[] = [{ dish, count: 1 }];
+    const extras = (entry.extras as unknown[] | undefined) || [];
+    for (let j = 0; j < extras.length; j++) {
+      const extra = extras[j];
+      const extraAt = at(`extras[${j}]`);
+      if (!isObject(extra)) {
+        issues.push({ path: extraAt, message: 'Expected an object', slotKey });
+        return;
+      }
+      if (!isFiniteNumber(extra.count) || !Number.isInteger(extra.count) || extra.count < 1 || extra.count > MAX_EXTRA_COUNT) {
+        issues.push({ path: `${extraAt}.count`, message: `Must be an integer between 1 and ${MAX_EXTRA_COUNT}`, slotKey });
+        return;
+      }
+      const extraDish = slot.menu.find(d => String(d.id) === String(extra.dishId));
+      if (!extraDish) {
+        issues.push({ path: `${extraAt}.dishId`, message: `"${extra.dishId}" is not on the menu for ${label}`, slotKey });
+        return;
+      }
+      if (extraDish.restaurantName !== dish.restaurantName) {
+        issues.push({ path: `${extraAt}.dishId`, message: `Extras must come from ${dish.restaurantName} for ${label}`, slotKey });
+        return;
+      }
+      const existing = items.find(item => item.dish === extraDish);
+      if (existing) {
+        existing.count += extra.count;
+      } else {
+        items.push({ dish: extraDish, count: extra.count });
+      }
+    }
+
+    const softConflicts: string[] = [];
+    for (const conflict of (entry.softConflicts as string[] | undefined) || []) {
+      const keyword = excludedKeywords.find(k => k.trim().toLowerCase() === conflict.trim().toLowerCase());
+      if (!keyword) {
+        issues.push({ path: at('softConflicts'), message: `"${conflict}" is not one of the excluded keywords`, slotKey });
+        return;
+      }
+      if (!softConflicts.includes(keyword)) softConflicts.push(keyword);
+    }
+
+    picks.push({ slot, dish, items, reason: entry.reason as string, softConflicts });
+  });
+
+  return { picks, issues };
+};
+
+/**
+ * Validate a history analysis response against AnalysisResult
+ */
+export const validateAnalysisResult = (value: unknown): AnalysisValidation => {
+  const issues: ValidationIssue[] = [];
+
+  if (!isObject(value)) {
+    return { issues: [{ path: '', message: 'Expected a JSON object' }] };
+  }
+
+  if (!isNonEmptyString(value.summary)) {
+    issues.push({ path: 'summary', message: 'Must be a non-empty string' });
+  }
+  if (!isFiniteNumber(value.score) || value.score < 0 || value.score > 100) {
+    issues.push({ path: 'score', message: 'Must be a number between 0 and 100' });
+  }
+
+  if (!Array.isArray(value.suggestions)) {
+    issues.push({ path: 'suggestions', message: 'Must be an array of strings' });
+  } else {
+    value.suggestions.forEach((s, i) => {
+      if (!isNonEmptyString(s)) issues.push({ path: `suggestions[${i}]`, message: 'Must be a non-empty string' });
+    });
+  }
+
+  if (!Array.isArray(value.cuisineDistribution)) {
+    issues.push({ path: 'cuisineDistribution', message: 'Must be an array of { name, value }' });
+  } else {
+    value.cuisineDistribution.forEach((entry, i) => {
+      if (!isObject(entry)) {
+        issues.push({ path: `cuisineDistribution[${i}]`, message: 'Expected an object' });
+        return;
+      }
+      if (!isNonEmptyString(entry.name)) issues.push({ path: `cuisineDistribution[${i}].name`, message: 'Must be a non-empty string' });
+      if (!isFiniteNumber(entry.value)) issues.push({ path: `cuisineDistribution[${i}].value`, message: 'Must be a number' });
+    });
+  }
+
+  if (issues.length > 0) return { issues };
+
+  return {
+    result: {
+      summary: value.summary as string,
+      score: value.score as number,
+      suggestions: value.suggestions as string[],
+      cuisineDistribution: value.cuisineDistribution as AnalysisResult['cuisineDistribution'],
+    },
+    issues,
+  };
+};
+
+// Upper bounds that catch unit mix-ups (kJ for kcal, mg for g) rather than judge the dish
+const MAX_CALORIES = 3000;
+const MAX_MACRO_G = 300;
+
+/**
+ * Validate a nutrition estimate response: an array of { index, calories, proteinG, carbsG, fatG, tags }
+ * where index is the dish's position in the request (0 to dishCount - 1).
+ * Valid estimates are returned even when other entries fail, so callers can
+ * re-prompt for the remaining dishes only.
+ */
+export const validateNutritionEstimates = (value: unknown, dishCount: number): NutritionValidation => {
+  const issues: ValidationIssue[] = [];
+  const estimates = new Map<number, NutritionEstimate>();
+
+  if (!Array.isArray(value)) {
+    return { estimates, issues: [{ path: '', message: 'Expected a JSON array of estimates' }] };
+  }
+
+  value.forEach((entry, i) => {
+    const at = (field: string) => `[${i}]${field ? `.${field}` : ''}`;
+
+    if (!isObject(entry)) {
+      issues.push({ path: at(''), message: 'Expected an object' });
+      return;
+    }
+
+    const entryIssues: ValidationIssue[] = [];
+    if (!isFiniteNumber(entry.index) || !Number.isInteger(entry.index) || entry.index < 0 || entry.index >= dishCount) {
+      entryIssues.push({ path: at('index'), message: `Must be the index of a dish, 0 to ${dishCount - 1}` });
+    }
+    if (!isFiniteNumber(entry.calories) || entry.calories <= 0 || entry.calories > MAX_CALORIES) {
+      entryIssues.push({ path: at('calories'), message: `Must be kcal per portion, between 1 and ${MAX_CALORIES}` });
+    }
+    for (const field of ['proteinG', 'carbsG', 'fatG']) {
+      const grams = entry[field];
+      if (!isFiniteNumber(grams) || grams < 0 || grams > MAX_MACRO_G) {
+        entryIssues.push({ path: at(field), message: `Must be grams per portion, between 0 and ${MAX_MACRO_G}` });
+      }
+    }
+    if (entry.tags !== undefined && (!Array.isArray(entry.tags) || !entry.tags.every(isNonEmptyString))) {
+      entryIssues.push({ path: at('tags'), message: 'Must be an array of strings when present' });
+    }
+    if (entryIssues.length > 0) {
+      issues.push(...entryIssues);
+      return;
+    }
+
+    const index = entry.index as number;
+    if (estimates.has(index)) {
+      issues.push({ path: at('index'), message: `Duplicate estimate for dish ${index}` });
+      return;
+    }
+    estimates.set(index, {
+      calories: Math.round(entry.calories as number),
+      proteinG: Math.round(entry.proteinG as number),
+      carbsG: Math.round(entry.carbsG as number),
+      fatG: Math.round(entry.fatG as number),
+      tags: ((entry.tags as string[] | undefined) || []).map(tag => tag.trim().toLowerCase()),
+    });
+  });
+
+  return { estimates, issues };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isNonEmptyString);
+
+/**
+ * Validate a dish tagging response: an array of { index, proteins, allergens, ingredients, cuisine, spiciness, vegetarian }
+ * where index is the dish's position in the request and proteins, allergens and spiciness
+ * use the fixed vocabularies the filters are built on.
+ * Valid entries are returned even when other entries fail.
+ */
+export const validateDishTagResponse = (value: unknown, dishCount: number): DishTagValidation => {
+  const issues: ValidationIssue[] = [];
+  const tags = new Map<number, DishTagEstimate>();
+
+  if (!Array.isArray(value)) {
+    return { tags, issues: [{ path: '', message: 'Expected a JSON array of dish tags' }] };
+  }
+
+  value.forEach((entry, i) => {
+    const at = (field: string) => `[${i}]${field ? `.${field}` : ''}`;
+
+    if (!isObject(entry)) {
+      issues.push({ path: at(''), message: 'Expected an object' });
+      return;
+    }
+
+    const entryIssues: ValidationIssue[] = [];
+    if (!isFiniteNumber(entry.index) || !Number.isInteger(entry.index) || entry.index < 0 || entry.index >= dishCount) {
+      entryIssues.push({ path: at('index'), message: `Must be the index of a dish, 0 to ${dishCount - 1}` });
+    }
+    if (!isStringArray(entry.proteins) || !entry.proteins.every(p => DISH_PROTEINS.includes(p as DishProtein))) {
+      entryIssues.push({ path: at('proteins'), message: `Must be an array of ${DISH_PROTEINS.join(', ')}` });
+    }
+    if (!isStringArray(entry.allergens) || !entry.allergens.every(a => DISH_ALLERGENS.includes(a as DishAllergen))) {
+      entryIssues.push({ path: at('allergens'), message: `Must be an array of ${DISH_ALLERGENS.join(', ')}` });
+    }
+    if (entry.ingredients !== undefined && !isStringArray(entry.ingredients)) {
+      entryIssues.push({ path: at('ingredients'), message: 'Must be an array of strings when present' });
+    }
+    if (entry.cuisine !== undefined && entry.cuisine !== null && !isNonEmptyString(entry.cuisine)) {
+      entryIssues.push({ path: at('cuisine'), message: 'Must be a string or null' });
+    }
+    if (!SPICINESS_LEVELS.includes(entry.spiciness as Spiciness)) {
+      entryIssues.push({ path: at('spiciness'), message: `Must be one of ${SPICINESS_LEVELS.join(', ')}` });
+    }
+    if (typeof entry.vegetarian !== 'boolean') {
+      entryIssues.push({ path: at('vegetarian'), message: 'Must be true or false' });
+    }
+    if (entryIssues.length > 0) {
+      issues.push(...entryIssues);
+      return;
+    }
+
+    const index = entry.index as number;
+    if (tags.has(index)) {
+      issues.push({ path: at('index'), message: `Duplicate tags for dish ${index}` });
+      return;
+    }
+    tags.set(index, {
+      proteins: entry.proteins as DishProtein[],
+      allergens: entry.allergens as DishAllergen[],
+      ingredients: ((entry.ingredients as string[] | undefined) || []).map(i => i.trim().toLowerCase()),
+      cuisine: isNonEmptyString(entry.cuisine) ? entry.cuisine.trim().toLowerCase() : undefined,
+      spiciness: entry.spiciness as Spiciness,
+      vegetarian: entry.vegetarian as boolean,
+    });
+  });
+
+  return { tags, issues };
+};
+
+/**
+ * Render issues as a bullet list for a repair prompt
+ */
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`).join('\n');
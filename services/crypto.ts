@@ -0,0 +1,66 @@
+/**
+ * WebCrypto helpers for encrypting secrets stored in IndexedDB
+ * Values are sealed with AES-GCM; keys are either a random non-extractable
+ * device key or derived from a user passphrase with PBKDF2.
+ */
+
+export interface SealedValue {
+  __sealed: 1;
+  kid: string; // Id of the key that sealed the value
+  iv: string; // base64
+  data: string; // base64 ciphertext with GCM tag
+}
+
+export const PBKDF2_ITERATIONS = 310000;
+
+/**
+ * WebCrypto is only exposed in secure contexts (https or localhost)
+ */
+export const isCryptoAvailable = (): boolean => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const isSealed = (value: unknown): value is SealedValue =>
+  typeof value === 'object' && value !== null && (value as SealedValue).__sealed === 1;
+
+export const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+export const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+export const createKeyId = (prefix: string): string => `${prefix}-${Date.now().toString(36)}-${toBase64(randomBytes(4)).replace(/[+/=]/g, '')}`;
+
+/**
+ * Random key that cannot be exported; it can still be stored in IndexedDB
+ */
+export const generateDeviceKey = (): Promise<CryptoKey> => {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+};
+
+export const deriveKeyFromPassphrase = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const sealString = async (key: CryptoKey, kid: string, plaintext: string): Promise<SealedValue> => {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { __sealed: 1, kid, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/**
+ * Decrypt a sealed value; rejects if the key is wrong or the data was tampered with
+ */
+export const openString = async (key: CryptoKey, sealed: SealedValue): Promise<string> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+  return new TextDecoder().decode(data);
+};
@@ -1,112 +1,715 @@
-import { HistoricalOrder, UserPreferences } from '../types';
-import { fetchOrderHistory } from './meicanService';
+import { DishTags, HistoricalOrder, NutritionRecord, UserPreferences } from '../types';
+import {
+  createKeyId,
+  deriveKeyFromPassphrase,
+  fromBase64,
+  generateDeviceKey,
+  isCryptoAvailable,
+  isSealed,
+  openString,
+  PBKDF2_ITERATIONS,
+  randomBytes,
+  SealedValue,
+  sealString,
+  toBase64,
+} from './crypto';
 
 const DB_NAME = 'MeicanAI_DB';
 const DB_VERSION = 1;
+// v2: natural-key index on orders and a meta store for the sync state
+// v3: nutrition store of per-dish estimates
+// v4: dish tag cache keyed by dish id
+// v5: natural keys computed on sync instead of stored, key index dropped
+const ACCOUNT_DB_VERSION = 5;
 const STORE_ORDERS = 'orders';
 const STORE_SETTINGS = 'settings';
+const STORE_META = 'meta';
+const STORE_NUTRITION = 'nutrition';
+const STORE_DISH_TAGS = 'dishTags';
 
-export const initDB = (): Promise<IDBDatabase> => {
+type UpgradeHandler = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => void;
+
+const openDatabase = (name: string, version: number, upgrade: UpgradeHandler): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = indexedDB.open(name, version);
 
     request.onerror = (event) => reject('IndexedDB error: ' + (event.target as IDBOpenDBRequest).error);
 
     request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_ORDERS)) {
-        const orderStore = db.createObjectStore(STORE_ORDERS, { keyPath: 'id', autoIncrement: true });
-        orderStore.createIndex('date', 'date', { unique: false });
-      }
-      if (!db.objectStoreNames.contains(STORE_SETTINGS)) {
-        db.createObjectStore(STORE_SETTINGS, { keyPath: 'key' });
-      }
+      const openRequest = event.target as IDBOpenDBRequest;
+      upgrade(openRequest.result, openRequest.transaction!, event.oldVersion);
     };
   });
 };
 
-export const saveOrderHistory = async (orders: Omit<HistoricalOrder, 'id'>[]): Promise<void> => {
-  const db = await initDB();
+const createOrderStore = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORE_ORDERS)) {
+    const orderStore = db.createObjectStore(STORE_ORDERS, { keyPath: 'id', autoIncrement: true });
+    orderStore.createIndex('date', 'date', { unique: false });
+  }
+};
+
+/**
+ * Shared database: account profiles, the encryption keyring and, from before
+ * multi-account support, the single order store (migrated on first load)
+ */
+export const initDB = (): Promise<IDBDatabase> => {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    createOrderStore(db);
+    if (!db.objectStoreNames.contains(STORE_SETTINGS)) {
+      db.createObjectStore(STORE_SETTINGS, { keyPath: 'key' });
+    }
+  });
+};
+
+/**
+ * Natural key of an order line: a dish from a restaurant within one Meican order
+ * Orders stored without Meican's order id fall back to their meal tab, then to the meal time.
+ * Portions of the same dish are one line with a count, not separate keys.
+ */
+export const getOrderKey = (
+  order: Pick<HistoricalOrder, 'date' | 'mealTime' | 'tabUniqueId' | 'orderUniqueId' | 'restaurantName' | 'dishName'>
+): string =>
+  [order.date, order.orderUniqueId || order.tabUniqueId || order.mealTime, order.restaurantName, order.dishName].join('|');
+
+// Each account keeps its order history in its own database
+const getAccountDBName = (username: string) => `${DB_NAME}:${username}`;
+
+const initAccountDB = (username: string): Promise<IDBDatabase> => {
+  return openDatabase(getAccountDBName(username), ACCOUNT_DB_VERSION, (db, tx, oldVersion) => {
+    createOrderStore(db);
+    if (!db.objectStoreNames.contains(STORE_META)) {
+      db.createObjectStore(STORE_META, { keyPath: 'key' });
+    }
+    if (!db.objectStoreNames.contains(STORE_NUTRITION)) {
+      db.createObjectStore(STORE_NUTRITION, { keyPath: 'key' });
+    }
+    if (!db.objectStoreNames.contains(STORE_DISH_TAGS)) {
+      db.createObjectStore(STORE_DISH_TAGS, { keyPath: 'dishId' });
+    }
+
+    const orderStore = tx.objectStore(STORE_ORDERS);
+    if (orderStore.indexNames.contains('key')) {
+      orderStore.deleteIndex('key');
+    }
+    if (oldVersion > 0 && oldVersion < 5) {
+      // Drop the natural keys v2 to v4 stored and, from before history sync, the duplicates it produced
+      const seen = new Set<string>();
+      orderStore.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const { key: _key, ...order } = cursor.value as HistoricalOrder & { key?: string };
+        const key = getOrderKey(order);
+        if (oldVersion < 2 && seen.has(key)) {
+          cursor.delete();
+        } else {
+          seen.add(key);
+          cursor.update(order);
+        }
+        cursor.continue();
+      };
+    }
+  });
+};
+
+const putOrders = async (username: string, orders: (Omit<HistoricalOrder, 'id'> | HistoricalOrder)[]): Promise<void> => {
+  const db = await initAccountDB(username);
   const tx = db.transaction(STORE_ORDERS, 'readwrite');
   const store = tx.objectStore(STORE_ORDERS);
   
-  // Simple deduplication check could happen here, but for now we append
-  orders.forEach(order => store.add(order));
+  orders.forEach(order => store.put(order));
   
+  // Account databases are closed after use so removeAccount can delete them
   return new Promise((resolve) => {
-    tx.oncomplete = () => resolve();
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
   });
 };
 
-/**
- * Get order history from IndexedDB.
- * If no data exists and prefs are provided, fetches from API and saves to DB.
- */
-export const getOrderHistory = async (prefs?: UserPreferences): Promise<HistoricalOrder[]> => {
-  const db = await initDB();
-  
-  // First, try to get from IndexedDB
-  const existingOrders: HistoricalOrder[] = await new Promise((resolve) => {
+const readAllOrders = (db: IDBDatabase): Promise<HistoricalOrder[]> => {
+  return new Promise((resolve) => {
     const tx = db.transaction(STORE_ORDERS, 'readonly');
     const store = tx.objectStore(STORE_ORDERS);
     const request = store.getAll();
     request.onsuccess = () => resolve(request.result);
   });
+};
 
-  // If we have existing orders, return them
-  if (existingOrders.length > 0) {
-    return existingOrders;
-  }
+const readAccountOrders = async (username: string): Promise<HistoricalOrder[]> => {
+  const db = await initAccountDB(username);
+  const orders = await readAllOrders(db);
+  db.close();
+  return orders;
+};
 
-  // If no prefs provided, cannot fetch from API
-  if (!prefs || !prefs.sessionId) {
-    console.log('[DB] No existing orders and no session - returning empty array');
-    return [];
-  }
+/**
+ * Order history stored for an account (the active one by default)
+ */
+export const getStoredOrders = async (username?: string): Promise<HistoricalOrder[]> => {
+  return readAccountOrders(username ?? (await getAccounts()).active);
+};
 
-  // Fetch from API (last 30 days by default)
-  console.log('[DB] No existing orders - fetching from API...');
-  try {
-    const today = new Date();
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(today.getDate() - 30);
-
-    const apiOrders = await fetchOrderHistory(thirtyDaysAgo, today, prefs);
-    
-    if (apiOrders.length > 0) {
-      // Save to IndexedDB
-      await saveOrderHistory(apiOrders);
-      console.log(`[DB] Saved ${apiOrders.length} orders from API to IndexedDB`);
-      
-      // Return the saved orders (with IDs)
-      return getOrderHistory(); // Recursive call to get orders with IDs
+const HISTORY_SYNC_KEY = 'history_sync';
+
+export interface HistorySyncState {
+  lastSyncedDate?: string; // YYYY-MM-DD, end of the last range applied
+  lastSyncAt?: string; // ISO timestamp of the last successful sync
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+export interface HistorySyncChanges {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export const getHistorySyncState = async (username: string): Promise<HistorySyncState> => {
+  const db = await initAccountDB(username);
+  const record = await new Promise<(HistorySyncState & { key: string }) | undefined>((resolve) => {
+    const request = db.transaction(STORE_META, 'readonly').objectStore(STORE_META).get(HISTORY_SYNC_KEY);
+    request.onsuccess = () => resolve(request.result);
+  });
+  db.close();
+  if (!record) return {};
+  const { key: _key, ...state } = record;
+  return state;
+};
+
+export const saveHistorySyncState = async (username: string, state: HistorySyncState): Promise<void> => {
+  const db = await initAccountDB(username);
+  const tx = db.transaction(STORE_META, 'readwrite');
+  tx.objectStore(STORE_META).put({ ...state, key: HISTORY_SYNC_KEY });
+  return new Promise((resolve) => {
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+  });
+};
+
+/**
+ * Make the stored orders between beginDate and endDate (inclusive) match a fresh fetch of that range:
+ * upsert by natural key (see getOrderKey) and delete orders that are gone (cancelled), together with the new sync state
+ */
+export const applyHistoryRange = async (
+  username: string,
+  beginDate: string,
+  endDate: string,
+  orders: Omit<HistoricalOrder, 'id'>[],
+  state: HistorySyncState
+): Promise<HistorySyncChanges> => {
+  const db = await initAccountDB(username);
+  const tx = db.transaction([STORE_ORDERS, STORE_META], 'readwrite');
+  const store = tx.objectStore(STORE_ORDERS);
+  const changes: HistorySyncChanges = { added: 0, updated: 0, removed: 0 };
+
+  const incoming = new Map<string, Omit<HistoricalOrder, 'id'>>();
+  orders.forEach(order => {
+    const key = getOrderKey(order);
+    const same = incoming.get(key);
+    // Meican lists a dish once per order with its count; should it repeat one, keep both portions
+    incoming.set(key, same ? { ...same, count: (same.count || 1) + (order.count || 1) } : order);
+  });
+
+  const stored = new Map<string, HistoricalOrder>();
+  store.index('date').openCursor(IDBKeyRange.bound(beginDate, endDate)).onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (cursor) {
+      const order = cursor.value as HistoricalOrder;
+      const key = getOrderKey(order);
+      if (!incoming.has(key) || stored.has(key)) {
+        cursor.delete();
+        changes.removed++;
+      } else {
+        stored.set(key, order);
+      }
+      cursor.continue();
+      return;
     }
-    
-    return [];
-  } catch (error) {
-    console.error('[DB] Failed to fetch order history from API:', error);
-    return [];
-  }
+
+    // All stored orders of the range are known; write the fresh ones in the same transaction
+    incoming.forEach((order, key) => {
+      const existing = stored.get(key);
+      if (!existing) {
+        store.add(order);
+        changes.added++;
+      } else if (existing.priceInCent !== order.priceInCent || (existing.count || 1) !== (order.count || 1)) {
+        // Keep any fields only known locally
+        store.put({ ...existing, ...order, id: existing.id });
+        changes.updated++;
+      }
+    });
+    tx.objectStore(STORE_META).put({ ...state, key: HISTORY_SYNC_KEY });
+  };
+
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => {
+      db.close();
+      resolve(changes);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
 };
 
-export const savePreferences = async (prefs: UserPreferences): Promise<void> => {
+/**
+ * Key of a dish in the nutrition store: the same name from another restaurant is another dish
+ */
+export const getNutritionKey = (restaurantName: string, dishName: string): string =>
+  `${restaurantName}|${dishName}`;
+
+/**
+ * Nutrition records stored for an account (the active one by default)
+ */
+export const getNutritionRecords = async (username?: string): Promise<NutritionRecord[]> => {
+  const db = await initAccountDB(username ?? (await getAccounts()).active);
+  const records = await new Promise<NutritionRecord[]>((resolve) => {
+    const request = db.transaction(STORE_NUTRITION, 'readonly').objectStore(STORE_NUTRITION).getAll();
+    request.onsuccess = () => resolve(request.result);
+  });
+  db.close();
+  return records;
+};
+
+export const saveNutritionRecords = async (username: string, records: NutritionRecord[]): Promise<void> => {
+  const db = await initAccountDB(username);
+  const tx = db.transaction(STORE_NUTRITION, 'readwrite');
+  const store = tx.objectStore(STORE_NUTRITION);
+  records.forEach(record => store.put(record));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+};
+
+export const deleteNutritionRecord = async (username: string, key: string): Promise<void> => {
+  const db = await initAccountDB(username);
+  const tx = db.transaction(STORE_NUTRITION, 'readwrite');
+  tx.objectStore(STORE_NUTRITION).delete(key);
+  return new Promise((resolve) => {
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+  });
+};
+
+/**
+ * Cached tags of the given dishes; dishes never tagged are missing from the map
+ */
+export const getDishTagRecords = async (username: string, dishIds: string[]): Promise<Map<string, DishTags>> => {
+  const db = await initAccountDB(username);
+  const store = db.transaction(STORE_DISH_TAGS, 'readonly').objectStore(STORE_DISH_TAGS);
+  const records = await Promise.all(dishIds.map(dishId => new Promise<DishTags | undefined>((resolve, reject) => {
+    const request = store.get(dishId);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }))).finally(() => db.close());
+  return new Map(records.filter((record): record is DishTags => !!record).map(record => [record.dishId, record]));
+};
+
+export const saveDishTagRecords = async (username: string, records: DishTags[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await initAccountDB(username);
+  const tx = db.transaction(STORE_DISH_TAGS, 'readwrite');
+  const store = tx.objectStore(STORE_DISH_TAGS);
+  records.forEach(record => store.put(record));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+};
+
+const getSettingsRecord = async <T>(key: string): Promise<T | null> => {
   const db = await initDB();
-  const tx = db.transaction(STORE_SETTINGS, 'readwrite');
-  const store = tx.objectStore(STORE_SETTINGS);
-  store.put({ key: 'user_prefs', ...prefs });
   return new Promise((resolve) => {
-    tx.oncomplete = () => resolve();
+    const tx = db.transaction(STORE_SETTINGS, 'readonly');
+    const store = tx.objectStore(STORE_SETTINGS);
+    const request = store.get(key);
+    request.onsuccess = () => resolve(request.result ? (request.result as T) : null);
   });
 };
 
-export const getPreferences = async (): Promise<UserPreferences | null> => {
+const getAllSettingsRecords = async <T>(): Promise<T[]> => {
   const db = await initDB();
   return new Promise((resolve) => {
     const tx = db.transaction(STORE_SETTINGS, 'readonly');
     const store = tx.objectStore(STORE_SETTINGS);
-    const request = store.get('user_prefs');
-    request.onsuccess = () => resolve(request.result ? (request.result as UserPreferences) : null);
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
   });
 };
+
+const putSettingsRecords = async (records: { key: string }[], deleteKeys: string[] = []): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORE_SETTINGS, 'readwrite');
+  const store = tx.objectStore(STORE_SETTINGS);
+  records.forEach(record => store.put(record));
+  deleteKeys.forEach(key => store.delete(key));
+  return new Promise((resolve) => {
+    tx.oncomplete = () => resolve();
+  });
+};
+
+// ============================================================================
+// Account profiles
+// ============================================================================
+
+const ACCOUNTS_KEY = 'accounts';
+const LEGACY_PREFS_KEY = 'user_prefs';
+// Preferences (including the account's sessionId) are stored per username;
+// the empty username is the profile used before anyone has logged in
+const PREFS_KEY_PREFIX = 'user_prefs:';
+
+interface AccountRegistry {
+  key: typeof ACCOUNTS_KEY;
+  active: string;
+  usernames: string[];
+}
+
+export interface AccountProfile {
+  username: string;
+  loggedIn: boolean;
+  active: boolean;
+}
+
+const getPrefsKey = (username: string) => `${PREFS_KEY_PREFIX}${username}`;
+
+let registryLoad: Promise<AccountRegistry> | null = null;
+
+const getAccounts = (): Promise<AccountRegistry> => {
+  registryLoad ??= (async () => {
+    const existing = await getSettingsRecord<AccountRegistry>(ACCOUNTS_KEY);
+    if (existing) return existing;
+
+    // Before account profiles there was one preferences record and one shared order store
+    const legacy = await getSettingsRecord<PrefsRecord>(LEGACY_PREFS_KEY);
+    const username = typeof legacy?.username === 'string' ? legacy.username : '';
+    const registry: AccountRegistry = { key: ACCOUNTS_KEY, active: username, usernames: username ? [username] : [] };
+
+    const sharedDB = await initDB();
+    const legacyOrders = await readAllOrders(sharedDB);
+    if (legacyOrders.length > 0) {
+      // put() keeps the ids, so an interrupted migration can simply run again
+      await putOrders(username, legacyOrders);
+      await new Promise<void>((resolve) => {
+        const tx = sharedDB.transaction(STORE_ORDERS, 'readwrite');
+        tx.objectStore(STORE_ORDERS).clear();
+        tx.oncomplete = () => resolve();
+      });
+    }
+
+    await putSettingsRecords(
+      legacy ? [{ ...legacy, key: getPrefsKey(username) }, registry] : [registry],
+      legacy ? [LEGACY_PREFS_KEY] : []
+    );
+    return registry;
+  })();
+  return registryLoad;
+};
+
+const putRegistry = async (registry: AccountRegistry, records: { key: string }[] = [], deleteKeys: string[] = []) => {
+  await putSettingsRecords([...records, registry], deleteKeys);
+  registryLoad = Promise.resolve(registry);
+};
+
+/**
+ * Accounts that have logged in from this browser
+ */
+export const listAccounts = async (): Promise<AccountProfile[]> => {
+  const registry = await getAccounts();
+  const profiles = await Promise.all(registry.usernames.map(async (username) => {
+    const record = await getSettingsRecord<PrefsRecord>(getPrefsKey(username));
+    return { username, loggedIn: !!record?.sessionId, active: username === registry.active };
+  }));
+  return profiles;
+};
+
+/**
+ * Make another stored account the active one and return its preferences
+ */
+export const switchAccount = async (username: string): Promise<UserPreferences | null> => {
+  const registry = await getAccounts();
+  if (!registry.usernames.includes(username)) {
+    throw new Error(`Unknown account: ${username}`);
+  }
+  await putRegistry({ ...registry, active: username });
+  return getPreferences();
+};
+
+/**
+ * Leave the active account (keeping its data) so another one can log in
+ */
+export const startNewAccount = async (): Promise<void> => {
+  const registry = await getAccounts();
+  await putRegistry({ ...registry, active: '' });
+};
+
+/**
+ * Forget an account: its preferences, session and order history
+ */
+export const removeAccount = async (username: string): Promise<void> => {
+  const registry = await getAccounts();
+  await putRegistry({
+    ...registry,
+    active: registry.active === username ? '' : registry.active,
+    usernames: registry.usernames.filter(u => u !== username),
+  }, [], [getPrefsKey(username)]);
+  await new Promise<void>((resolve) => {
+    const request = indexedDB.deleteDatabase(getAccountDBName(username));
+    request.onsuccess = () => resolve();
+    request.onerror = () => resolve();
+    request.onblocked = () => resolve();
+  });
+};
+
+// ============================================================================
+// Encryption at rest for credentials in preferences
+// ============================================================================
+
+const KEYRING_KEY = 'keyring';
+const SECRET_FIELDS = ['password', 'geminiApiKey', 'customAiApiKey'] as const;
+// Sealed with the passphrase key to check a passphrase before using it
+const PASSPHRASE_CHECK = 'meican-ai-planner';
+
+interface Keyring {
+  key: typeof KEYRING_KEY;
+  mode: 'device' | 'passphrase';
+  device: { kid: string; cryptoKey: CryptoKey };
+  passphrase?: { kid: string; salt: string; iterations: number; check: SealedValue };
+}
+
+export interface EncryptionStatus {
+  mode: 'device' | 'passphrase' | 'unavailable';
+  locked: boolean; // Passphrase set but not entered in this page session
+}
+
+type PrefsRecord = Record<string, unknown>;
+
+// The passphrase key is only kept in memory, so it has to be entered once per page load
+let unlockedKey: { kid: string; key: CryptoKey } | null = null;
+let keyringLoad: Promise<Keyring> | null = null;
+
+const getKeyring = (): Promise<Keyring> => {
+  keyringLoad ??= (async () => {
+    const existing = await getSettingsRecord<Keyring>(KEYRING_KEY);
+    if (existing) return existing;
+    const keyring: Keyring = {
+      key: KEYRING_KEY,
+      mode: 'device',
+      device: { kid: createKeyId('device'), cryptoKey: await generateDeviceKey() },
+    };
+    await putSettingsRecords([keyring]);
+    return keyring;
+  })();
+  return keyringLoad;
+};
+
+const getActiveKey = (keyring: Keyring) => {
+  return keyring.mode === 'passphrase' ? unlockedKey : { kid: keyring.device.kid, key: keyring.device.cryptoKey };
+};
+
+const getKeyById = (keyring: Keyring, kid: string): CryptoKey | null => {
+  if (kid === keyring.device.kid) return keyring.device.cryptoKey;
+  if (unlockedKey && kid === unlockedKey.kid) return unlockedKey.key;
+  return null;
+};
+
+const sealSecrets = async (prefs: UserPreferences, existing: PrefsRecord | null, keyring: Keyring): Promise<PrefsRecord> => {
+  const active = getActiveKey(keyring);
+  const record: PrefsRecord = { ...prefs };
+  for (const field of SECRET_FIELDS) {
+    const value = prefs[field];
+    if (active) {
+      record[field] = value ? await sealString(active.key, active.kid, value) : value;
+    } else {
+      // Locked: secrets cannot be encrypted, so keep the stored ones untouched
+      record[field] = existing?.[field] ?? '';
+    }
+  }
+  return record;
+};
+
+const openSecrets = async (record: PrefsRecord, keyring: Keyring) => {
+  const prefs = { ...record } as unknown as UserPreferences;
+  let hasPlaintext = false;
+  for (const field of SECRET_FIELDS) {
+    const value = record[field];
+    if (isSealed(value)) {
+      const key = getKeyById(keyring, value.kid);
+      try {
+        prefs[field] = key ? await openString(key, value) : '';
+      } catch (error) {
+        console.warn(`[DB] Failed to decrypt ${field}:`, error);
+        prefs[field] = '';
+      }
+    } else if (typeof value === 'string' && value) {
+      hasPlaintext = true;
+    }
+  }
+  return { prefs, hasPlaintext };
+};
+
+// Store a new keyring and every account's preferences re-encrypted under it in one transaction
+const rekey = async (keyring: Keyring, profiles: UserPreferences[]): Promise<void> => {
+  const records: { key: string }[] = [keyring];
+  for (const prefs of profiles) {
+    records.push({ ...(await sealSecrets(prefs, null, keyring)), key: getPrefsKey(prefs.username || '') });
+  }
+  await putSettingsRecords(records);
+  keyringLoad = Promise.resolve(keyring);
+};
+
+// Decrypted preferences of all accounts, for re-encrypting them under a new key
+const getAllPreferences = async (keyring: Keyring): Promise<UserPreferences[]> => {
+  const records = (await getAllSettingsRecords<PrefsRecord & { key: string }>())
+    .filter(record => record.key.startsWith(PREFS_KEY_PREFIX));
+  const profiles: UserPreferences[] = [];
+  for (const { key: _key, ...record } of records) {
+    profiles.push((await openSecrets(record, keyring)).prefs);
+  }
+  return profiles;
+};
+
+const writePreferences = async (prefs: UserPreferences, activate: boolean): Promise<void> => {
+  const registry = await getAccounts();
+  const username = prefs.username || '';
+  const key = getPrefsKey(username);
+
+  let record: { key: string } = { ...prefs, key };
+  if (isCryptoAvailable()) {
+    const keyring = await getKeyring();
+    const existing = await getSettingsRecord<PrefsRecord>(key);
+    record = { ...(await sealSecrets(prefs, existing, keyring)), key };
+  }
+
+  const usernames = username && !registry.usernames.includes(username) ? [...registry.usernames, username] : registry.usernames;
+  await putRegistry({ ...registry, active: activate ? username : registry.active, usernames }, [record]);
+};
+
+/**
+ * Save preferences to the profile of prefs.username
+ * The active account stays as it is, whichever profile is saved.
+ */
+export const savePreferences = (prefs: UserPreferences): Promise<void> => writePreferences(prefs, false);
+
+/**
+ * Save the preferences of an account that just logged in and make it the active one
+ */
+export const activateAccount = (prefs: UserPreferences): Promise<void> => writePreferences(prefs, true);
+
+/**
+ * Preferences of the active account, or of the given one
+ */
+export const getPreferences = async (username?: string): Promise<UserPreferences | null> => {
+  const { active } = await getAccounts();
+  const record = await getSettingsRecord<PrefsRecord>(getPrefsKey(username ?? active));
+  if (!record || !isCryptoAvailable()) return record as unknown as UserPreferences | null;
+
+  const keyring = await getKeyring();
+  const { prefs, hasPlaintext } = await openSecrets(record, keyring);
+  // Preferences stored before encryption was added are sealed on first read
+  if (hasPlaintext && getActiveKey(keyring) && (username === undefined || username === active)) {
+    await savePreferences(prefs);
+  }
+  return prefs;
+};
+
+export const getEncryptionStatus = async (): Promise<EncryptionStatus> => {
+  if (!isCryptoAvailable()) return { mode: 'unavailable', locked: false };
+  const keyring = await getKeyring();
+  return { mode: keyring.mode, locked: keyring.mode === 'passphrase' && !unlockedKey };
+};
+
+/**
+ * Check a passphrase and keep its key for this page session
+ */
+export const unlockWithPassphrase = async (passphrase: string): Promise<boolean> => {
+  const keyring = await getKeyring();
+  if (!keyring.passphrase) return true;
+
+  const { kid, salt, iterations, check } = keyring.passphrase;
+  const key = await deriveKeyFromPassphrase(passphrase, fromBase64(salt), iterations);
+  try {
+    if (await openString(key, check) !== PASSPHRASE_CHECK) return false;
+  } catch {
+    return false;
+  }
+  unlockedKey = { kid, key };
+  return true;
+};
+
+const assertUnlocked = (keyring: Keyring) => {
+  if (keyring.mode === 'passphrase' && !unlockedKey) {
+    throw new Error('Unlock with the current passphrase first');
+  }
+};
+
+/**
+ * Encrypt credentials with a passphrase-derived key, or change the passphrase.
+ * Every call uses a fresh salt, so this also rotates the key.
+ */
+export const setPassphrase = async (passphrase: string): Promise<void> => {
+  const keyring = await getKeyring();
+  assertUnlocked(keyring);
+  const profiles = await getAllPreferences(keyring);
+
+  const salt = randomBytes(16);
+  const kid = createKeyId('pass');
+  const key = await deriveKeyFromPassphrase(passphrase, salt);
+  const check = await sealString(key, kid, PASSPHRASE_CHECK);
+
+  unlockedKey = { kid, key };
+  await rekey({
+    ...keyring,
+    mode: 'passphrase',
+    passphrase: { kid, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check },
+  }, profiles);
+};
+
+/**
+ * Go back to the device key
+ */
+export const removePassphrase = async (): Promise<void> => {
+  const keyring = await getKeyring();
+  assertUnlocked(keyring);
+  const profiles = await getAllPreferences(keyring);
+
+  unlockedKey = null;
+  await rekey({ key: KEYRING_KEY, mode: 'device', device: keyring.device }, profiles);
+};
+
+/**
+ * Replace the device key and re-encrypt the credentials with it
+ */
+export const rotateEncryptionKey = async (): Promise<void> => {
+  const keyring = await getKeyring();
+  if (keyring.mode === 'passphrase') {
+    throw new Error('Change the passphrase to rotate a passphrase key');
+  }
+  const profiles = await getAllPreferences(keyring);
+
+  await rekey({
+    ...keyring,
+    device: { kid: createKeyId('device'), cryptoKey: await generateDeviceKey() },
+  }, profiles);
+};
@@ -0,0 +1,67 @@
+import { Dish, DishTags, UserPreferences } from '../types';
+import { extractDishTags, needsEnrichment, TAG_RULES_VERSION } from '../utils/dishTags';
+import { getDishTagRecords, saveDishTagRecords } from './db';
+import { GeminiService } from './geminiService';
+
+// Dishes per tagging request, so one malformed response costs little
+const ENRICH_BATCH_SIZE = 50;
+
+const isCurrent = (tags: DishTags) => tags.source === 'ai' || tags.rulesVersion === TAG_RULES_VERSION;
+
+/**
+ * Tags of the dishes, by dish id
+ * Cached tags are reused; other dishes are tagged by the rule dictionaries and,
+ * when enrich is set and the user opted in, dishes the rules know too little
+ * about for the user's filters are sent to the AI provider. A failed
+ * enrichment keeps the rule tags.
+ */
+export const tagDishes = async (
+  dishes: Pick<Dish, 'id' | 'name' | 'restaurantName'>[],
+  prefs: UserPreferences,
+  enrich: boolean = false
+): Promise<Map<string, DishTags>> => {
+  const username = prefs.username || '';
+  const unique = [...new Map(dishes.map(dish => [dish.id, dish])).values()];
+  const cached = await getDishTagRecords(username, unique.map(dish => dish.id));
+
+  const tags = new Map<string, DishTags>();
+  const changed = new Map<string, DishTags>();
+  unique.forEach(dish => {
+    const record = cached.get(dish.id);
+    if (record && isCurrent(record)) {
+      tags.set(dish.id, record);
+    } else {
+      const extracted = extractDishTags(dish);
+      tags.set(dish.id, extracted);
+      changed.set(dish.id, extracted);
+    }
+  });
+
+  if (enrich && prefs.aiDishTagging && prefs.aiProvider !== 'local') {
+    const pending = unique.filter(dish => {
+      const current = tags.get(dish.id)!;
+      return current.source === 'rules' && needsEnrichment(current, prefs.dishFilters);
+    });
+    const ai = new GeminiService();
+
+    for (let start = 0; start < pending.length; start += ENRICH_BATCH_SIZE) {
+      const batch = pending.slice(start, start + ENRICH_BATCH_SIZE);
+      try {
+        const estimates = await ai.tagDishes(batch, prefs);
+        const updatedAt = new Date().toISOString();
+        estimates.forEach((estimate, index) => {
+          const dish = batch[index];
+          const enriched: DishTags = { dishId: dish.id, dishName: dish.name, ...estimate, source: 'ai', updatedAt };
+          tags.set(dish.id, enriched);
+          changed.set(dish.id, enriched);
+        });
+      } catch (error) {
+        console.warn('[DishTagging] AI enrichment failed, keeping rule tags:', error);
+        break;
+      }
+    }
+  }
+
+  await saveDishTagRecords(username, [...changed.values()]);
+  return tags;
+};
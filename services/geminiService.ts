@@ -1,5 +1,20 @@
 import { GoogleGenAI } from '@google/genai';
-import { Dish, HistoricalOrder, UserPreferences, AnalysisResult, PlannedOrder, MealTime } from '../types';
+import { Dish, HistoricalOrder, UserPreferences, AnalysisResult, PlannedOrder, MealTime, PlanGenerationResult, UnresolvedSlot, NutritionRecord } from '../types';
+import { DishTagEstimate, formatIssues, getSlotLabel, NutritionEstimate, parseModelJson, PlanPick, validateAnalysisResult, validateDishTagResponse, validateNutritionEstimates, validatePlanResponse, ValidationIssue } from './aiSchema';
+import { getNutritionKey } from './db';
+import { DISH_ALLERGENS, DISH_PROTEINS, SPICINESS_LEVELS } from '../utils/dishTags';
+import { buildExclusionRemark } from '../utils/orderItems';
+import { getPlanSlotKey } from '../utils/planDiff';
+
+// How many times a malformed response is sent back to the model with its errors
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export class AiValidationError extends Error {
+  constructor(message: string, public issues: ValidationIssue[]) {
+    super(`${message}:\n${formatIssues(issues)}`);
+    this.name = 'AiValidationError';
+  }
+}
 
 export class GeminiService {
   private genAI: GoogleGenAI | undefined;
@@ -45,11 +60,38 @@ export class GeminiService {
     return data.choices?.[0]?.message?.content || '';
   }
 
+  // Send a prompt to the configured provider and return the raw text
+  private async complete(prompt: string, prefs?: UserPreferences): Promise<string> {
+    if (prefs && (prefs.aiProvider === 'custom' || prefs.aiProvider === 'openrouter')) {
+      const isOpenRouter = prefs.aiProvider === 'openrouter';
+      const customPrefs = isOpenRouter ? {
+        ...prefs,
+        customAiBaseUrl: 'https://openrouter.ai/api/v1',
+        customAiApiKey: 'OPENROUTER_MANAGED_KEY', // Backend will replace this
+        customAiModel: prefs.openRouterModel || 'nex-agi/deepseek-v3.1-nex-n1:free'
+      } : prefs;
+
+      return this.callCustomAI(prompt, customPrefs);
+    }
+
+    // Prepare Gemini Client (Use user provided key if available, else generic)
+    const activeGenAI = this.getGenAI(prefs?.geminiApiKey);
+    const response = await activeGenAI.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+      }
+    });
+    return response.text || '';
+  }
+
   async generateWeeklyPlan(
-    availableSlots: { date: string; mealTime: MealTime; tabUniqueId: string; menu: Dish[]; userAddressUniqueId?: string; namespace?: string }[],
+    availableSlots: { date: string; mealTime: MealTime; mealName?: string; tabUniqueId: string; menu: Dish[]; userAddressUniqueId?: string; namespace?: string }[],
     history: Omit<HistoricalOrder, 'id'>[],
-    prefs: UserPreferences
-  ): Promise<PlannedOrder[]> {
+    prefs: UserPreferences,
+    nutrition: NutritionRecord[] = []
+  ): Promise<PlanGenerationResult> {
     const modePrompt = prefs.planningMode === 'health' 
       ? "Prioritize low calorie, high protein, and balanced macros."
       : prefs.planningMode === 'preference'
@@ -59,12 +101,29 @@ export class GeminiService {
     const exclusions = prefs.excludedKeywords.join(", ");
     const weights = JSON.stringify(prefs.vendorWeights);
 
-    // Minimize token usage by mapping menus efficiently
+    // Caps are enforced afterwards as well; telling the model keeps replacements rare
+    const budget = prefs.budget;
+    const budgetPrompt = budget && (budget.perMealCent || budget.perDayCent || budget.perWeekCent)
+      ? `Budget in cents, applied to price minus a per-meal subsidy of ${budget.subsidyCent || 0}: ` +
+        `per meal ${budget.perMealCent || 'unlimited'}, per day ${budget.perDayCent || 'unlimited'}, per week ${budget.perWeekCent || 'unlimited'}.`
+      : "No budget limit.";
+
+    // Minimize token usage by mapping menus efficiently; known nutrition saves the model guessing it
+    const nutritionByKey = new Map(nutrition.map(record => [record.key, record]));
     const slotsPayload = availableSlots.map(slot => ({
       date: slot.date,
-      time: slot.mealTime,
+      meal: slot.mealName || slot.mealTime,
       tabId: slot.tabUniqueId,
-      options: slot.menu.map(d => ({ id: d.id, name: d.name, restaurant: d.restaurantName, price: d.priceInCent }))
+      options: slot.menu.map(d => {
+        const record = nutritionByKey.get(getNutritionKey(d.restaurantName, d.name));
+        return {
+          id: d.id,
+          name: d.name,
+          restaurant: d.restaurantName,
+          price: d.priceInCent,
+          ...(record && { kcal: record.calories, protein: record.proteinG }),
+        };
+      })
     }));
 
     // Build history summary for taste analysis
@@ -89,7 +148,7 @@ export class GeminiService {
       4. Typical price range
       5. Any patterns (e.g., prefers lighter meals, likes spicy food)
       
-      ## STEP 2: Select ONE dish for each time slot
+      ## STEP 2: Select ONE main dish for each time slot
       
       Available Slots and Menus:
       ${JSON.stringify(slotsPayload)}
@@ -97,134 +156,298 @@ export class GeminiService {
       Constraints:
       1. Exclude dishes with keywords: [${exclusions}].
       2. Vendor Weights (Higher is better, negative is banned): ${weights}.
-      3. Mode: ${modePrompt}
+      3. Mode: ${modePrompt} Options with "kcal" and "protein" (grams) have known nutrition; use it over guesses from the name.
       4. Avoid repeating the same main ingredient twice in a row.
       5. IMPORTANT: Prefer dishes that match the user's taste profile from Step 1.
+      6. ${budgetPrompt}
+      7. Dishes whose name contains an excluded keyword are banned. A dish that may contain one only as a removable ingredient (e.g. garnish or sauce) can still be chosen; list those keywords in "softConflicts" so a remark asks the restaurant to leave them out.
+      8. Optionally add side items (e.g. a drink or soup) as "extras", from the SAME restaurant as the main dish, only when the user's history shows they usually order them. Extras count towards the budget.
       
       ## Output Format (Strict JSON Array ONLY)
       IMPORTANT: Return ONLY valid JSON. Keys must be double quoted.
       [
         {
           "date": "YYYY-MM-DD",
-          "mealTime": "LUNCH" | "DINNER",
+          "tabId": "tabId_of_the_slot",
           "dishId": "id_from_options",
+          "extras": [{ "dishId": "id_from_options", "count": 1 }], // Optional, omit when not needed
+          "softConflicts": ["keyword"], // Optional, excluded keywords to leave out of the main dish
           "reason": "基于您的历史偏好：[具体原因]" // Explain in Chinese why this matches their taste
         }
       ]
     `;
 
-    try {
-      let rawText = '';
-
-      if (prefs.aiProvider === 'custom' || prefs.aiProvider === 'openrouter') {
-        const isOpenRouter = prefs.aiProvider === 'openrouter';
-        const customPrefs = isOpenRouter ? {
-          ...prefs,
-          customAiBaseUrl: 'https://openrouter.ai/api/v1',
-          customAiApiKey: 'OPENROUTER_MANAGED_KEY', // Backend will replace this
-          customAiModel: prefs.openRouterModel || 'nex-agi/deepseek-v3.1-nex-n1:free'
-        } : prefs;
-        
-        rawText = await this.callCustomAI(prompt + "\n\nEnsure you return ONLY valid JSON. Keys must be double quoted.", customPrefs);
+    type Slot = typeof availableSlots[number];
+    const picks = new Map<Slot, PlanPick<Slot>>();
+    let issues: ValidationIssue[] = [];
+    let nextPrompt = prompt + "\n\nEnsure you return ONLY valid JSON. Keys must be double quoted.";
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const rawText = await this.complete(nextPrompt, prefs);
+      const parsed = parseModelJson(rawText);
+
+      if (parsed.ok) {
+        // Slots resolved by an earlier attempt are not re-validated
+        const openSlots = availableSlots.filter(slot => !picks.has(slot));
+        const validation = validatePlanResponse(parsed.value, openSlots, prefs.excludedKeywords.filter(k => k.trim()));
+        validation.picks.forEach(pick => picks.set(pick.slot, pick));
+        issues = validation.issues;
       } else {
-        // Prepare Gemini Client (Use user provided key if available, else generic)
-        // Prepare Gemini Client (Use user provided key if available, else generic)
-        const activeGenAI = this.getGenAI(prefs.geminiApiKey);
-
-        const model = 'gemini-2.5-flash';
-        const response = await activeGenAI.models.generateContent({
-          model,
-          contents: prompt,
-          config: {
-            responseMimeType: 'application/json',
-          }
-        });
-        rawText = response.text || '';
+        issues = parsed.issues;
       }
-      
-      if (!rawText) throw new Error("Empty response from AI");
-      
-      // Clean up markdown block if present (Custom AI might add it)
-      if (rawText.startsWith('```json')) {
-        rawText = rawText.replace(/```json\n?/, '').replace(/```/, '');
+
+      const missing = availableSlots.filter(slot => !picks.has(slot));
+      if (missing.length === 0) break;
+      if (issues.length === 0) {
+        issues = missing.map(slot => ({ path: '', message: `Missing pick for ${getSlotLabel(slot)}`, slotKey: getPlanSlotKey(slot) }));
       }
-      if (rawText.startsWith('```')) {
-         rawText = rawText.replace(/```\n?/, '').replace(/```/, '');
+
+      if (attempt < MAX_REPAIR_ATTEMPTS) {
+        console.warn(`[GeminiService] Plan response invalid (attempt ${attempt + 1}), re-prompting:`, issues);
+        nextPrompt = `${prompt}
+
+      ## Correction Required
+      Your previous response was:
+      ${rawText.slice(0, 4000)}
+
+      It had these problems:
+      ${formatIssues(issues)}
+
+      Return a JSON array with one item for EACH of these slots only, using dishId values from that slot's options:
+      ${JSON.stringify(missing.map(slot => ({ date: slot.date, tabId: slot.tabUniqueId, meal: slot.mealName || slot.mealTime })))}
+      Return ONLY valid JSON. Keys must be double quoted.`;
       }
+    }
 
-      // Sanitize JSON
-      let cleanText = rawText.trim();
-      cleanText = cleanText.replace(/([{,]\s*)([a-zA-Z0-9_]+?)\s*:/g, '$1"$2":');
-      
-      const parsed = JSON.parse(cleanText);
-      
-      // Map back to full objects
-      const plans: PlannedOrder[] = [];
-      parsed.forEach((p: any) => {
-        const slot = availableSlots.find(s => s.date === p.date && s.mealTime === p.mealTime);
-        if (slot) {
-          // Robust matching for dish ID (handle string vs number mismatch)
-          const dish = slot.menu.find(d => String(d.id) === String(p.dishId));
-          
-          if (dish) {
-            plans.push({
-              date: p.date,
-              mealTime: p.mealTime as MealTime,
-              dish,
-              reason: p.reason,
-              tabUniqueId: slot.tabUniqueId,
-              userAddressUniqueId: slot.userAddressUniqueId,
-              namespace: slot.namespace
-            });
-          } else {
-             console.warn(`[GeminiService] Dish not found for plan:`, p);
-             console.warn(`[GeminiService] Available dishes for ${p.date} ${p.mealTime}:`, slot.menu.map(d => ({ id: d.id, name: d.name })));
-          }
-        } else {
-             console.warn(`[GeminiService] Slot not found for plan:`, p);
-        }
+    const plan: PlannedOrder[] = availableSlots
+      .filter(slot => picks.has(slot))
+      .map(slot => {
+        const pick = picks.get(slot)!;
+        const items = pick.softConflicts.length > 0
+          ? [{ ...pick.items[0], remark: buildExclusionRemark(pick.softConflicts) }, ...pick.items.slice(1)]
+          : pick.items;
+        return {
+          date: slot.date,
+          mealTime: slot.mealTime,
+          mealName: slot.mealName,
+          dish: pick.dish,
+          items: items.length > 1 || items[0].remark ? items : undefined,
+          reason: pick.reason,
+          tabUniqueId: slot.tabUniqueId,
+          userAddressUniqueId: slot.userAddressUniqueId,
+          namespace: slot.namespace
+        };
       });
-      
-      return plans;
 
-    } catch (error) {
-      console.error("AI Planning Error:", error);
-      throw error;
+    const unresolvedSlots: UnresolvedSlot[] = availableSlots
+      .filter(slot => !picks.has(slot))
+      .map(slot => {
+        // Prefer the issues that name this slot over response-wide ones
+        const slotIssues = issues.filter(issue => issue.slotKey === getPlanSlotKey(slot));
+        return {
+          date: slot.date,
+          mealTime: slot.mealTime,
+          mealName: slot.mealName,
+          tabUniqueId: slot.tabUniqueId,
+          issues: (slotIssues.length > 0 ? slotIssues : issues)
+            .map(issue => `${issue.path ? `${issue.path}: ` : ''}${issue.message}`),
+        };
+      });
+
+    return { plan, unresolvedSlots };
+  }
+
+  /**
+   * Complete a prompt that asks for one item per indexed entry, re-prompting
+   * for the entries that are still missing. Entries the model keeps getting
+   * wrong are left out of the result.
+   */
+  private async completeForEach<T>(
+    prompt: string,
+    payload: { index: number }[],
+    validate: (value: unknown) => { results: Map<number, T>; issues: ValidationIssue[] },
+    label: string,
+    prefs?: UserPreferences
+  ): Promise<Map<number, T>> {
+    const results = new Map<number, T>();
+    let issues: ValidationIssue[] = [];
+    let nextPrompt = prompt;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const rawText = await this.complete(nextPrompt, prefs);
+      const parsed = parseModelJson(rawText);
+
+      if (parsed.ok) {
+        const validation = validate(parsed.value);
+        // Entries resolved by an earlier attempt keep that result
+        validation.results.forEach((result, index) => {
+          if (!results.has(index)) results.set(index, result);
+        });
+        issues = validation.issues;
+      } else {
+        issues = parsed.issues;
+      }
+
+      const missing = payload.filter(entry => !results.has(entry.index));
+      if (missing.length === 0) break;
+      if (issues.length === 0) {
+        issues = missing.map(entry => ({ path: '', message: `Missing item for index ${entry.index}` }));
+      }
+
+      if (attempt < MAX_REPAIR_ATTEMPTS) {
+        console.warn(`[GeminiService] ${label} response invalid (attempt ${attempt + 1}), re-prompting:`, issues);
+        nextPrompt = `${prompt}
+
+      ## Correction Required
+      Your previous response was:
+      ${rawText.slice(0, 4000)}
+
+      It had these problems:
+      ${formatIssues(issues)}
+
+      Return a JSON array with one item for EACH of these dishes only, keeping their index:
+      ${JSON.stringify(missing)}
+      Return ONLY valid JSON. Keys must be double quoted.`;
+      }
     }
+
+    return results;
   }
 
-  async analyzeHistory(history: HistoricalOrder[], prefs?: UserPreferences, language: string = 'en'): Promise<AnalysisResult> {
+  /**
+   * Estimate calories and macros of one portion of each dish, for the nutrition store
+   */
+  async estimateNutrition(
+    dishes: { dishName: string; restaurantName: string }[],
+    prefs?: UserPreferences
+  ): Promise<Map<number, NutritionEstimate>> {
+    if (dishes.length === 0) return new Map();
+
+    const payload = dishes.map((dish, index) => ({ index, dish: dish.dishName, restaurant: dish.restaurantName }));
+    const prompt = `
+      You are a nutritionist estimating Chinese office delivery meals.
+      For each dish below, estimate ONE typical delivery portion: calories (kcal) and protein, carbs and fat in grams.
+      Add a few lowercase tags from: "high-protein", "low-calorie", "high-calorie", "fried", "vegetarian", "spicy", "high-carb", "high-fat".
+
+      Dishes:
+      ${JSON.stringify(payload)}
+
+      ## Output Format (Strict JSON Array ONLY)
+      [
+        { "index": 0, "calories": 650, "proteinG": 30, "carbsG": 80, "fatG": 20, "tags": ["high-protein"] }
+      ]
+      Return one item for EACH dish. Keys must be double quoted.
+    `;
+
+    return this.completeForEach(
+      prompt,
+      payload,
+      (value) => {
+        const { estimates, issues } = validateNutritionEstimates(value, dishes.length);
+        return { results: estimates, issues };
+      },
+      'Nutrition',
+      prefs
+    );
+  }
+
+  /**
+   * Tag dishes from their names with the fixed protein, allergen and spiciness vocabularies
+   */
+  async tagDishes(
+    dishes: { name: string; restaurantName?: string }[],
+    prefs?: UserPreferences
+  ): Promise<Map<number, DishTagEstimate>> {
+    if (dishes.length === 0) return new Map();
+
+    const payload = dishes.map((dish, index) => ({ index, dish: dish.name, restaurant: dish.restaurantName }));
+    const prompt = `
+      You are tagging Chinese office delivery dishes from their names, for dietary filters.
+      For each dish give:
+      - "proteins": any of ${JSON.stringify(DISH_PROTEINS)} the dish contains (unqualified 肉 is usually pork)
+      - "allergens": any of ${JSON.stringify(DISH_ALLERGENS)} it likely contains
+      - "ingredients": other main ingredients, lowercase English words
+      - "cuisine": lowercase English name of the cuisine (e.g. "sichuan", "cantonese", "japanese"), or null
+      - "spiciness": one of ${JSON.stringify(SPICINESS_LEVELS)}
+      - "vegetarian": true only if it contains no meat, poultry, fish or seafood
+
+      Dishes:
+      ${JSON.stringify(payload)}
+
+      ## Output Format (Strict JSON Array ONLY)
+      [
+        { "index": 0, "proteins": ["pork"], "allergens": [], "ingredients": ["pepper"], "cuisine": "hunan", "spiciness": "medium", "vegetarian": false }
+      ]
+      Return one item for EACH dish. Keys must be double quoted.
+    `;
+
+    return this.completeForEach(
+      prompt,
+      payload,
+      (value) => {
+        const { tags, issues } = validateDishTagResponse(value, dishes.length);
+        return { results: tags, issues };
+      },
+      'Dish tag',
+      prefs
+    );
+  }
+
+  async analyzeHistory(
+    history: HistoricalOrder[],
+    prefs?: UserPreferences,
+    language: string = 'en',
+    nutrition: NutritionRecord[] = []
+  ): Promise<AnalysisResult> {
     if (history.length === 0) throw new Error("No history to analyze");
 
+    // Calories come from the nutrition store, so every run judges the same numbers
+    const nutritionByKey = new Map(nutrition.map(record => [record.key, record]));
+    const historyPayload = history.slice(-30).map(order => {
+      const record = nutritionByKey.get(getNutritionKey(order.restaurantName, order.dishName));
+      const portions = order.count || 1;
+      return {
+        date: order.date,
+        meal: order.mealName || order.mealTime,
+        dish: order.dishName,
+        restaurant: order.restaurantName,
+        price: order.priceInCent * portions,
+        ...(portions > 1 && { portions }),
+        ...(record && {
+          kcal: record.calories * portions,
+          proteinG: record.proteinG * portions,
+          carbsG: record.carbsG * portions,
+          fatG: record.fatG * portions,
+        }),
+      };
+    });
+
     const promptEn = `
       Analyze the following food order history.
-      Input: ${JSON.stringify(history.slice(-30))} (Last 30 orders)
+      Input: ${JSON.stringify(historyPayload)} (Last 30 orders; kcal and macros per order where known)
       
       Tasks:
-      1. Estimate calories for each meal (approximate based on name).
-      2. Analyze cuisine variety.
-      3. Give a health score (0-100).
-      4. Provide 3 specific improvements.
+      1. Analyze cuisine variety.
+      2. Give a health score (0-100), based on the given calories and macros.
+      3. Provide 3 specific improvements.
       
       Output JSON Schema:
       {
         "summary": "String paragraph",
         "score": Number,
         "suggestions": ["String", "String", "String"],
-        "calorieTrend": [{"date": "YYYY-MM-DD", "calories": Number}],
         "cuisineDistribution": [{"name": "String", "value": Number}]
       }
     `;
 
     const promptZh = `
       分析以下饮食订单历史。
-      输入: ${JSON.stringify(history.slice(-30))} (最近30个订单)
+      输入: ${JSON.stringify(historyPayload)} (最近30个订单；已知的订单带有卡路里和营养素)
       
       任务:
-      1. 估算每餐的卡路里（根据菜名估算）。
-      2. 分析菜系多样性。
-      3. 给出一个健康评分 (0-100)。
-      4. 提供3个具体的改进建议。
+      1. 分析菜系多样性。
+      2. 根据给出的卡路里和营养素，给出一个健康评分 (0-100)。
+      3. 提供3个具体的改进建议。
       
       最重要的规则：必须返回标准的 JSON 格式！
       KEY 必须用双引号包裹！例如 "key": "value"。
@@ -235,66 +458,43 @@ export class GeminiService {
         "summary": "字符串段落",
         "score": 85,
         "suggestions": ["建议1", "建议2", "建议3"],
-        "calorieTrend": [{"date": "2023-01-01", "calories": 500}],
         "cuisineDistribution": [{"name": "菜系名", "value": 10}]
       }
     `;
-
     const prompt = (language === 'zh' || language.startsWith('zh-')) ? promptZh : promptEn + "\nEnsure STRICT JSON format. Keys must be double quoted.";
 
-    try {
-      let rawText = '';
-      
-      if (prefs && (prefs.aiProvider === 'custom' || prefs.aiProvider === 'openrouter')) {
-         const isOpenRouter = prefs.aiProvider === 'openrouter';
-         const customPrefs = isOpenRouter ? {
-           ...prefs,
-           customAiBaseUrl: 'https://openrouter.ai/api/v1',
-           customAiApiKey: 'OPENROUTER_MANAGED_KEY',
-           customAiModel: prefs.openRouterModel || 'nex-agi/deepseek-v3.1-nex-n1:free'
-         } : prefs;
-
-         rawText = await this.callCustomAI(prompt, customPrefs);
-      } else {
-        const activeGenAI = this.getGenAI(prefs?.geminiApiKey);
-
-        const response = await activeGenAI.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: prompt,
-          config: {
-            responseMimeType: 'application/json'
-          }
-        });
-        rawText = response.text || '';
-      }
+    let issues: ValidationIssue[] = [];
+    let nextPrompt = prompt;
 
-       // Clean up markdown block if present
-      if (rawText.startsWith('```json')) {
-        rawText = rawText.replace(/```json\n?/, '').replace(/```/, '');
-      }
-      if (rawText.startsWith('```')) {
-         rawText = rawText.replace(/```\n?/, '').replace(/```/, '');
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const rawText = await this.complete(nextPrompt, prefs);
+      const parsed = parseModelJson(rawText);
+      const validation = parsed.ok ? validateAnalysisResult(parsed.value) : { result: undefined, issues: parsed.issues };
+
+      if (validation.result) {
+        // Attach the model name to the result
+        return {
+          ...validation.result,
+          modelName: (prefs && (prefs.aiProvider === 'custom' || prefs.aiProvider === 'openrouter')) 
+            ? (prefs.aiProvider === 'openrouter' ? (prefs.openRouterModel || 'DeepSeek (Free)') : (prefs.customAiModel || 'Custom Model'))
+            : 'gemini-2.5-flash',
+        };
       }
 
-      // Sanitize JSON: Fix unquoted keys and single quotes
-      // 1. Replace unquoted keys (e.g. { name: "val" } -> { "name": "val" })
-      // 2. Replace single quotes with double quotes for keys/strings if possible (simple heuristic)
-      let cleanText = rawText.trim();
-      
-      // Simple fix for unquoted keys: look for [,{] followed by spacing, then word characters, then colon
-      cleanText = cleanText.replace(/([{,]\s*)([a-zA-Z0-9_]+?)\s*:/g, '$1"$2":');
+      issues = validation.issues;
+      console.warn(`[GeminiService] Analysis response invalid (attempt ${attempt + 1}):`, issues);
+      nextPrompt = `${prompt}
 
-      const result = JSON.parse(cleanText || "{}");
-      
-      // Attach the model name to the result
-      result.modelName = (prefs && (prefs.aiProvider === 'custom' || prefs.aiProvider === 'openrouter')) 
-        ? (prefs.aiProvider === 'openrouter' ? (prefs.openRouterModel || 'DeepSeek (Free)') : (prefs.customAiModel || 'Custom Model'))
-        : 'gemini-2.5-flash';
-
-      return result;
-    } catch (e) {
-      console.error("Analysis Error", e);
-      throw e;
+      ## Correction Required
+      Your previous response was:
+      ${rawText.slice(0, 4000)}
+
+      It had these problems:
+      ${formatIssues(issues)}
+
+      Return the complete corrected JSON object only. Keys must be double quoted.`;
     }
+
+    throw new AiValidationError('Analysis response failed validation', issues);
   }
-}
\ No newline at end of file
+}
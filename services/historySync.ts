@@ -0,0 +1,116 @@
+import { HistoricalOrder, UserPreferences } from '../types';
+import { formatDate } from '../utils/dateUtils';
+import { applyHistoryRange, getHistorySyncState, getStoredOrders, HistorySyncChanges, HistorySyncState, saveHistorySyncState } from './db';
+import { fetchHistoryRange } from './meicanService';
+
+// How far back the first sync of an account goes
+const INITIAL_SYNC_DAYS = 30;
+// Recent orders can still be cancelled or changed, so every sync fetches them again
+const RESYNC_DAYS = 3;
+// Longer gaps are fetched in several ranges, each saved as it arrives
+const MAX_RANGE_DAYS = 30;
+// Opening the history again within this window uses what is stored
+const MIN_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface HistorySyncResult {
+  state: HistorySyncState;
+  changes: HistorySyncChanges | null; // null when no sync ran
+}
+
+export interface SyncedHistory {
+  orders: HistoricalOrder[];
+  state: HistorySyncState;
+}
+
+const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  return formatDate(d);
+};
+
+const minDate = (a: string, b: string) => (a < b ? a : b);
+
+// One sync per account at a time; concurrent callers share it
+const runningSyncs = new Map<string, Promise<HistorySyncResult>>();
+
+const runSync = async (prefs: UserPreferences, username: string, state: HistorySyncState): Promise<HistorySyncResult> => {
+  const today = formatDate(new Date());
+  const changes: HistorySyncChanges = { added: 0, updated: 0, removed: 0 };
+  let current: HistorySyncState = { ...state, lastAttemptAt: new Date().toISOString() };
+
+  try {
+    let begin = state.lastSyncedDate
+      ? minDate(addDays(state.lastSyncedDate, -RESYNC_DAYS), today)
+      : addDays(today, -INITIAL_SYNC_DAYS);
+
+    while (begin <= today) {
+      const end = minDate(addDays(begin, MAX_RANGE_DAYS - 1), today);
+      const response = await fetchHistoryRange(begin, end, prefs);
+      if (response.snapshotAt) {
+        // A snapshot cannot tell which orders were cancelled since, so it is not applied
+        throw new Error(`Meican is unavailable (backend snapshot from ${response.snapshotAt})`);
+      }
+
+      current = { ...current, lastSyncedDate: end, lastError: undefined };
+      const rangeChanges = await applyHistoryRange(username, begin, end, response.orders || [], current);
+      changes.added += rangeChanges.added;
+      changes.updated += rangeChanges.updated;
+      changes.removed += rangeChanges.removed;
+
+      begin = addDays(end, 1);
+    }
+
+    current = { ...current, lastSyncAt: new Date().toISOString() };
+    await saveHistorySyncState(username, current);
+    console.log(`[HistorySync] ${username || 'guest'}: +${changes.added} ~${changes.updated} -${changes.removed}`);
+    return { state: current, changes };
+  } catch (error) {
+    current = { ...current, lastError: error instanceof Error ? error.message : String(error) };
+    await saveHistorySyncState(username, current);
+    throw error;
+  }
+};
+
+// Sync unless there is no session or, without force, a recent attempt
+const syncIfDue = async (prefs: UserPreferences, username: string, force: boolean): Promise<HistorySyncResult> => {
+  const state = await getHistorySyncState(username);
+  if (!prefs.sessionId) {
+    return { state, changes: null };
+  }
+  const lastAttempt = state.lastAttemptAt ? new Date(state.lastAttemptAt).getTime() : 0;
+  if (!force && Date.now() - lastAttempt < MIN_SYNC_INTERVAL_MS) {
+    return { state, changes: null };
+  }
+  return runSync(prefs, username, state);
+};
+
+/**
+ * Bring the stored order history of the account up to date with Meican.
+ * Fetches from the day after the last synced date (minus a few days to catch
+ * cancellations) through today; without force, recent syncs are not repeated.
+ */
+export const syncOrderHistory = (prefs: UserPreferences, force: boolean = false): Promise<HistorySyncResult> => {
+  const username = prefs.username || '';
+  const running = runningSyncs.get(username);
+  if (running) return running;
+
+  // Registered before the state is read, so callers arriving meanwhile share it
+  const sync = syncIfDue(prefs, username, force).finally(() => runningSyncs.delete(username));
+  runningSyncs.set(username, sync);
+  return sync;
+};
+
+/**
+ * Stored order history after a sync attempt; a failed sync leaves the stored
+ * orders usable and is reported through state.lastError
+ */
+export const loadSyncedHistory = async (prefs: UserPreferences): Promise<SyncedHistory> => {
+  const username = prefs.username || '';
+  try {
+    await syncOrderHistory(prefs);
+  } catch (error) {
+    console.error('[HistorySync] Sync failed:', error);
+  }
+  const [orders, state] = await Promise.all([getStoredOrders(username), getHistorySyncState(username)]);
+  return { orders, state };
+};
@@ -1,29 +1,6 @@
-import { DailyStatus, Dish, HistoricalOrder, MealTime, OrderStatus, UserPreferences } from '../types';
-import { formatDate } from '../utils/dateUtils';
-
-// ============================================================================
-// Mock Data (for development/testing)
-// ============================================================================
-
-const MOCK_RESTAURANTS = ['Salad Green', 'Burger King', 'Niu Xiao Zao', 'Spicy Wok', 'Sushi Express'];
-const MOCK_DISHES = [
-  { name: 'Beef Salad with Avocado', price: 4500, tags: ['healthy', 'beef'] },
-  { name: 'Double Cheeseburger', price: 3500, tags: ['fastfood', 'beef'] },
-  { name: 'Spicy Tofu Rice', price: 2800, tags: ['spicy', 'vegetarian'] },
-  { name: 'Salmon Sashimi Set', price: 6000, tags: ['seafood', 'healthy'] },
-  { name: 'Braised Pork Rice', price: 3200, tags: ['pork', 'heavy'] },
-];
-
-const generateMockMenu = (restaurantName: string): Dish[] => {
-  return MOCK_DISHES.map((d, i) => ({
-    id: `mock-dish-${restaurantName}-${i}`,
-    name: `${d.name} (${restaurantName})`,
-    priceInCent: d.price,
-    restaurantName: restaurantName,
-    restaurantId: `mock-rest-${restaurantName}`,
-    rating: 4 + Math.random()
-  }));
-};
+import { DailyStatus, Dish, HistoricalOrder, OrderItem, OrderStatus, PlanDraft, PlanDraftSummary, PlannedOrder, SchedulerStatus, UserPreferences, WebhookFormat } from '../types';
+import { formatDate, getSlotTargetTime } from '../utils/dateUtils';
+import { getMealTime } from '../utils/mealTabs';
 
 // ============================================================================
 // Authentication API
@@ -39,12 +16,36 @@ interface LoginResponse {
   error?: string;
 }
 
+export interface AuthStatus {
+  authenticated: boolean;
+  expired: boolean; // Meican rejected the session cookies and the backend could not log in again
+}
+
+export const SESSION_EXPIRED_CODE = 'SESSION_EXPIRED';
+// Meican is down (the backend's circuit breaker is open) or did not answer in time
+export const MEICAN_UNAVAILABLE_CODE = 'MEICAN_UNAVAILABLE';
+export const MEICAN_TIMEOUT_CODE = 'MEICAN_TIMEOUT';
+
+/**
+ * Thrown by API calls when the backend reports the Meican session as expired
+ */
+export class SessionExpiredError extends Error {
+  readonly code = SESSION_EXPIRED_CODE;
+
+  constructor(message: string = 'Meican session expired') {
+    super(message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
 /**
  * Login to Meican with username and password
+ * With rememberCredentials, the backend keeps the password (encrypted) to log in again when the session expires
  */
 export const login = async (
   username: string,
-  password: string
+  password: string,
+  rememberCredentials: boolean = false
 ): Promise<LoginResponse> => {
   const baseUrl = DEFAULT_BASE_URL;
   
@@ -54,7 +55,7 @@ export const login = async (
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ username, password }),
+      body: JSON.stringify({ username, password, rememberCredentials }),
     });
 
     const data = await response.json();
@@ -94,8 +95,8 @@ export const logout = async (prefs: UserPreferences): Promise<boolean> => {
 /**
  * Check authentication status
  */
-export const checkAuthStatus = async (prefs: UserPreferences): Promise<boolean> => {
-  if (!prefs.sessionId) return false;
+export const checkAuthStatus = async (prefs: UserPreferences): Promise<AuthStatus> => {
+  if (!prefs.sessionId) return { authenticated: false, expired: false };
   
   const baseUrl = DEFAULT_BASE_URL;
   
@@ -106,9 +107,9 @@ export const checkAuthStatus = async (prefs: UserPreferences): Promise<boolean>
       },
     });
     const data = await response.json();
-    return data.authenticated === true;
+    return { authenticated: data.authenticated === true, expired: data.expired === true };
   } catch {
-    return false;
+    return { authenticated: false, expired: false };
   }
 };
 
@@ -117,7 +118,7 @@ export const checkAuthStatus = async (prefs: UserPreferences): Promise<boolean>
 // ============================================================================
 
 interface ApiRequestOptions {
-  method?: 'GET' | 'POST';
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   path: string;
   query?: Record<string, string>;
   body?: Record<string, unknown>;
@@ -154,7 +155,7 @@ const apiRequest = async <T>(options: ApiRequestOptions): Promise<T> => {
     headers,
   };
 
-  if (method === 'POST' && body) {
+  if ((method === 'POST' || method === 'PUT') && body) {
     requestOptions.body = JSON.stringify(body);
   }
 
@@ -164,7 +165,10 @@ const apiRequest = async <T>(options: ApiRequestOptions): Promise<T> => {
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.message || `API Error: ${response.status}`);
+    if (errorData.code === SESSION_EXPIRED_CODE) {
+      throw new SessionExpiredError(errorData.error);
+    }
+    throw new Error(errorData.message || errorData.error || `API Error: ${response.status}`);
   }
 
   return response.json();
@@ -211,7 +215,7 @@ interface CorpOrderUser {
 
 interface CalendarItem {
   title: string;
-  targetTime: number;
+  targetTime?: number; // Epoch millis
   status: 'CLOSED' | 'ORDER' | 'AVAILABLE';
   reason?: string;
   userTab: { 
@@ -249,34 +253,6 @@ export const getCalendarStatus = async (
   endDate: Date, 
   prefs: UserPreferences
 ): Promise<DailyStatus[]> => {
-  // Use mock data if enabled
-  if (prefs.useMockData) {
-    const days: DailyStatus[] = [];
-    const curr = new Date(startDate);
-    while (curr <= endDate) {
-      const dateStr = formatDate(curr);
-      const dayOfWeek = curr.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        days.push({
-          date: dateStr,
-          status: Math.random() > 0.3 ? OrderStatus.AVAILABLE : OrderStatus.ORDERED,
-          mealTime: MealTime.LUNCH,
-          tabUniqueId: `tab-lunch-${dateStr}`,
-          currentOrder: Math.random() > 0.7 ? generateMockMenu(MOCK_RESTAURANTS[0])[0] : undefined
-        });
-        days.push({
-          date: dateStr,
-          status: OrderStatus.AVAILABLE,
-          mealTime: MealTime.DINNER,
-          tabUniqueId: `tab-dinner-${dateStr}`
-        });
-      }
-      curr.setDate(curr.getDate() + 1);
-    }
-    return days;
-  }
-
-  // Real API call
   try {
     const beginDate = formatDate(startDate);
     const endDateStr = formatDate(endDate);
@@ -298,17 +274,7 @@ export const getCalendarStatus = async (
     for (const dateItem of response.dateList || []) {
       for (const calItem of dateItem.calendarItemList || []) {
         // Determine meal time from title or openingTime name
-        const titleLower = (calItem.title || '').toLowerCase();
-        const openingName = (calItem.openingTime?.name || '').toLowerCase();
-        
-        let mealTime: MealTime;
-        if (titleLower.includes('早餐') || openingName.includes('早餐') || titleLower.includes('breakfast')) {
-          mealTime = MealTime.BREAKFAST;
-        } else if (titleLower.includes('午餐') || openingName.includes('午餐') || titleLower.includes('lunch')) {
-          mealTime = MealTime.LUNCH;
-        } else {
-          mealTime = MealTime.DINNER;
-        }
+        const mealTime = getMealTime(calItem.title, calItem.openingTime?.name);
 
         // Map status
         let status: OrderStatus;
@@ -324,8 +290,8 @@ export const getCalendarStatus = async (
             status = OrderStatus.AVAILABLE;
         }
 
-        // Extract current order from corpOrderUser if exists
-        let currentOrder: Dish | undefined;
+        // Extract the current basket from corpOrderUser if exists
+        const orderItems: OrderItem[] = [];
         let orderUniqueId: string | undefined;
         let userAddressUniqueId: string | undefined;
         if (calItem.corpOrderUser?.restaurantItemList?.length > 0) {
@@ -333,16 +299,19 @@ export const getCalendarStatus = async (
           // Extract address ID for reuse when placing new orders
           userAddressUniqueId = calItem.corpOrderUser.userAddressUniqueId || 
                                 calItem.corpOrderUser.corpAddress?.uniqueId;
-          const restaurantItem = calItem.corpOrderUser.restaurantItemList[0];
-          if (restaurantItem.dishItemList?.length > 0) {
-            const dishItem = restaurantItem.dishItemList[0];
-            currentOrder = {
-              id: String(dishItem.dish.id),
-              name: dishItem.dish.name,
-              priceInCent: dishItem.dish.priceInCent,
-              restaurantName: '', // Not directly available in this structure
-              restaurantId: restaurantItem.uniqueId,
-            };
+          for (const restaurantItem of calItem.corpOrderUser.restaurantItemList) {
+            for (const dishItem of restaurantItem.dishItemList || []) {
+              orderItems.push({
+                dish: {
+                  id: String(dishItem.dish.id),
+                  name: dishItem.dish.name,
+                  priceInCent: dishItem.dish.priceInCent,
+                  restaurantName: '', // Not directly available in this structure
+                  restaurantId: restaurantItem.uniqueId,
+                },
+                count: dishItem.count || 1,
+              });
+            }
           }
         }
 
@@ -373,9 +342,12 @@ export const getCalendarStatus = async (
           date: dateItem.date,
           status,
           mealTime,
+          mealName: calItem.title || calItem.openingTime?.name,
           tabUniqueId: calItem.userTab?.uniqueId,
-          currentOrder,
+          currentOrder: orderItems[0]?.dish,
+          orderItems: orderItems.length > 0 ? orderItems : undefined,
           closeTime,
+          targetTime: getSlotTargetTime(dateItem.date, calItem.targetTime),
           orderUniqueId,
           userAddressUniqueId,
           namespace,
@@ -408,6 +380,15 @@ interface DishesResponse {
   othersRegularDishList: DishItem[];
 }
 
+const toDishes = (response: DishesResponse): Dish[] =>
+  (response.othersRegularDishList || []).map(dish => ({
+    id: dish.id,
+    name: dish.name,
+    priceInCent: dish.priceInCent,
+    restaurantName: dish.restaurant.name,
+    restaurantId: dish.restaurant.uniqueId,
+  }));
+
 /**
  * Get available dishes for a meal slot
  */
@@ -416,16 +397,6 @@ export const getAvailableDishes = async (
   targetTime: string, 
   prefs: UserPreferences
 ): Promise<Dish[]> => {
-  // Use mock data if enabled
-  if (prefs.useMockData) {
-    let allDishes: Dish[] = [];
-    MOCK_RESTAURANTS.forEach(rest => {
-      allDishes = [...allDishes, ...generateMockMenu(rest)];
-    });
-    return allDishes;
-  }
-  
-  // Real API call
   try {
     const response = await apiRequest<DishesResponse>({
       method: 'GET',
@@ -437,20 +408,119 @@ export const getAvailableDishes = async (
       prefs,
     });
 
-    // Transform response to Dish[]
-    return (response.othersRegularDishList || []).map(dish => ({
-      id: dish.id,
-      name: dish.name,
-      priceInCent: dish.priceInCent,
-      restaurantName: dish.restaurant.name,
-      restaurantId: dish.restaurant.uniqueId,
-    }));
+    return toDishes(response);
   } catch (e) {
     console.error('[MeicanService] Dishes API Error:', e);
     throw e;
   }
 };
 
+export interface MenuSlot {
+  tabUniqueId: string;
+  targetTime: string; // YYYY-MM-DD HH:mm
+  byRestaurant?: boolean; // Breakfast: collect the dishes from each restaurant's menu
+}
+
+export interface MenuSlotResult extends MenuSlot {
+  index: number; // Position of the slot in the request
+  menu?: Dish[];
+  error?: string;
+  code?: string; // MEICAN_UNAVAILABLE_CODE or MEICAN_TIMEOUT_CODE when Meican failed rather than the slot
+}
+
+interface WeekMenuLine {
+  type: 'slot' | 'done';
+  index: number;
+  tabUniqueId: string;
+  targetTime: string;
+  ok: boolean;
+  data?: DishesResponse;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Get the dishes of many meal slots in one request. The backend fetches them
+ * concurrently and streams each slot back as NDJSON; onSlot is called as they
+ * arrive (in any order) so progress can be shown before the whole week is in.
+ * A slot that failed is reported with an error instead of failing the batch.
+ */
+export const getWeekMenus = async (
+  slots: MenuSlot[],
+  prefs: UserPreferences,
+  onSlot?: (result: MenuSlotResult) => void
+): Promise<MenuSlotResult[]> => {
+  const results: MenuSlotResult[] = [];
+  const report = (result: MenuSlotResult) => {
+    results[result.index] = result;
+    onSlot?.(result);
+  };
+
+  const baseUrl = DEFAULT_BASE_URL;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (prefs.sessionId) {
+    headers['X-Session-Id'] = prefs.sessionId;
+  }
+
+  console.log(`[MeicanService] POST /api/menus/week (${slots.length} slots)`);
+
+  const response = await fetch(`${baseUrl}/api/menus/week`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ slots }),
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    if (errorData.code === SESSION_EXPIRED_CODE) {
+      throw new SessionExpiredError(errorData.error);
+    }
+    throw new Error(errorData.error || `API Error: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (text: string) => {
+    if (!text.trim()) return;
+    const line: WeekMenuLine = JSON.parse(text);
+    if (line.type !== 'slot') return;
+    if (line.code === SESSION_EXPIRED_CODE) {
+      throw new SessionExpiredError(line.error);
+    }
+    const { index, tabUniqueId, targetTime } = line;
+    const { byRestaurant } = slots[index] || {};
+    report(line.ok
+      ? { index, tabUniqueId, targetTime, byRestaurant, menu: toDishes(line.data!) }
+      : { index, tabUniqueId, targetTime, byRestaurant, error: line.error || 'Unknown error', code: line.code });
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    console.error('[MeicanService] Week menus API Error:', e);
+    throw e;
+  }
+
+  // Slots missing from an interrupted stream count as failed
+  slots.forEach((slot, index) => {
+    if (!results[index]) {
+      report({ ...slot, index, error: 'No response for this slot' });
+    }
+  });
+  return results;
+};
+
 // ============================================================================
 // Restaurants API (For Breakfast)
 // ============================================================================
@@ -471,16 +541,6 @@ export const getRestaurants = async (
   targetTime: string,
   prefs: UserPreferences
 ): Promise<Dish[]> => {
-  if (prefs.useMockData) {
-    return MOCK_RESTAURANTS.map((r, i) => ({
-      id: `mock-rest-${i}`,
-      name: r,
-      priceInCent: 0,
-      restaurantName: r,
-      restaurantId: `mock-rest-${i}`,
-    }));
-  }
-
   try {
     const response = await apiRequest<RestaurantListResponse>({
       method: 'GET',
@@ -492,8 +552,8 @@ export const getRestaurants = async (
       prefs,
     });
 
-    // Map restaurants to Dish-like objects for UI compatibility
-    // Use restaurant uniqueId as dish ID
+    // Map restaurants to Dish-like objects for the restaurant picker,
+    // their dishes come from getRestaurantDishes
     return (response.restaurantList || []).map(r => ({
       id: r.uniqueId,           // Use restaurant ID as dish ID
       name: r.name,             // Restaurant name as dish name
@@ -507,6 +567,53 @@ export const getRestaurants = async (
   }
 };
 
+interface RestaurantDetailResponse {
+  uniqueId: string;
+  name: string;
+  dishList: {
+    id: string | number;
+    name: string;
+    priceInCent: number;
+    isSection?: boolean; // Heading within the menu, not a dish
+  }[];
+}
+
+/**
+ * Get the dishes of one restaurant for a meal slot (breakfast second level)
+ */
+export const getRestaurantDishes = async (
+  tabUniqueId: string,
+  targetTime: string,
+  restaurantUniqueId: string,
+  prefs: UserPreferences
+): Promise<Dish[]> => {
+  try {
+    const response = await apiRequest<RestaurantDetailResponse>({
+      method: 'GET',
+      path: '/api/restaurants/show',
+      query: {
+        tabUniqueId,
+        targetTime,
+        restaurantUniqueId,
+      },
+      prefs,
+    });
+
+    return (response.dishList || [])
+      .filter(item => !item.isSection)
+      .map(item => ({
+        id: String(item.id),
+        name: item.name,
+        priceInCent: item.priceInCent,
+        restaurantName: response.name,
+        restaurantId: response.uniqueId || restaurantUniqueId,
+      }));
+  } catch (e) {
+    console.error('[MeicanService] Restaurant menu API Error:', e);
+    throw e;
+  }
+};
+
 // ============================================================================
 // Address API
 // ============================================================================
@@ -544,13 +651,6 @@ interface AddressResponse {
  * @returns Object with addresses list and suggested default (from recentList[0])
  */
 export const getAddresses = async (prefs: UserPreferences, namespace?: string): Promise<{ addresses: Address[]; defaultAddressId?: string }> => {
-  if (prefs.useMockData) {
-    return { 
-      addresses: [{ uniqueId: 'mock-address-1', name: 'Default Address' }],
-      defaultAddressId: 'mock-address-1'
-    };
-  }
-
   try {
     const query: Record<string, string> = {};
     if (namespace) {
@@ -601,32 +701,34 @@ interface OrderResponse {
   status: 'SUCCESSFUL' | 'FAILED';
   order?: { uniqueId: string };
   message?: string;
+  existing?: boolean;
 }
 
 /**
  * Place an order
  * @param tabUniqueId Tab unique ID for the meal slot
- * @param dishId Dish ID to order
+ * @param items Dishes to order with quantities (one or more)
  * @param targetTime Target delivery time
  * @param prefs User preferences
  * @param corpAddressUniqueId Corp address unique ID (from getmulticorpaddress)
  * @param userAddressUniqueId User address unique ID (optional, defaults to corpAddressUniqueId)
+ * @param idempotencyKey Sending the same order again with this key returns the first result
+ * @returns existing is true when the slot was already ordered and no new order was placed
  */
 export const placeOrder = async (
   tabUniqueId: string, 
-  dishId: string, 
+  items: OrderItem[], 
   targetTime: string, 
   prefs: UserPreferences,
   corpAddressUniqueId?: string,
-  userAddressUniqueId?: string
-): Promise<{ success: boolean; orderId?: string }> => {
-  // Use mock data if enabled
-  if (prefs.useMockData) {
-    await new Promise(r => setTimeout(r, 800));
-    return { success: true, orderId: `mock-order-${Date.now()}` };
-  }
-
+  userAddressUniqueId?: string,
+  idempotencyKey?: string
+): Promise<{ success: boolean; orderId?: string; existing?: boolean }> => {
   try {
+    if (items.length === 0) {
+      throw new Error('Order must contain at least one dish');
+    }
+
     // corpAddressUniqueId is required
     if (!corpAddressUniqueId) {
       throw new Error('No delivery address available. Please set a default address in Settings.');
@@ -640,17 +742,18 @@ export const placeOrder = async (
       path: '/api/orders/add',
       body: {
         tabUniqueId,
-        order: JSON.stringify([{ count: 1, dishId }]),
-        remarks: JSON.stringify([{ dishId, remark: '' }]),
+        order: JSON.stringify(items.map(item => ({ count: item.count, dishId: item.dish.id }))),
+        remarks: JSON.stringify(items.map(item => ({ dishId: item.dish.id, remark: item.remark?.trim() || '' }))),
         targetTime,
         userAddressUniqueId: userAddr,
         corpAddressUniqueId: corpAddressUniqueId,
+        idempotencyKey,
       },
       prefs,
     });
 
     if (response.status === 'SUCCESSFUL') {
-      return { success: true, orderId: response.order?.uniqueId };
+      return { success: true, orderId: response.order?.uniqueId, existing: response.existing };
     } else {
       throw new Error(response.message || 'Order failed');
     }
@@ -660,6 +763,74 @@ export const placeOrder = async (
   }
 };
 
+export type RollbackOutcome = 'RESTORED' | 'FAILED';
+
+interface ReplaceOrderResponse extends OrderResponse {
+  replacedOrderId?: string;
+  rollback?: RollbackOutcome;
+}
+
+/**
+ * Thrown when replacing an order failed after the original was cancelled;
+ * rollback tells whether the original dishes could be ordered again
+ */
+export class ReplaceOrderError extends Error {
+  constructor(message: string, readonly rollback?: RollbackOutcome) {
+    super(message);
+    this.name = 'ReplaceOrderError';
+  }
+}
+
+/**
+ * Replace the slot's current order with a new basket in one backend operation;
+ * if the new order fails, the backend re-orders the original dishes
+ * @param oldOrderUniqueId The slot's current order
+ * @param idempotencyKey Sending the same replace again with this key returns the first result
+ */
+export const replaceOrder = async (
+  oldOrderUniqueId: string,
+  tabUniqueId: string,
+  items: OrderItem[],
+  targetTime: string,
+  prefs: UserPreferences,
+  corpAddressUniqueId?: string,
+  userAddressUniqueId?: string,
+  idempotencyKey?: string
+): Promise<{ success: boolean; orderId?: string }> => {
+  try {
+    if (items.length === 0) {
+      throw new Error('Order must contain at least one dish');
+    }
+    if (!corpAddressUniqueId) {
+      throw new Error('No delivery address available. Please set a default address in Settings.');
+    }
+
+    const response = await apiRequest<ReplaceOrderResponse>({
+      method: 'POST',
+      path: '/api/orders/replace',
+      body: {
+        oldOrderUniqueId,
+        tabUniqueId,
+        order: JSON.stringify(items.map(item => ({ count: item.count, dishId: item.dish.id }))),
+        remarks: JSON.stringify(items.map(item => ({ dishId: item.dish.id, remark: item.remark?.trim() || '' }))),
+        targetTime,
+        userAddressUniqueId: userAddressUniqueId || corpAddressUniqueId,
+        corpAddressUniqueId,
+        idempotencyKey,
+      },
+      prefs,
+    });
+
+    if (response.status === 'SUCCESSFUL') {
+      return { success: true, orderId: response.order?.uniqueId };
+    }
+    throw new ReplaceOrderError(response.message || 'Order failed', response.rollback);
+  } catch (e) {
+    console.error('[MeicanService] Replace Order API Error:', e);
+    throw e;
+  }
+};
+
 /**
  * Delete an order
  */
@@ -667,11 +838,6 @@ export const deleteOrder = async (
   orderUniqueId: string,
   prefs: UserPreferences
 ): Promise<{ success: boolean }> => {
-  if (prefs.useMockData) {
-    await new Promise(r => setTimeout(r, 500));
-    return { success: true };
-  }
-
   try {
     const response = await apiRequest<OrderResponse>({
       method: 'POST',
@@ -695,10 +861,27 @@ export const deleteOrder = async (
 // History API
 // ============================================================================
 
-interface HistoryResponse {
+export interface HistoryResponse {
   orders: Omit<HistoricalOrder, 'id'>[];
+  snapshotAt?: string; // Set when Meican was unreachable and a stored snapshot was served instead
 }
 
+/**
+ * Fetch the orders of one date range (YYYY-MM-DD, inclusive) as returned by the backend
+ */
+export const fetchHistoryRange = async (
+  beginDate: string,
+  endDate: string,
+  prefs: UserPreferences
+): Promise<HistoryResponse> => {
+  return apiRequest<HistoryResponse>({
+    method: 'GET',
+    path: '/api/history/orders',
+    query: { beginDate, endDate },
+    prefs,
+  });
+};
+
 /**
  * Fetch order history from the backend API
  * @param startDate - Start date for history range
@@ -711,42 +894,8 @@ export const fetchOrderHistory = async (
   endDate: Date,
   prefs: UserPreferences
 ): Promise<Omit<HistoricalOrder, 'id'>[]> => {
-  // Use mock data if enabled
-  if (prefs.useMockData) {
-    const mockOrders: Omit<HistoricalOrder, 'id'>[] = [];
-    const curr = new Date(startDate);
-    while (curr <= endDate) {
-      const dateStr = formatDate(curr);
-      const dayOfWeek = curr.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        mockOrders.push({
-          date: dateStr,
-          mealTime: MealTime.LUNCH,
-          dishName: MOCK_DISHES[Math.floor(Math.random() * MOCK_DISHES.length)].name,
-          restaurantName: MOCK_RESTAURANTS[Math.floor(Math.random() * MOCK_RESTAURANTS.length)],
-          priceInCent: 3000 + Math.floor(Math.random() * 3000),
-        });
-      }
-      curr.setDate(curr.getDate() + 1);
-    }
-    return mockOrders;
-  }
-
-  // Real API call
   try {
-    const beginDate = formatDate(startDate);
-    const endDateStr = formatDate(endDate);
-
-    const response = await apiRequest<HistoryResponse>({
-      method: 'GET',
-      path: '/api/history/orders',
-      query: {
-        beginDate,
-        endDate: endDateStr,
-      },
-      prefs,
-    });
-
+    const response = await fetchHistoryRange(formatDate(startDate), formatDate(endDate), prefs);
     return response.orders || [];
   } catch (e) {
     console.error('[MeicanService] History API Error:', e);
@@ -758,31 +907,37 @@ export const fetchOrderHistory = async (
 // Settings API
 // ============================================================================
 
-export const getSettings = async (username: string, sessionId?: string): Promise<Partial<UserPreferences>> => {
+/**
+ * Settings are stored for the user the session belongs to
+ */
+export const getSettings = async (sessionId: string): Promise<Partial<UserPreferences>> => {
   try {
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (sessionId) {
-      headers['X-Session-Id'] = sessionId;
-    }
-    
-    const response = await fetch(`/api/settings?username=${encodeURIComponent(username)}`, {
-      headers
+    const response = await fetch('/api/settings', {
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionId }
     });
     
     if (!response.ok) return {};
-    return await response.json();
+    // Stored credentials are not sent back, only flags saying which exist; keep the device's own
+    const { savedSecrets, ...settings } = await response.json();
+    return settings;
   } catch (e) {
     console.error('[MeicanService] Get Settings Error:', e);
     return {};
   }
 };
 
-export const saveSettings = async (username: string, settings: Partial<UserPreferences>): Promise<boolean> => {
+/**
+ * Sync settings to the backend
+ * The Meican password is only kept there when the user opted in to remembering
+ * credentials; otherwise an empty one is sent, which removes any stored before.
+ */
+export const saveSettings = async (sessionId: string, settings: Partial<UserPreferences>): Promise<boolean> => {
+  const payload = settings.rememberCredentials ? settings : { ...settings, password: '' };
   try {
     const response = await fetch('/api/settings', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ username, settings })
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': sessionId },
+      body: JSON.stringify({ settings: payload })
     });
     return response.ok;
   } catch (e) {
@@ -790,3 +945,129 @@ export const saveSettings = async (username: string, settings: Partial<UserPrefe
     return false;
   }
 };
+
+// ============================================================================
+// Scheduler API
+// ============================================================================
+
+/**
+ * Get what the backend auto-order daemon did for the logged-in user
+ */
+export const getSchedulerStatus = async (prefs: UserPreferences): Promise<SchedulerStatus> => {
+  return apiRequest<SchedulerStatus>({
+    method: 'GET',
+    path: '/api/scheduler/status',
+    prefs,
+  });
+};
+
+/**
+ * Ask the daemon to run immediately for the logged-in user
+ */
+export const runScheduler = async (prefs: UserPreferences): Promise<SchedulerStatus> => {
+  return apiRequest<SchedulerStatus>({
+    method: 'POST',
+    path: '/api/scheduler/run',
+    body: {},
+    prefs,
+  });
+};
+
+// ============================================================================
+// Notifications API
+// ============================================================================
+
+/**
+ * Send a test message to a reminder webhook through the backend
+ * The backend only sends to the webhook stored in the settings, after checking
+ * it, so the webhook is saved first; an invalid URL is rejected by that save.
+ */
+export const testWebhook = async (
+  url: string,
+  format: WebhookFormat,
+  prefs: UserPreferences
+): Promise<void> => {
+  await apiRequest<{ success: boolean }>({
+    method: 'POST',
+    path: '/api/settings',
+    body: { settings: { reminderWebhookUrl: url, reminderWebhookFormat: format } },
+    prefs,
+  });
+  await apiRequest<{ success: boolean }>({
+    method: 'POST',
+    path: '/api/notifications/test',
+    body: {},
+    prefs,
+  });
+};
+
+// ============================================================================
+// Plan Drafts API
+// ============================================================================
+
+/**
+ * List saved plan drafts for the user (newest first)
+ */
+export const listPlanDrafts = async (prefs: UserPreferences): Promise<PlanDraftSummary[]> => {
+  const response = await apiRequest<{ plans: PlanDraftSummary[] }>({
+    method: 'GET',
+    path: '/api/plans',
+    prefs,
+  });
+  return response.plans || [];
+};
+
+/**
+ * Get a plan draft with its full version history
+ */
+export const getPlanDraft = async (id: string, prefs: UserPreferences): Promise<PlanDraft> => {
+  return apiRequest<PlanDraft>({
+    method: 'GET',
+    path: `/api/plans/${encodeURIComponent(id)}`,
+    prefs,
+  });
+};
+
+/**
+ * Save a plan as a new named draft (version 1)
+ */
+export const createPlanDraft = async (
+  name: string,
+  items: PlannedOrder[],
+  prefs: UserPreferences
+): Promise<PlanDraft> => {
+  return apiRequest<PlanDraft>({
+    method: 'POST',
+    path: '/api/plans',
+    body: { name, items },
+    prefs,
+  });
+};
+
+/**
+ * Save edits to an existing draft as a new version
+ */
+export const updatePlanDraft = async (
+  id: string,
+  items: PlannedOrder[],
+  prefs: UserPreferences,
+  name?: string
+): Promise<PlanDraft> => {
+  return apiRequest<PlanDraft>({
+    method: 'PUT',
+    path: `/api/plans/${encodeURIComponent(id)}`,
+    body: { items, name },
+    prefs,
+  });
+};
+
+/**
+ * Delete a plan draft and its history
+ */
+export const deletePlanDraft = async (id: string, prefs: UserPreferences): Promise<void> => {
+  await apiRequest<{ success: boolean }>({
+    method: 'DELETE',
+    path: `/api/plans/${encodeURIComponent(id)}`,
+    prefs,
+  });
+};
@@ -0,0 +1,126 @@
+import { DailyNutrition, HistoricalOrder, NutritionRecord, UserPreferences } from '../types';
+import { getNutritionKey, getNutritionRecords, saveNutritionRecords } from './db';
+import { GeminiService } from './geminiService';
+
+// Dishes per estimate request, so one malformed response costs little
+const ESTIMATE_BATCH_SIZE = 40;
+
+// Per-portion thresholds for the planner's health mode
+const LIGHT_MAX_CALORIES = 650;
+const LIGHT_MIN_PROTEIN_G = 25;
+const HEAVY_MIN_CALORIES = 950;
+const HEAVY_MIN_FAT_G = 40;
+
+export interface NutritionDish {
+  dishName: string;
+  restaurantName: string;
+}
+
+export interface NutritionFillResult {
+  records: NutritionRecord[];
+  estimated: number; // Records added by this call
+}
+
+/**
+ * Estimate the dishes the nutrition store does not know yet, once, and store them.
+ * Known dishes, including the user's corrections, are never sent again; with the
+ * local planner nothing is estimated and missing values are left for manual entry.
+ */
+export const fillMissingNutrition = async (dishes: NutritionDish[], prefs: UserPreferences): Promise<NutritionFillResult> => {
+  const username = prefs.username || '';
+  const records = await getNutritionRecords(username);
+  if (prefs.aiProvider === 'local') {
+    return { records, estimated: 0 };
+  }
+
+  const known = new Set(records.map(record => record.key));
+  const missing = new Map<string, NutritionDish>();
+  dishes.forEach(dish => {
+    const key = getNutritionKey(dish.restaurantName, dish.dishName);
+    if (!known.has(key)) missing.set(key, dish);
+  });
+
+  const ai = new GeminiService();
+  const pending = [...missing.values()];
+  const added: NutritionRecord[] = [];
+
+  for (let start = 0; start < pending.length; start += ESTIMATE_BATCH_SIZE) {
+    const batch = pending.slice(start, start + ESTIMATE_BATCH_SIZE);
+    const estimates = await ai.estimateNutrition(batch, prefs);
+    const updatedAt = new Date().toISOString();
+    const batchRecords: NutritionRecord[] = [...estimates].map(([index, estimate]) => ({
+      key: getNutritionKey(batch[index].restaurantName, batch[index].dishName),
+      dishName: batch[index].dishName,
+      restaurantName: batch[index].restaurantName,
+      ...estimate,
+      source: 'ai',
+      updatedAt,
+    }));
+    // Saved per batch, so a later failure keeps what was already estimated
+    await saveNutritionRecords(username, batchRecords);
+    added.push(...batchRecords);
+  }
+
+  if (added.length > 0) {
+    console.log(`[Nutrition] Estimated ${added.length} of ${pending.length} new dishes`);
+  }
+  return { records: [...records, ...added], estimated: added.length };
+};
+
+/**
+ * Store values entered by the user; they replace the estimate and are never re-estimated
+ */
+export const saveManualNutrition = async (
+  prefs: UserPreferences,
+  values: Omit<NutritionRecord, 'key' | 'source' | 'updatedAt'>
+): Promise<NutritionRecord> => {
+  const record: NutritionRecord = {
+    ...values,
+    key: getNutritionKey(values.restaurantName, values.dishName),
+    source: 'manual',
+    updatedAt: new Date().toISOString(),
+  };
+  await saveNutritionRecords(prefs.username || '', [record]);
+  return record;
+};
+
+/**
+ * Totals per day of the orders' nutrition, in date order
+ */
+export const getDailyNutrition = (
+  orders: Pick<HistoricalOrder, 'date' | 'restaurantName' | 'dishName' | 'count'>[],
+  records: NutritionRecord[]
+): DailyNutrition[] => {
+  const byKey = new Map(records.map(record => [record.key, record]));
+  const days = new Map<string, DailyNutrition>();
+
+  orders.forEach(order => {
+    const day = days.get(order.date) || { date: order.date, calories: 0, proteinG: 0, carbsG: 0, fatG: 0, missing: 0 };
+    const record = byKey.get(getNutritionKey(order.restaurantName, order.dishName));
+    if (record) {
+      // Records are per portion
+      const portions = order.count || 1;
+      day.calories += record.calories * portions;
+      day.proteinG += record.proteinG * portions;
+      day.carbsG += record.carbsG * portions;
+      day.fatG += record.fatG * portions;
+    } else {
+      day.missing++;
+    }
+    days.set(order.date, day);
+  });
+
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * A light, protein-rich portion, preferred by the health mode
+ */
+export const isLightMeal = (record: NutritionRecord): boolean =>
+  record.calories <= LIGHT_MAX_CALORIES && record.proteinG >= LIGHT_MIN_PROTEIN_G;
+
+/**
+ * A portion the health mode avoids
+ */
+export const isHeavyMeal = (record: NutritionRecord): boolean =>
+  record.calories >= HEAVY_MIN_CALORIES || record.fatG >= HEAVY_MIN_FAT_G;
@@ -1,10 +1,22 @@
-import { QueryClient } from '@tanstack/react-query';
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+import { SessionExpiredError } from './meicanService';
+
+// Any request that finds the Meican session expired refreshes the auth status,
+// which is what prompts the user to log in again
+const onError = (error: Error) => {
+  if (error instanceof SessionExpiredError) {
+    queryClient.invalidateQueries({ queryKey: ['meican', 'auth'] });
+  }
+};
 
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError }),
+  mutationCache: new MutationCache({ onError }),
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5, // 5 minutes
-      retry: 1,
+      // Retrying cannot help once the session has expired
+      retry: (failureCount, error) => !(error instanceof SessionExpiredError) && failureCount < 1,
       refetchOnWindowFocus: false,
     },
   },
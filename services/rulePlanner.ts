@@ -0,0 +1,109 @@
+import i18n from '../i18n';
+import { Dish, HistoricalOrder, MealTime, NutritionRecord, PlanGenerationResult, PlannedOrder, UnresolvedSlot, UserPreferences } from '../types';
+import { getNutritionKey } from './db';
+import { isHeavyMeal, isLightMeal } from './nutrition';
+import { countBy, pickBestDish, ScoreReason } from '../backend/src/shared/dishScoring';
+
+export interface RulePlannerSlot {
+  date: string;
+  mealTime: MealTime;
+  mealName?: string;
+  tabUniqueId: string;
+  menu: Dish[];
+  userAddressUniqueId?: string;
+  namespace?: string;
+}
+
+const RECENT_DAYS = 7;
+const MEAL_ORDER: Record<string, number> = { BREAKFAST: 0, LUNCH: 1, DINNER: 2, OTHER: 3 };
+
+const describeReason = (reason: ScoreReason, record?: NutritionRecord): string => {
+  const t = i18n.t.bind(i18n);
+  switch (reason.type) {
+    case 'preferredVendor':
+      return t('planner.rules.preferredVendor', { weight: reason.weight });
+    case 'frequentVendor':
+      return t('planner.rules.frequentVendor', { count: reason.count });
+    case 'healthy':
+      return record
+        ? t('planner.rules.nutrition', { calories: record.calories, protein: record.proteinG })
+        : t('planner.rules.healthy');
+    case 'notRecent':
+      return t('planner.rules.notRecent');
+  }
+};
+
+/**
+ * Rule Planner
+ * Deterministic, offline alternative to the LLM planner with the same
+ * generateWeeklyPlan contract. Dishes are scored per slot by the scoring the
+ * auto-order scheduler also uses (see backend/src/shared/dishScoring.ts).
+ * Dishes in the nutrition store are judged by their calories and macros.
+ */
+export class RulePlanner {
+  async generateWeeklyPlan(
+    availableSlots: RulePlannerSlot[],
+    history: Omit<HistoricalOrder, 'id'>[],
+    prefs: UserPreferences,
+    nutrition: NutritionRecord[] = []
+  ): Promise<PlanGenerationResult> {
+    const t = i18n.t.bind(i18n);
+    const nutritionByKey = new Map(nutrition.map(record => [record.key, record]));
+
+    const restaurantCounts = countBy(history.map(h => h.restaurantName));
+    const dishCounts = countBy(history.map(h => h.dishName));
+
+    const slots = [...availableSlots].sort((a, b) =>
+      a.date.localeCompare(b.date) || (MEAL_ORDER[a.mealTime] ?? 0) - (MEAL_ORDER[b.mealTime] ?? 0)
+    );
+
+    const plans: PlannedOrder[] = [];
+    const unresolvedSlots: UnresolvedSlot[] = [];
+
+    for (const slot of slots) {
+      const recentCutoff = new Date(`${slot.date}T00:00:00`);
+      recentCutoff.setDate(recentCutoff.getDate() - RECENT_DAYS);
+      const recentDishes = new Set(
+        history.filter(h => new Date(`${h.date}T00:00:00`) >= recentCutoff).map(h => h.dishName)
+      );
+      const plannedDishes = new Set(plans.map(p => p.dish.name));
+      const previousRestaurant = plans[plans.length - 1]?.dish.restaurantName;
+
+      const best = pickBestDish(
+        slot.menu,
+        prefs,
+        { restaurantCounts, dishCounts, recentDishes, plannedDishes, previousRestaurant },
+        dish => {
+          const record = nutritionByKey.get(getNutritionKey(dish.restaurantName, dish.name));
+          return record ? { healthy: isLightMeal(record), heavy: isHeavyMeal(record) } : undefined;
+        }
+      );
+
+      if (!best) {
+        unresolvedSlots.push({
+          date: slot.date,
+          mealTime: slot.mealTime,
+          mealName: slot.mealName,
+          tabUniqueId: slot.tabUniqueId,
+          issues: ['No dish passes the exclusion and vendor rules'],
+        });
+        continue;
+      }
+
+      const record = nutritionByKey.get(getNutritionKey(best.dish.restaurantName, best.dish.name));
+      const reasons = best.reasons.map(reason => describeReason(reason, record));
+      plans.push({
+        date: slot.date,
+        mealTime: slot.mealTime,
+        mealName: slot.mealName,
+        dish: best.dish,
+        reason: `${t('planner.rules.prefix')}${reasons.length > 0 ? reasons.join(t('planner.rules.separator')) : t('planner.rules.bestAvailable')}`,
+        tabUniqueId: slot.tabUniqueId,
+        userAddressUniqueId: slot.userAddressUniqueId,
+        namespace: slot.namespace,
+      });
+    }
+
+    return { plan: plans, unresolvedSlots };
+  }
+}
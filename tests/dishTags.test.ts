@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractDishTags, needsEnrichment, passesDishFilters } from '../utils/dishTags';
+
+const tag = (name: string) => extractDishTags({ id: name, name });
+
+test('proteins skip phrases that only sound like them', () => {
+  assert.deepEqual(tag('鱼香肉丝').proteins, ['pork']);
+  assert.deepEqual(tag('牛油果沙拉').proteins, []);
+  assert.deepEqual(tag('番茄炒鸡蛋').proteins, ['egg']);
+  assert.deepEqual(tag('宫保鸡丁').proteins, ['chicken']);
+  assert.deepEqual(tag('香煎三文鱼').proteins, ['fish']);
+  assert.deepEqual(tag('Eggplant Bowl').proteins, []);
+});
+
+test('allergens follow from terms and proteins', () => {
+  assert.ok(tag('宫保鸡丁').allergens.includes('peanut'));
+  assert.ok(tag('白灼虾').allergens.includes('shellfish'));
+  assert.ok(tag('麻婆豆腐').allergens.includes('soy'));
+  assert.ok(tag('炸酱面').allergens.includes('gluten'));
+});
+
+test('only dishes that say so are vegetarian', () => {
+  assert.equal(tag('素炒时蔬').vegetarian, true);
+  assert.equal(tag('Vegan Buddha Bowl').vegetarian, true);
+  assert.equal(tag('番茄炒饭').vegetarian, false);
+  assert.equal(tag('地三鲜').vegetarian, false);
+  assert.equal(tag('素鸡炒肉').vegetarian, false);
+});
+
+test('spiciness: overrides first, then named dishes, then generic heat words', () => {
+  assert.equal(tag('水煮牛肉').spiciness, 'hot');
+  assert.equal(tag('宫保鸡丁').spiciness, 'mild');
+  assert.equal(tag('酸辣土豆丝').spiciness, 'mild');
+  assert.equal(tag('鱼香肉丝').spiciness, 'mild');
+  assert.equal(tag('红油抄手').spiciness, 'medium');
+  assert.equal(tag('麻辣香锅（微辣）').spiciness, 'mild');
+  assert.equal(tag('辣子鸡不辣').spiciness, 'none');
+  assert.equal(tag('白切鸡饭').spiciness, 'none');
+});
+
+test('dishes the rules say little about, or any under an allergen or vegetarian filter, are enriched', () => {
+  assert.equal(needsEnrichment(tag('招牌套餐')), true);
+  assert.equal(needsEnrichment(tag('宫保鸡丁')), false);
+  assert.equal(needsEnrichment(tag('宫保鸡丁'), { maxSpiciness: 'mild' }), false);
+  assert.equal(needsEnrichment(tag('宫保鸡丁'), { excludedAllergens: ['nuts'] }), true);
+  assert.equal(needsEnrichment(tag('素炒时蔬'), { vegetarianOnly: true }), true);
+});
+
+test('filters rule out dishes by their tags', () => {
+  assert.equal(passesDishFilters(tag('宫保鸡丁'), { excludedAllergens: ['peanut'] }), false);
+  assert.equal(passesDishFilters(tag('水煮牛肉'), { maxSpiciness: 'medium' }), false);
+  assert.equal(passesDishFilters(tag('番茄炒饭'), { vegetarianOnly: true }), false);
+  assert.equal(passesDishFilters(tag('素炒时蔬'), { vegetarianOnly: true, excludedProteins: ['pork'] }), true);
+});
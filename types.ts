@@ -1,7 +1,16 @@
+// Kind of a meal tab, guessed from its name. Corps can have any number of tabs
+// (afternoon tea, overtime meals...); those are OTHER and told apart by tab id
 export enum MealTime {
   BREAKFAST = 'BREAKFAST',
   LUNCH = 'LUNCH',
-  DINNER = 'DINNER'
+  DINNER = 'DINNER',
+  OTHER = 'OTHER'
+}
+
+export interface MealTab {
+  id: string; // userTab.uniqueId
+  name: string; // Display name from Meican, e.g. "午餐" or "加班餐"
+  mealTime: MealTime;
 }
 
 export enum OrderStatus {
@@ -11,21 +20,44 @@ export enum OrderStatus {
   NO_SERVICE = 'NO_SERVICE'
 }
 
+export type ReminderChannel = 'browser' | 'webhook';
+
+export type WebhookFormat = 'slack' | 'feishu' | 'dingtalk';
+
+export interface BudgetPreferences {
+  perMealCent?: number; // Max out-of-pocket per meal
+  perDayCent?: number;
+  perWeekCent?: number;
+  subsidyCent?: number; // Corporate subsidy per meal, deducted before the caps apply
+}
+
 export interface UserPreferences {
   username: string;
   password: string;
   sessionId: string; // Obtained after login
+  rememberCredentials?: boolean; // Let the backend log in again by itself once Meican expires the session
   proxyUrl: string; // e.g., http://localhost:8180/
-  useMockData: boolean;
   excludedKeywords: string[]; // e.g. ["peanuts", "spicy"]
+  dishFilters?: DishFilters; // Structured filters on dish tags, applied by the planner and the dish picker
+  aiDishTagging?: boolean; // Let the AI provider tag dishes the rule dictionaries know little about
+  remarkTemplates?: string[]; // Reusable order remarks, e.g. ["no cilantro", "less rice"]
   vendorWeights: Record<string, number>; // e.g. {"KFC": -1, "HealthySalad": 10}
   planningMode: 'balanced' | 'health' | 'preference';
   defaultAddressId?: string; // Selected default delivery address ID
-  enableBreakfast?: boolean; // Default false
+  mealTabs?: Record<string, boolean>; // Per meal tab switch, keyed by tab id
+  enableBreakfast?: boolean; // Default for breakfast tabs without their own switch, default false
   enableWeekends?: boolean; // Default false
+  autoOrderEnabled?: boolean; // Let the backend daemon order before close time
+  autoOrderLeadMinutes?: number; // Minutes before closeTime to auto-order (default 60)
+  reminderEnabled?: boolean; // Remind before close time of AVAILABLE slots
+  reminderLeadMinutes?: number; // Minutes before closeTime to remind (default 30)
+  reminderChannels?: ReminderChannel[]; // Default ['browser']
+  reminderWebhookUrl?: string;
+  reminderWebhookFormat?: WebhookFormat;
+  budget?: BudgetPreferences; // Caps enforced after AI planning
   
   // AI Provider Config
-  aiProvider: 'gemini' | 'custom' | 'openrouter';
+  aiProvider: 'gemini' | 'custom' | 'openrouter' | 'local'; // 'local' = offline rule-based planner
   geminiApiKey?: string;
   customAiBaseUrl?: string; // e.g. https://api.openai.com/v1
   customAiApiKey?: string;
@@ -42,13 +74,50 @@ export interface Dish {
   rating?: number;
 }
 
+export type DishProtein = 'pork' | 'beef' | 'lamb' | 'chicken' | 'duck' | 'fish' | 'seafood' | 'egg' | 'tofu';
+export type DishAllergen = 'peanut' | 'nuts' | 'shellfish' | 'fish' | 'egg' | 'dairy' | 'gluten' | 'soy' | 'sesame';
+export type Spiciness = 'none' | 'mild' | 'medium' | 'hot';
+
+/**
+ * Structured tags of a dish, extracted from its name by rule dictionaries or the AI provider
+ */
+export interface DishTags {
+  dishId: string;
+  dishName: string;
+  proteins: DishProtein[];
+  allergens: DishAllergen[];
+  ingredients: string[]; // Other ingredients, e.g. "potato", "mushroom"
+  cuisine?: string; // e.g. "sichuan", "cantonese", "japanese"
+  spiciness: Spiciness;
+  vegetarian: boolean; // Rule tags: only when the name says so (素, vegan...) and names no meat
+  source: 'rules' | 'ai';
+  rulesVersion?: number; // Dictionary version of rule tags, which are redone when it changes
+  updatedAt: string; // ISO timestamp
+}
+
+export interface DishFilters {
+  excludedProteins?: DishProtein[]; // e.g. ["pork"] for "no pork"
+  excludedAllergens?: DishAllergen[];
+  vegetarianOnly?: boolean;
+  maxSpiciness?: Spiciness; // e.g. "mild"
+}
+
+export interface OrderItem {
+  dish: Dish;
+  count: number;
+  remark?: string; // Note to the restaurant, e.g. "no cilantro"
+}
+
 export interface DailyStatus {
   date: string; // YYYY-MM-DD
   status: OrderStatus;
   tabUniqueId?: string;
   mealTime: MealTime;
-  currentOrder?: Dish;
+  mealName?: string; // Display name of the tab
+  currentOrder?: Dish; // First dish of the basket, for compact displays
+  orderItems?: OrderItem[]; // Full basket of the current order with quantities
   closeTime?: string; // e.g., "2024-12-10 10:00" - deadline for modifications
+  targetTime?: string; // "YYYY-MM-DD HH:mm" Meican expects when fetching menus and ordering for this tab
   orderUniqueId?: string; // ID of the current order for delete/edit operations
   userAddressUniqueId?: string; // Address ID for reusing when placing orders
   namespace?: string; // Corp namespace for fetching addresses (different per meal time)
@@ -57,28 +126,115 @@ export interface DailyStatus {
 export interface PlannedOrder {
   date: string;
   mealTime: MealTime;
-  dish: Dish;
+  mealName?: string;
+  dish: Dish; // Main dish
+  items?: OrderItem[]; // Full basket incl. the main dish; absent means just `dish` x1
   reason: string;
   tabUniqueId: string;
   userAddressUniqueId?: string; // Address ID for placing orders
   namespace?: string; // Corp namespace for fetching addresses
 }
 
+export interface UnresolvedSlot {
+  date: string;
+  mealTime: MealTime;
+  mealName?: string;
+  tabUniqueId: string;
+  issues: string[]; // Validation errors from the last attempt
+}
+
+export interface PlanGenerationResult {
+  plan: PlannedOrder[];
+  unresolvedSlots: UnresolvedSlot[]; // Slots the planner could not fill
+}
+
+export interface PlanVersion {
+  version: number;
+  savedAt: string; // ISO timestamp
+  items: PlannedOrder[];
+}
+
+export interface PlanDraft {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  versions: PlanVersion[]; // Oldest first
+}
+
+export interface PlanDraftSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  latestVersion: number;
+  itemCount: number;
+}
+
 export interface HistoricalOrder {
   id: number; // DB Primary Key
   date: string;
   mealTime: MealTime;
+  mealName?: string;
+  tabUniqueId?: string;
+  orderUniqueId?: string; // Meican's order of the slot; missing on orders stored before it was kept
   dishName: string;
   restaurantName: string;
   priceInCent: number;
-  calories?: number; // Estimated by AI
+  count?: number; // Portions of the dish in the order, 1 when missing
+}
+
+export interface SchedulerEvent {
+  at: string; // ISO timestamp
+  date: string;
+  mealTime: string;
+  mealName?: string;
+  tabUniqueId: string;
+  action: 'ordered' | 'failed' | 'skipped';
+  dishName?: string;
+  restaurantName?: string;
+  priceInCent?: number;
+  message?: string;
+}
+
+export interface SchedulerStatus {
+  daemonEnabled: boolean;
+  intervalMinutes: number;
+  autoOrderEnabled: boolean;
+  lastRunAt?: string;
+  lastError?: string;
+  events: SchedulerEvent[];
+}
+
+/**
+ * Nutrition of one portion of a dish, estimated once by AI or entered by the user
+ */
+export interface NutritionRecord {
+  key: string; // restaurantName|dishName
+  dishName: string;
+  restaurantName: string;
+  calories: number; // kcal
+  proteinG: number;
+  carbsG: number;
+  fatG: number;
+  tags: string[]; // e.g. "high-protein", "fried", "vegetarian"
+  source: 'ai' | 'manual';
+  updatedAt: string; // ISO timestamp
+}
+
+export interface DailyNutrition {
+  date: string;
+  calories: number;
+  proteinG: number;
+  carbsG: number;
+  fatG: number;
+  missing: number; // Orders of the day without a nutrition record
 }
 
 export interface AnalysisResult {
   summary: string;
   score: number;
   suggestions: string[];
-  calorieTrend: { date: string; calories: number }[];
   cuisineDistribution: { name: string; value: number }[];
   modelName?: string;
 }
\ No newline at end of file
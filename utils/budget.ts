@@ -0,0 +1,193 @@
+import { BudgetPreferences, DailyStatus, Dish, MealTime, OrderItem, OrderStatus, PlannedOrder, UserPreferences } from '../types';
+import { isDishAllowed } from '../backend/src/shared/dishScoring';
+import { getPlanSlotKey } from './planDiff';
+import { getItemsTotalCent, getOrderItems } from './orderItems';
+
+export interface BudgetSlot {
+  date: string;
+  mealTime: MealTime;
+  tabUniqueId: string;
+  menu: Dish[];
+}
+
+// An order already placed this week, counted against the day and week caps
+export interface PlacedOrder {
+  date: string;
+  mealTime: MealTime;
+  tabUniqueId?: string;
+  items: OrderItem[];
+}
+
+export interface BudgetAdjustment {
+  before: PlannedOrder;
+  after: PlannedOrder | null; // null when no dish fits and the slot was dropped
+  limitCent: number;
+}
+
+export interface BudgetEnforcementResult {
+  plan: PlannedOrder[];
+  adjustments: BudgetAdjustment[];
+}
+
+export interface BudgetSummary {
+  weekCent: number;
+  dayCent: Record<string, number>;
+  overMealSlots: string[]; // Slot keys (see getPlanSlotKey)
+  overDays: string[];
+  overWeek: boolean;
+}
+
+const MEAL_ORDER: Record<string, number> = { BREAKFAST: 0, LUNCH: 1, DINNER: 2, OTHER: 3 };
+
+/**
+ * Whether any cap is configured
+ */
+export const hasBudget = (budget?: BudgetPreferences): budget is BudgetPreferences => {
+  return !!budget && !!(budget.perMealCent || budget.perDayCent || budget.perWeekCent);
+};
+
+/**
+ * What the user pays for a dish after the per-meal corporate subsidy
+ */
+export const getOutOfPocketCent = (priceInCent: number, budget?: BudgetPreferences): number => {
+  return Math.max(0, priceInCent - (budget?.subsidyCent || 0));
+};
+
+/**
+ * Orders already placed in the week
+ * Slots the plan fills are left out, since executing the plan replaces their order.
+ */
+export const getPlacedOrders = (weekStatus: DailyStatus[], plan: PlannedOrder[]): PlacedOrder[] => {
+  const planned = new Set(plan.map(getPlanSlotKey));
+  return weekStatus
+    .filter(slot => slot.status === OrderStatus.ORDERED && (slot.orderItems?.length || slot.currentOrder))
+    .filter(slot => !planned.has(getPlanSlotKey(slot)))
+    .map(slot => ({
+      date: slot.date,
+      mealTime: slot.mealTime,
+      tabUniqueId: slot.tabUniqueId,
+      items: slot.orderItems?.length ? slot.orderItems : [{ dish: slot.currentOrder!, count: 1 }],
+    }));
+};
+
+// Out-of-pocket spend of placed orders per day and for the week
+const getPlacedSpend = (placed: PlacedOrder[], budget?: BudgetPreferences) => {
+  const dayCent: Record<string, number> = {};
+  let weekCent = 0;
+  for (const order of placed) {
+    const cost = getOutOfPocketCent(getItemsTotalCent(order.items), budget);
+    dayCent[order.date] = (dayCent[order.date] || 0) + cost;
+    weekCent += cost;
+  }
+  return { dayCent, weekCent };
+};
+
+/**
+ * Enforce the budget caps on a generated plan
+ * Slots are walked in chronological order. Each pick must fit under the tightest of
+ * the per-meal cap, the remaining day cap and the remaining week cap, where the remaining
+ * caps start from what the placed orders already spend and keep back the cheapest
+ * possible cost of the slots still to come.
+ * Picks that do not fit are replaced by the most expensive eligible dish that does,
+ * or dropped if there is none.
+ */
+export const enforceBudget = (
+  plan: PlannedOrder[],
+  slots: BudgetSlot[],
+  prefs: UserPreferences,
+  placed: PlacedOrder[] = []
+): BudgetEnforcementResult => {
+  const budget = prefs.budget;
+  if (!hasBudget(budget)) return { plan, adjustments: [] };
+
+  const cost = (dish: Dish) => getOutOfPocketCent(dish.priceInCent, budget);
+  const basketCost = (item: PlannedOrder) => getOutOfPocketCent(getItemsTotalCent(getOrderItems(item)), budget);
+  const menuBySlot = new Map(slots.map(slot => [getPlanSlotKey(slot), slot.menu]));
+
+  const ordered = plan
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      a.item.date.localeCompare(b.item.date) ||
+      (MEAL_ORDER[a.item.mealTime] ?? 0) - (MEAL_ORDER[b.item.mealTime] ?? 0)
+    );
+
+  // Cheapest eligible cost per slot, reserved for slots not yet processed
+  const minCost = ordered.map(({ item }) => {
+    const costs = (menuBySlot.get(getPlanSlotKey(item)) || [])
+      .filter(dish => isDishAllowed(dish, prefs))
+      .map(cost);
+    return costs.length > 0 ? Math.min(...costs) : cost(item.dish);
+  });
+
+  const result: (PlannedOrder | null)[] = [...plan];
+  const adjustments: BudgetAdjustment[] = [];
+  const spent = getPlacedSpend(placed, budget);
+  const dayCent = spent.dayCent;
+  let weekCent = spent.weekCent;
+
+  ordered.forEach(({ item, index }, i) => {
+    const later = ordered.slice(i + 1);
+    const reserveDay = later.reduce((sum, l, j) => l.item.date === item.date ? sum + minCost[i + 1 + j] : sum, 0);
+    const reserveWeek = minCost.slice(i + 1).reduce((sum, c) => sum + c, 0);
+
+    const limitCent = Math.min(
+      budget.perMealCent || Infinity,
+      budget.perDayCent ? budget.perDayCent - (dayCent[item.date] || 0) - reserveDay : Infinity,
+      budget.perWeekCent ? budget.perWeekCent - weekCent - reserveWeek : Infinity
+    );
+
+    let picked: PlannedOrder | null = item;
+    if (basketCost(item) > limitCent) {
+      // Stay as close to the AI's pick as the budget allows, as a single dish without extras
+      const replacement = (menuBySlot.get(getPlanSlotKey(item)) || [])
+        .filter(dish => isDishAllowed(dish, prefs) && cost(dish) <= limitCent)
+        .sort((a, b) => cost(b) - cost(a) || a.name.localeCompare(b.name))[0];
+
+      picked = replacement ? { ...item, dish: replacement, items: undefined } : null;
+      adjustments.push({ before: item, after: picked, limitCent });
+    }
+
+    result[index] = picked;
+    if (picked) {
+      dayCent[item.date] = (dayCent[item.date] || 0) + basketCost(picked);
+      weekCent += basketCost(picked);
+    }
+  });
+
+  return {
+    plan: result.filter((item): item is PlannedOrder => item !== null),
+    adjustments,
+  };
+};
+
+/**
+ * Running totals of a plan and the placed orders against the caps (out-of-pocket amounts)
+ */
+export const summarizeBudget = (plan: PlannedOrder[], budget?: BudgetPreferences, placed: PlacedOrder[] = []): BudgetSummary => {
+  const summary: BudgetSummary = { ...getPlacedSpend(placed, budget), overMealSlots: [], overDays: [], overWeek: false };
+
+  for (const item of plan) {
+    const cost = getOutOfPocketCent(getItemsTotalCent(getOrderItems(item)), budget);
+    summary.weekCent += cost;
+    summary.dayCent[item.date] = (summary.dayCent[item.date] || 0) + cost;
+    if (budget?.perMealCent && cost > budget.perMealCent) {
+      summary.overMealSlots.push(getPlanSlotKey(item));
+    }
+  }
+
+  if (budget?.perDayCent) {
+    summary.overDays = Object.keys(summary.dayCent).filter(date => summary.dayCent[date] > budget.perDayCent!);
+  }
+  summary.overWeek = !!budget?.perWeekCent && summary.weekCent > budget.perWeekCent;
+
+  return summary;
+};
+
+/**
+ * Whether a summary breaks any cap
+ */
+export const isOverBudget = (summary: BudgetSummary): boolean => {
+  return summary.overWeek || summary.overDays.length > 0 || summary.overMealSlots.length > 0;
+};
+
+export const formatCent = (cent: number): string => `¥${(cent / 100).toFixed(2)}`;
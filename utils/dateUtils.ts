@@ -1,10 +1,33 @@
-/**
- * Format a date object to YYYY-MM-DD string using local time
- * This avoids the timezone shift issues caused by toISOString() which uses UTC
- */
-export const formatDate = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
+import { formatMeicanDateTime } from '../backend/src/shared/calendar';
+
+/**
+ * Format a date object to YYYY-MM-DD string using local time
+ * This avoids the timezone shift issues caused by toISOString() which uses UTC
+ */
+export const formatDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Parse a slot closeTime ("HH:mm" or "YYYY-MM-DD HH:mm") into a Date
+ */
+export const parseCloseTime = (date: string, closeTime: string): Date => {
+  if (closeTime.includes('-')) {
+    return new Date(closeTime.replace(' ', 'T'));
+  }
+  return new Date(`${date}T${closeTime}`);
+};
+
+/**
+ * Target time of a calendar slot for its menus and orders ("YYYY-MM-DD HH:mm" in
+ * Meican's time zone). Each meal tab has its own, so it comes from the calendar
+ * item's targetTime (epoch millis); without one the slot cannot be ordered.
+ */
+export const getSlotTargetTime = (date: string, targetTime?: number): string | undefined => {
+  if (targetTime) return formatMeicanDateTime(targetTime);
+  console.warn(`[DateUtils] No targetTime for a slot on ${date}`);
+  return undefined;
+};
@@ -0,0 +1,179 @@
+import { Dish, DishAllergen, DishFilters, DishProtein, DishTags, Spiciness } from '../types';
+
+export const DISH_PROTEINS: DishProtein[] = ['pork', 'beef', 'lamb', 'chicken', 'duck', 'fish', 'seafood', 'egg', 'tofu'];
+export const DISH_ALLERGENS: DishAllergen[] = ['peanut', 'nuts', 'shellfish', 'fish', 'egg', 'dairy', 'gluten', 'soy', 'sesame'];
+export const SPICINESS_LEVELS: Spiciness[] = ['none', 'mild', 'medium', 'hot'];
+
+// Bump when the dictionaries change, so cached rule tags are redone
+export const TAG_RULES_VERSION = 2;
+
+interface TermRule<T> {
+  tag: T;
+  terms: string[];
+  ignore?: string[]; // Phrases that contain a term without meaning it, e.g. 鱼香 (no fish in it)
+}
+
+const PROTEIN_RULES: TermRule<DishProtein>[] = [
+  { tag: 'pork', terms: ['猪', '五花', '排骨', '里脊', '培根', '火腿', '叉烧', '腊肉', '腊肠', '香肠', '扣肉', '狮子头', '东坡', '肘子', '肥肠', '午餐肉', '锅包肉', '麻婆', 'pork', 'bacon', 'ham'], ignore: ['hamburger'] },
+  { tag: 'beef', terms: ['牛', 'beef', 'steak'], ignore: ['牛奶', '牛油果', '蜗牛'] },
+  { tag: 'lamb', terms: ['羊', 'lamb', 'mutton'], ignore: ['羊奶'] },
+  { tag: 'chicken', terms: ['鸡', 'chicken'], ignore: ['鸡蛋', '鸡精', '鸡汁'] },
+  { tag: 'duck', terms: ['鸭', 'duck'], ignore: ['鸭蛋'] },
+  { tag: 'fish', terms: ['鱼', '鳕', '鲈', '三文', 'fish', 'salmon', 'cod', 'tuna'], ignore: ['鱼香', '鱿鱼', '墨鱼', '章鱼', '鲍鱼'] },
+  { tag: 'seafood', terms: ['虾', '蟹', '贝', '蛤', '蚝', '蛏', '鱿鱼', '墨鱼', '章鱼', '鲍鱼', '花甲', '海鲜', 'shrimp', 'prawn', 'crab', 'squid', 'seafood', 'oyster', 'clam'] },
+  { tag: 'egg', terms: ['蛋', 'egg'], ignore: ['eggplant'] },
+  { tag: 'tofu', terms: ['豆腐', '豆干', '腐竹', '千张', '豆皮', 'tofu'], ignore: ['鱼豆腐'] },
+];
+
+// In Chinese dish names unqualified 肉 (肉丝, 肉末...) is pork
+const GENERIC_MEAT_RULE: TermRule<DishProtein> = { tag: 'pork', terms: ['肉', 'meat'], ignore: ['素肉'] };
+
+const ANIMAL_PROTEINS: DishProtein[] = ['pork', 'beef', 'lamb', 'chicken', 'duck', 'fish', 'seafood'];
+
+// Allergens that follow from a protein
+const PROTEIN_ALLERGENS: Partial<Record<DishProtein, DishAllergen>> = {
+  fish: 'fish',
+  seafood: 'shellfish',
+  egg: 'egg',
+  tofu: 'soy',
+};
+
+const ALLERGEN_RULES: TermRule<DishAllergen>[] = [
+  { tag: 'peanut', terms: ['花生', '宫保', 'peanut', 'kung pao'] },
+  { tag: 'nuts', terms: ['腰果', '核桃', '杏仁', '松子', '榛子', 'cashew', 'walnut', 'almond'] },
+  { tag: 'dairy', terms: ['奶', '芝士', '奶酪', '黄油', 'cheese', 'cream', 'milk', 'butter'], ignore: ['椰奶'] },
+  { tag: 'gluten', terms: ['面', '馒头', '包子', '饺', '饼', '馄饨', '汉堡', '披萨', '意粉', 'noodle', 'bread', 'pasta', 'burger', 'pizza', 'sandwich', 'dumpling'] },
+  { tag: 'soy', terms: ['黄豆', '毛豆', '豆浆', 'soy', 'edamame'] },
+  { tag: 'sesame', terms: ['芝麻', '麻酱', 'sesame'] },
+];
+
+// First match wins, so regional dishes come before the broad styles
+const CUISINE_RULES: TermRule<string>[] = [
+  { tag: 'sichuan', terms: ['川', '麻辣', '水煮', '回锅', '宫保', '鱼香', '麻婆', '毛血旺', '口水鸡', '夫妻肺片', 'sichuan'] },
+  { tag: 'hunan', terms: ['湘', '剁椒', '小炒肉', 'hunan'] },
+  { tag: 'cantonese', terms: ['粤', '广式', '烧腊', '叉烧', '烧鹅', '白切鸡', '煲仔', '肠粉', 'cantonese'] },
+  { tag: 'northeastern', terms: ['东北', '锅包肉', '地三鲜', '小鸡炖蘑菇'] },
+  { tag: 'xinjiang', terms: ['新疆', '大盘鸡', '手抓饭', '羊肉串', '拉条子'] },
+  { tag: 'japanese', terms: ['日式', '寿司', '照烧', '天妇罗', '鳗鱼饭', '丼', '味增', 'teriyaki', 'sushi', 'katsu'] },
+  { tag: 'korean', terms: ['韩式', '石锅拌饭', '泡菜', '部队锅', 'bibimbap', 'kimchi'] },
+  { tag: 'southeast_asian', terms: ['泰式', '冬阴功', '越南', '咖喱', 'thai', 'curry'] },
+  { tag: 'western', terms: ['意面', '披萨', '汉堡', '沙拉', '牛排', '三明治', 'pasta', 'pizza', 'burger', 'salad', 'steak', 'sandwich'] },
+];
+
+const INGREDIENT_RULES: TermRule<string>[] = [
+  { tag: 'potato', terms: ['土豆', '马铃薯', '薯', 'potato'] },
+  { tag: 'eggplant', terms: ['茄子', 'eggplant'] },
+  { tag: 'tomato', terms: ['番茄', '西红柿', 'tomato'] },
+  { tag: 'cabbage', terms: ['白菜', '包菜', '卷心菜', 'cabbage'] },
+  { tag: 'broccoli', terms: ['西兰花', '西蓝花', 'broccoli'] },
+  { tag: 'cauliflower', terms: ['花菜', '菜花', '花椰菜', 'cauliflower'] },
+  { tag: 'mushroom', terms: ['菇', '蘑', '菌', '木耳', 'mushroom'] },
+  { tag: 'greens', terms: ['青菜', '菜心', '油麦', '生菜', '菠菜', 'greens', 'lettuce', 'spinach'] },
+  { tag: 'pepper', terms: ['青椒', '尖椒', '彩椒', '辣椒', 'pepper'] },
+  { tag: 'cilantro', terms: ['香菜', 'cilantro', 'coriander'] },
+  { tag: 'scallion', terms: ['葱', 'scallion'], ignore: ['洋葱'] },
+  { tag: 'onion', terms: ['洋葱', 'onion'] },
+  { tag: 'garlic', terms: ['蒜', 'garlic'] },
+  { tag: 'celery', terms: ['芹菜', 'celery'] },
+  { tag: 'corn', terms: ['玉米', 'corn'] },
+  { tag: 'bean_sprouts', terms: ['豆芽', 'bean sprout'] },
+  { tag: 'green_beans', terms: ['豆角', '四季豆', '荷兰豆', 'green bean'] },
+  { tag: 'lotus_root', terms: ['藕', 'lotus'] },
+  { tag: 'rice', terms: ['饭', '米', 'rice'], ignore: ['玉米', '虾米'] },
+  { tag: 'noodles', terms: ['面', '粉丝', '米粉', '河粉', 'noodle'] },
+];
+
+// First match wins: 不辣 and 微辣 override the rest of the name, then dishes known
+// to be hot or mild, then the generic heat words (酸辣 would otherwise match 辣)
+const SPICINESS_RULES: TermRule<Spiciness>[] = [
+  { tag: 'none', terms: ['不辣', '免辣', 'not spicy'] },
+  { tag: 'mild', terms: ['微辣', 'mild'] },
+  { tag: 'hot', terms: ['麻辣', '特辣', '香辣', '水煮', '剁椒', '麻婆', '毛血旺', '辣子鸡', 'extra spicy'] },
+  { tag: 'mild', terms: ['青椒', '宫保', '鱼香', '酸辣'] },
+  { tag: 'medium', terms: ['辣', '红油', '干锅', '尖椒', '川', '湘', 'spicy', 'chili'] },
+];
+
+const VEGETARIAN_TERMS = ['素', '斋', 'vegetarian', 'vegan'];
+
+const matches = <T>(name: string, rule: TermRule<T>): boolean => {
+  const text = (rule.ignore || []).reduce((rest, phrase) => rest.split(phrase).join(' '), name);
+  return rule.terms.some(term => text.includes(term));
+};
+
+const matchAll = <T>(name: string, rules: TermRule<T>[]): T[] => {
+  const tags: T[] = [];
+  rules.forEach(rule => {
+    if (matches(name, rule) && !tags.includes(rule.tag)) tags.push(rule.tag);
+  });
+  return tags;
+};
+
+/**
+ * Tags of a dish from the rule dictionaries of common dish terms
+ */
+export const extractDishTags = (dish: Pick<Dish, 'id' | 'name'>): DishTags => {
+  const name = dish.name.toLowerCase();
+
+  const proteins = matchAll(name, PROTEIN_RULES);
+  if (!proteins.some(p => ANIMAL_PROTEINS.includes(p)) && matches(name, GENERIC_MEAT_RULE)) {
+    proteins.unshift(GENERIC_MEAT_RULE.tag);
+  }
+
+  const allergens = matchAll(name, ALLERGEN_RULES);
+  proteins.forEach(protein => {
+    const allergen = PROTEIN_ALLERGENS[protein];
+    if (allergen && !allergens.includes(allergen)) allergens.push(allergen);
+  });
+
+  const ingredients = matchAll(name, INGREDIENT_RULES);
+  // Names rarely list every ingredient (番茄炒饭 may come with ham, 麻婆豆腐 has minced pork),
+  // so only a dish that says so is vegetarian; AI tagging can tell the others
+  const vegetarian = !proteins.some(p => ANIMAL_PROTEINS.includes(p)) &&
+    VEGETARIAN_TERMS.some(term => name.includes(term));
+
+  return {
+    dishId: dish.id,
+    dishName: dish.name,
+    proteins,
+    allergens,
+    ingredients,
+    cuisine: CUISINE_RULES.find(rule => matches(name, rule))?.tag,
+    spiciness: SPICINESS_RULES.find(rule => matches(name, rule))?.tag || 'none',
+    vegetarian,
+    source: 'rules',
+    rulesVersion: TAG_RULES_VERSION,
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Rule tags that tell too little to filter on: no protein found and not known to be vegetarian,
+ * or any dish while an allergen or vegetarian filter is on, since names leave out most ingredients
+ */
+export const needsEnrichment = (tags: DishTags, filters?: DishFilters): boolean =>
+  (tags.proteins.length === 0 && !tags.vegetarian) ||
+  !!filters?.vegetarianOnly ||
+  !!filters?.excludedAllergens?.length;
+
+/**
+ * Whether any structured filter is set
+ */
+export const hasDishFilters = (filters?: DishFilters): filters is DishFilters =>
+  !!filters && !!(
+    filters.vegetarianOnly ||
+    filters.excludedProteins?.length ||
+    filters.excludedAllergens?.length ||
+    (filters.maxSpiciness && filters.maxSpiciness !== 'hot')
+  );
+
+/**
+ * Whether a dish with these tags passes the filters
+ */
+export const passesDishFilters = (tags: DishTags, filters?: DishFilters): boolean => {
+  if (!filters) return true;
+  if (filters.vegetarianOnly && !tags.vegetarian) return false;
+  if (filters.excludedProteins?.some(p => tags.proteins.includes(p))) return false;
+  if (filters.excludedAllergens?.some(a => tags.allergens.includes(a))) return false;
+  if (filters.maxSpiciness && SPICINESS_LEVELS.indexOf(tags.spiciness) > SPICINESS_LEVELS.indexOf(filters.maxSpiciness)) return false;
+  return true;
+};
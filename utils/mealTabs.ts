@@ -0,0 +1,51 @@
+import i18n from '../i18n';
+import { DailyStatus, MealTab, MealTime } from '../types';
+import { getMealTime as getMealTimeByName } from '../backend/src/shared/calendar';
+
+// The backend's auto-order and reminders switch tabs by the same rules
+export { isMealTabEnabled } from '../backend/src/shared/calendar';
+
+// Order of the kinds within a day when tabs have no target time to compare
+const MEAL_TIME_ORDER: Record<MealTime, number> = {
+  [MealTime.BREAKFAST]: 0,
+  [MealTime.LUNCH]: 1,
+  [MealTime.DINNER]: 2,
+  [MealTime.OTHER]: 3,
+};
+
+/**
+ * Kind of a meal tab from its title or opening time name, as the enum whose values are the shared kinds
+ * Tabs that are none of the usual three (afternoon tea, overtime meals...) are OTHER, not dinner
+ */
+export const getMealTime = (title?: string, openingName?: string): MealTime =>
+  getMealTimeByName(title, openingName) as MealTime;
+
+/**
+ * Display name of a slot's meal: Meican's name for the tab, else the translated kind
+ */
+export const getMealLabel = (slot: { mealTime: MealTime; mealName?: string }): string => {
+  return slot.mealName || i18n.t(`meals.${slot.mealTime.toLowerCase()}`);
+};
+
+/**
+ * The meal tabs of a calendar, in the order of their time of day
+ */
+export const getMealTabs = (statuses: DailyStatus[]): MealTab[] => {
+  const tabs = new Map<string, MealTab & { timeOfDay: string }>();
+  for (const slot of statuses) {
+    if (!slot.tabUniqueId || tabs.has(slot.tabUniqueId)) continue;
+    tabs.set(slot.tabUniqueId, {
+      id: slot.tabUniqueId,
+      name: getMealLabel(slot),
+      mealTime: slot.mealTime,
+      timeOfDay: slot.targetTime?.slice(11) || '',
+    });
+  }
+  return [...tabs.values()]
+    .sort((a, b) =>
+      (a.timeOfDay && b.timeOfDay ? a.timeOfDay.localeCompare(b.timeOfDay) : 0) ||
+      MEAL_TIME_ORDER[a.mealTime] - MEAL_TIME_ORDER[b.mealTime] ||
+      a.name.localeCompare(b.name)
+    )
+    .map(({ timeOfDay, ...tab }) => tab);
+};
@@ -0,0 +1,62 @@
+import i18n from '../i18n';
+import { Dish, OrderItem } from '../types';
+
+/**
+ * Basket of a planned or current order
+ * Orders without an explicit basket are a single main dish
+ */
+export const getOrderItems = (order: { dish: Dish; items?: OrderItem[] }): OrderItem[] => {
+  return order.items && order.items.length > 0 ? order.items : [{ dish: order.dish, count: 1 }];
+};
+
+export const getItemsTotalCent = (items: OrderItem[]): number => {
+  return items.reduce((sum, item) => sum + item.dish.priceInCent * item.count, 0);
+};
+
+/**
+ * Stable identity of a basket, independent of item order
+ */
+export const getItemsKey = (items: OrderItem[]): string => {
+  return items
+    .map(item => `${item.dish.id}x${item.count}`)
+    .sort()
+    .join(',');
+};
+
+/**
+ * e.g. "Beef Rice ×2 + Lemon Tea"
+ */
+export const formatItemsLabel = (items: OrderItem[]): string => {
+  return items
+    .map(item => item.count > 1 ? `${item.dish.name} ×${item.count}` : item.dish.name)
+    .join(' + ');
+};
+
+/**
+ * Add one of a dish to a basket (or remove one with delta -1); empty lines are dropped
+ */
+export const updateItemCount = (items: OrderItem[], dish: Dish, delta: number): OrderItem[] => {
+  const existing = items.find(item => String(item.dish.id) === String(dish.id));
+  if (!existing) {
+    return delta > 0 ? [...items, { dish, count: delta }] : items;
+  }
+  return items
+    .map(item => item === existing ? { ...item, count: item.count + delta } : item)
+    .filter(item => item.count > 0);
+};
+
+/**
+ * Append a note to a remark, skipping it if already present
+ */
+export const appendRemark = (remark: string | undefined, note: string): string => {
+  const current = (remark || '').trim();
+  if (!current) return note;
+  return current.includes(note) ? current : `${current}, ${note}`;
+};
+
+/**
+ * Remark asking the restaurant to leave out excluded ingredients, e.g. "No cilantro, peanuts"
+ */
+export const buildExclusionRemark = (keywords: string[]): string => {
+  return i18n.t('remarks.exclusion', { items: keywords.join(i18n.t('remarks.separator')) });
+};
@@ -0,0 +1,49 @@
+import { PlannedOrder } from '../types';
+import { getItemsKey, getOrderItems } from './orderItems';
+
+export interface PlanDiff {
+  added: PlannedOrder[];
+  removed: PlannedOrder[];
+  changed: { before: PlannedOrder; after: PlannedOrder }[];
+  unchangedCount: number;
+}
+
+/**
+ * Identify a plan item by the meal slot it fills
+ */
+export const getPlanSlotKey = (item: { date: string; mealTime: string; tabUniqueId?: string }): string => {
+  return `${item.date}|${item.tabUniqueId || item.mealTime}`;
+};
+
+/**
+ * Compare two versions of a plan slot by slot
+ */
+export const diffPlans = (base: PlannedOrder[], next: PlannedOrder[]): PlanDiff => {
+  const baseBySlot = new Map(base.map(item => [getPlanSlotKey(item), item]));
+  const nextBySlot = new Map(next.map(item => [getPlanSlotKey(item), item]));
+
+  const diff: PlanDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+
+  for (const [key, after] of nextBySlot.entries()) {
+    const before = baseBySlot.get(key);
+    if (!before) {
+      diff.added.push(after);
+    } else if (getItemsKey(getOrderItems(before)) !== getItemsKey(getOrderItems(after))) {
+      diff.changed.push({ before, after });
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+
+  for (const [key, before] of baseBySlot.entries()) {
+    if (!nextBySlot.has(key)) {
+      diff.removed.push(before);
+    }
+  }
+
+  return diff;
+};
+
+export const isEmptyDiff = (diff: PlanDiff): boolean => {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+};